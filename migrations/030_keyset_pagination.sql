@@ -0,0 +1,332 @@
+-- =============================================================================
+-- Migration 030: Keyset (cursor) pagination
+-- Cursor-based variants of the transaction and block listings
+-- Deep pages seek by (height, id) instead of scanning past an OFFSET
+-- =============================================================================
+
+BEGIN;
+
+-- Composite index backing the (height DESC, id DESC) seek
+CREATE INDEX IF NOT EXISTS idx_tx_height_id ON api.transactions_main(height DESC, id DESC);
+
+-- =============================================================================
+-- CURSOR HELPERS
+-- Cursors are URL-safe base64 of ':'-joined key parts, opaque to clients
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION api.encode_cursor(VARIADIC _parts text[])
+RETURNS text
+LANGUAGE sql IMMUTABLE
+AS $$
+  SELECT translate(
+    encode(convert_to(array_to_string(_parts, ':'), 'UTF8'), 'base64'),
+    E'+/=\n', '-_'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION api.decode_cursor(_cursor text)
+RETURNS text[]
+LANGUAGE sql IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN _cursor IS NULL OR _cursor = '' THEN NULL
+    ELSE string_to_array(
+      convert_from(
+        decode(rpad(translate(_cursor, '-_', '+/'), (length(_cursor) + 3) / 4 * 4, '='), 'base64'),
+        'UTF8'
+      ),
+      ':'
+    )
+  END;
+$$;
+
+-- =============================================================================
+-- TRANSACTIONS
+-- =============================================================================
+
+-- Cursor-paginated transactions with optional filters
+-- _include_total runs the full COUNT only when requested
+CREATE OR REPLACE FUNCTION api.get_transactions_keyset(
+  _limit int DEFAULT 20,
+  _cursor text DEFAULT NULL,
+  _status text DEFAULT NULL,
+  _block_height bigint DEFAULT NULL,
+  _message_type text DEFAULT NULL,
+  _include_total boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE sql STABLE
+AS $$
+  WITH cursor_key AS (
+    SELECT c[1]::bigint AS height, c[2] AS id
+    FROM (SELECT api.decode_cursor(_cursor) AS c) d
+  ),
+  filtered AS NOT MATERIALIZED (
+    SELECT t.*
+    FROM api.transactions_main t
+    WHERE (_status IS NULL OR
+           (_status = 'success' AND t.error IS NULL) OR
+           (_status = 'failed' AND t.error IS NOT NULL))
+      AND (_block_height IS NULL OR t.height = _block_height)
+      AND (_message_type IS NULL OR EXISTS (
+        SELECT 1 FROM api.messages_main m WHERE m.id = t.id AND m.type = _message_type
+      ))
+  ),
+  page AS (
+    SELECT f.*
+    FROM filtered f
+    WHERE _cursor IS NULL OR (f.height, f.id) < (SELECT height, id FROM cursor_key)
+    ORDER BY f.height DESC, f.id DESC
+    LIMIT _limit + 1
+  ),
+  paginated AS (
+    SELECT * FROM page
+    ORDER BY height DESC, id DESC
+    LIMIT _limit
+  ),
+  last_row AS (
+    SELECT height, id FROM paginated
+    ORDER BY height, id
+    LIMIT 1
+  ),
+  total AS (
+    SELECT CASE WHEN _include_total THEN (SELECT COUNT(*) FROM filtered) END AS count
+  ),
+  tx_messages AS (
+    SELECT
+      m.id,
+      jsonb_agg(
+        jsonb_build_object(
+          'id', m.id,
+          'message_index', m.message_index,
+          'type', m.type,
+          'sender', m.sender,
+          'mentions', m.mentions,
+          'metadata', m.metadata
+        ) ORDER BY m.message_index
+      ) AS messages
+    FROM api.messages_main m
+    WHERE m.id IN (SELECT id FROM paginated)
+    GROUP BY m.id
+  ),
+  tx_events AS (
+    SELECT
+      e.id,
+      jsonb_agg(
+        jsonb_build_object(
+          'id', e.id,
+          'event_index', e.event_index,
+          'attr_index', e.attr_index,
+          'event_type', e.event_type,
+          'attr_key', e.attr_key,
+          'attr_value', e.attr_value,
+          'msg_index', e.msg_index
+        ) ORDER BY e.event_index, e.attr_index
+      ) AS events
+    FROM api.events_main e
+    WHERE e.id IN (SELECT id FROM paginated)
+    GROUP BY e.id
+  )
+  SELECT jsonb_build_object(
+    'data', COALESCE(jsonb_agg(
+      jsonb_build_object(
+        'id', p.id,
+        'height', p.height,
+        'timestamp', p.timestamp,
+        'fee', p.fee,
+        'memo', p.memo,
+        'error', p.error,
+        'proposal_ids', p.proposal_ids,
+        'messages', COALESCE(m.messages, '[]'::jsonb),
+        'events', COALESCE(e.events, '[]'::jsonb),
+        'ingest_error', NULL
+      ) ORDER BY p.height DESC, p.id DESC
+    ), '[]'::jsonb),
+    'pagination', jsonb_build_object(
+      'limit', _limit,
+      'has_next', (SELECT COUNT(*) FROM page) > _limit,
+      'next_cursor', CASE
+        WHEN (SELECT COUNT(*) FROM page) > _limit
+        THEN (SELECT api.encode_cursor(height::text, id) FROM last_row)
+      END,
+      'total', (SELECT count FROM total)
+    )
+  )
+  FROM paginated p
+  LEFT JOIN tx_messages m ON p.id = m.id
+  LEFT JOIN tx_events e ON p.id = e.id;
+$$;
+
+-- Cursor-paginated transactions for an address
+CREATE OR REPLACE FUNCTION api.get_transactions_by_address_keyset(
+  _address text,
+  _limit int DEFAULT 50,
+  _cursor text DEFAULT NULL,
+  _include_total boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE sql STABLE
+AS $$
+  WITH cursor_key AS (
+    SELECT c[1]::bigint AS height, c[2] AS id
+    FROM (SELECT api.decode_cursor(_cursor) AS c) d
+  ),
+  addr_txs AS (
+    SELECT DISTINCT m.id
+    FROM api.messages_main m
+    WHERE m.sender = _address OR _address = ANY(m.mentions)
+  ),
+  page AS (
+    SELECT t.*
+    FROM api.transactions_main t
+    JOIN addr_txs a ON t.id = a.id
+    WHERE _cursor IS NULL OR (t.height, t.id) < (SELECT height, id FROM cursor_key)
+    ORDER BY t.height DESC, t.id DESC
+    LIMIT _limit + 1
+  ),
+  paginated AS (
+    SELECT * FROM page
+    ORDER BY height DESC, id DESC
+    LIMIT _limit
+  ),
+  last_row AS (
+    SELECT height, id FROM paginated
+    ORDER BY height, id
+    LIMIT 1
+  ),
+  total AS (
+    SELECT CASE WHEN _include_total THEN (SELECT COUNT(*) FROM addr_txs) END AS count
+  ),
+  tx_messages AS (
+    SELECT
+      m.id,
+      jsonb_agg(
+        jsonb_build_object(
+          'id', m.id,
+          'message_index', m.message_index,
+          'type', m.type,
+          'sender', m.sender,
+          'mentions', m.mentions,
+          'metadata', m.metadata
+        ) ORDER BY m.message_index
+      ) AS messages
+    FROM api.messages_main m
+    WHERE m.id IN (SELECT id FROM paginated)
+    GROUP BY m.id
+  ),
+  tx_events AS (
+    SELECT
+      e.id,
+      jsonb_agg(
+        jsonb_build_object(
+          'id', e.id,
+          'event_index', e.event_index,
+          'attr_index', e.attr_index,
+          'event_type', e.event_type,
+          'attr_key', e.attr_key,
+          'attr_value', e.attr_value,
+          'msg_index', e.msg_index
+        ) ORDER BY e.event_index, e.attr_index
+      ) AS events
+    FROM api.events_main e
+    WHERE e.id IN (SELECT id FROM paginated)
+    GROUP BY e.id
+  )
+  SELECT jsonb_build_object(
+    'data', COALESCE(jsonb_agg(
+      jsonb_build_object(
+        'id', p.id,
+        'height', p.height,
+        'timestamp', p.timestamp,
+        'fee', p.fee,
+        'memo', p.memo,
+        'error', p.error,
+        'proposal_ids', p.proposal_ids,
+        'messages', COALESCE(m.messages, '[]'::jsonb),
+        'events', COALESCE(e.events, '[]'::jsonb),
+        'ingest_error', NULL
+      ) ORDER BY p.height DESC, p.id DESC
+    ), '[]'::jsonb),
+    'pagination', jsonb_build_object(
+      'limit', _limit,
+      'has_next', (SELECT COUNT(*) FROM page) > _limit,
+      'next_cursor', CASE
+        WHEN (SELECT COUNT(*) FROM page) > _limit
+        THEN (SELECT api.encode_cursor(height::text, id) FROM last_row)
+      END,
+      'total', (SELECT count FROM total)
+    )
+  )
+  FROM paginated p
+  LEFT JOIN tx_messages m ON p.id = m.id
+  LEFT JOIN tx_events e ON p.id = e.id;
+$$;
+
+-- =============================================================================
+-- BLOCKS
+-- =============================================================================
+
+-- Cursor-paginated blocks (cursor is the last returned height)
+CREATE OR REPLACE FUNCTION api.get_blocks_keyset(
+  _limit int DEFAULT 20,
+  _cursor text DEFAULT NULL,
+  _min_tx_count int DEFAULT NULL,
+  _include_total boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE sql STABLE
+AS $$
+  WITH cursor_key AS (
+    SELECT c[1]::bigint AS height
+    FROM (SELECT api.decode_cursor(_cursor) AS c) d
+  ),
+  filtered AS NOT MATERIALIZED (
+    SELECT b.id, b.data, b.tx_count
+    FROM api.blocks_raw b
+    WHERE _min_tx_count IS NULL OR b.tx_count >= _min_tx_count
+  ),
+  page AS (
+    SELECT f.*
+    FROM filtered f
+    WHERE _cursor IS NULL OR f.id < (SELECT height FROM cursor_key)
+    ORDER BY f.id DESC
+    LIMIT _limit + 1
+  ),
+  paginated AS (
+    SELECT * FROM page
+    ORDER BY id DESC
+    LIMIT _limit
+  ),
+  total AS (
+    SELECT CASE WHEN _include_total THEN (SELECT COUNT(*) FROM filtered) END AS count
+  )
+  SELECT jsonb_build_object(
+    'data', COALESCE(jsonb_agg(
+      jsonb_build_object(
+        'id', p.id,
+        'data', p.data,
+        'tx_count', COALESCE(p.tx_count, 0)
+      ) ORDER BY p.id DESC
+    ), '[]'::jsonb),
+    'pagination', jsonb_build_object(
+      'limit', _limit,
+      'has_next', (SELECT COUNT(*) FROM page) > _limit,
+      'next_cursor', CASE
+        WHEN (SELECT COUNT(*) FROM page) > _limit
+        THEN (SELECT api.encode_cursor(MIN(id)::text) FROM paginated)
+      END,
+      'total', (SELECT count FROM total)
+    )
+  )
+  FROM paginated p;
+$$;
+
+-- =============================================================================
+-- GRANT PERMISSIONS
+-- =============================================================================
+
+GRANT EXECUTE ON FUNCTION api.get_transactions_keyset(int, text, text, bigint, text, boolean) TO web_anon;
+GRANT EXECUTE ON FUNCTION api.get_transactions_by_address_keyset(text, int, text, boolean) TO web_anon;
+GRANT EXECUTE ON FUNCTION api.get_blocks_keyset(int, text, int, boolean) TO web_anon;
+
+COMMIT;
@@ -0,0 +1,44 @@
+-- =============================================================================
+-- Migration 032: Per-token-id transfer rows
+-- Splits token transfers into token_id / amount columns and allows one row
+-- per id for ERC-1155 TransferBatch logs (keyed by batch_index)
+-- =============================================================================
+
+BEGIN;
+
+ALTER TABLE api.evm_token_transfers ADD COLUMN IF NOT EXISTS batch_index INT NOT NULL DEFAULT 0;
+ALTER TABLE api.evm_token_transfers ADD COLUMN IF NOT EXISTS token_id NUMERIC;
+ALTER TABLE api.evm_token_transfers ADD COLUMN IF NOT EXISTS amount NUMERIC;
+
+-- Widen primary key to (tx_id, log_index, batch_index)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_index i
+    JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = ANY(i.indkey)
+    WHERE i.indrelid = 'api.evm_token_transfers'::regclass
+      AND i.indisprimary
+      AND a.attname = 'batch_index'
+  ) THEN
+    ALTER TABLE api.evm_token_transfers DROP CONSTRAINT IF EXISTS evm_token_transfers_pkey;
+    ALTER TABLE api.evm_token_transfers ADD PRIMARY KEY (tx_id, log_index, batch_index);
+  END IF;
+END $$;
+
+-- Backfill existing ERC-20 / ERC-721 rows
+-- ERC-721 rows stored the token id in value
+UPDATE api.evm_token_transfers tt
+SET
+  token_id = CASE WHEN t.type = 'ERC721' THEN tt.value END,
+  amount = CASE WHEN t.type = 'ERC721' THEN 1 ELSE tt.value END
+FROM api.evm_tokens t
+WHERE t.address = tt.token_address
+  AND tt.amount IS NULL
+  AND t.type IN ('ERC20', 'ERC721');
+
+CREATE INDEX IF NOT EXISTS idx_token_transfer_token_id
+  ON api.evm_token_transfers(token_address, token_id)
+  WHERE token_id IS NOT NULL;
+
+COMMIT;
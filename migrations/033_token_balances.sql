@@ -0,0 +1,253 @@
+-- =============================================================================
+-- Migration 033: Token holder balances
+-- Maintains per-holder balances for ERC-20/721/1155 tokens from
+-- api.evm_token_transfers via trigger, plus holder/balance RPC functions
+-- =============================================================================
+
+BEGIN;
+
+-- token_id is NULL for ERC-20, the token id for ERC-721/1155
+CREATE TABLE IF NOT EXISTS api.evm_token_balances (
+  token_address TEXT NOT NULL,
+  holder TEXT NOT NULL,
+  token_id NUMERIC,
+  balance NUMERIC NOT NULL DEFAULT 0,
+  last_tx_id TEXT,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT evm_token_balances_key UNIQUE NULLS NOT DISTINCT (token_address, holder, token_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_token_balances_holder ON api.evm_token_balances(holder);
+CREATE INDEX IF NOT EXISTS idx_token_balances_token ON api.evm_token_balances(token_address, balance DESC);
+
+-- =============================================================================
+-- BALANCE MAINTENANCE
+-- =============================================================================
+
+-- Apply a signed balance delta, dropping rows that reach zero
+CREATE OR REPLACE FUNCTION api.apply_token_balance_delta(
+  _token_address text,
+  _holder text,
+  _token_id numeric,
+  _delta numeric,
+  _tx_id text
+)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF _holder = '0x0000000000000000000000000000000000000000' OR _delta = 0 THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO api.evm_token_balances (token_address, holder, token_id, balance, last_tx_id, updated_at)
+  VALUES (_token_address, _holder, _token_id, _delta, _tx_id, NOW())
+  ON CONFLICT (token_address, holder, token_id) DO UPDATE SET
+    balance = api.evm_token_balances.balance + EXCLUDED.balance,
+    last_tx_id = EXCLUDED.last_tx_id,
+    updated_at = NOW();
+
+  DELETE FROM api.evm_token_balances
+  WHERE token_address = _token_address
+    AND holder = _holder
+    AND token_id IS NOT DISTINCT FROM _token_id
+    AND balance = 0;
+END;
+$$;
+
+-- Keep balances in sync as transfers are inserted (or removed on re-decode)
+CREATE OR REPLACE FUNCTION api.track_token_balance()
+RETURNS TRIGGER AS $$
+DECLARE
+  transfer RECORD;
+  sign NUMERIC;
+  transfer_amount NUMERIC;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    transfer := OLD;
+    sign := -1;
+  ELSE
+    transfer := NEW;
+    sign := 1;
+  END IF;
+
+  transfer_amount := COALESCE(transfer.amount, transfer.value);
+
+  PERFORM api.apply_token_balance_delta(
+    transfer.token_address, transfer.from_address, transfer.token_id, -sign * transfer_amount, transfer.tx_id
+  );
+  PERFORM api.apply_token_balance_delta(
+    transfer.token_address, transfer.to_address, transfer.token_id, sign * transfer_amount, transfer.tx_id
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_track_token_balance ON api.evm_token_transfers;
+CREATE TRIGGER trigger_track_token_balance
+AFTER INSERT OR DELETE ON api.evm_token_transfers
+FOR EACH ROW
+EXECUTE FUNCTION api.track_token_balance();
+
+-- Rebuild all balances from the transfer history (admin only)
+CREATE OR REPLACE FUNCTION api.rebuild_token_balances()
+RETURNS void
+LANGUAGE sql
+AS $$
+  TRUNCATE api.evm_token_balances;
+
+  INSERT INTO api.evm_token_balances (token_address, holder, token_id, balance, updated_at)
+  SELECT token_address, holder, token_id, SUM(delta), NOW()
+  FROM (
+    SELECT token_address, to_address AS holder, token_id, COALESCE(amount, value) AS delta
+    FROM api.evm_token_transfers
+    UNION ALL
+    SELECT token_address, from_address AS holder, token_id, -COALESCE(amount, value) AS delta
+    FROM api.evm_token_transfers
+  ) moves
+  WHERE holder <> '0x0000000000000000000000000000000000000000'
+  GROUP BY token_address, holder, token_id
+  HAVING SUM(delta) <> 0;
+$$;
+
+-- One-time backfill from transfers indexed before this migration; migrations
+-- are re-applied on every deploy, so only while no balances exist yet
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM api.evm_token_balances) THEN
+    PERFORM api.rebuild_token_balances();
+  END IF;
+END;
+$$;
+
+-- =============================================================================
+-- RPC FUNCTIONS
+-- =============================================================================
+
+-- Holders of a token ranked by balance, with share of supply
+-- Supply is evm_tokens.total_supply when known, else the sum of holder balances
+CREATE OR REPLACE FUNCTION api.get_token_holders(
+  _token text,
+  _limit int DEFAULT 50,
+  _offset int DEFAULT 0,
+  _token_id numeric DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE sql STABLE
+AS $$
+  WITH holders AS (
+    SELECT
+      b.holder,
+      SUM(b.balance) AS balance,
+      COUNT(*) FILTER (WHERE b.token_id IS NOT NULL) AS token_id_count
+    FROM api.evm_token_balances b
+    WHERE b.token_address = lower(_token)
+      AND (_token_id IS NULL OR b.token_id = _token_id)
+      AND b.balance > 0
+    GROUP BY b.holder
+  ),
+  supply AS (
+    SELECT COALESCE(
+      CASE WHEN _token_id IS NULL THEN (SELECT total_supply FROM api.evm_tokens WHERE address = lower(_token)) END,
+      (SELECT SUM(balance) FROM holders)
+    ) AS total
+  ),
+  ranked AS (
+    SELECT
+      h.*,
+      ROW_NUMBER() OVER (ORDER BY h.balance DESC, h.holder) AS rank
+    FROM holders h
+  ),
+  paginated AS (
+    SELECT * FROM ranked
+    ORDER BY rank
+    LIMIT _limit OFFSET _offset
+  ),
+  total AS (
+    SELECT COUNT(*) AS count FROM holders
+  )
+  SELECT jsonb_build_object(
+    'data', COALESCE(jsonb_agg(
+      jsonb_build_object(
+        'rank', p.rank,
+        'holder', p.holder,
+        'balance', p.balance::text,
+        'token_id_count', p.token_id_count,
+        'percentage', CASE
+          WHEN s.total > 0 THEN ROUND(p.balance / s.total * 100, 6)
+        END
+      ) ORDER BY p.rank
+    ), '[]'::jsonb),
+    'pagination', jsonb_build_object(
+      'total', (SELECT count FROM total),
+      'limit', _limit,
+      'offset', _offset,
+      'has_next', _offset + _limit < (SELECT count FROM total),
+      'has_prev', _offset > 0
+    )
+  )
+  FROM paginated p
+  CROSS JOIN supply s;
+$$;
+
+-- Token holdings of an address with token metadata
+CREATE OR REPLACE FUNCTION api.get_token_balances(
+  _address text,
+  _limit int DEFAULT 50,
+  _offset int DEFAULT 0
+)
+RETURNS jsonb
+LANGUAGE sql STABLE
+AS $$
+  WITH holdings AS (
+    SELECT b.*
+    FROM api.evm_token_balances b
+    WHERE b.holder = lower(_address)
+      AND b.balance > 0
+  ),
+  paginated AS (
+    SELECT * FROM holdings
+    ORDER BY token_address, token_id NULLS FIRST
+    LIMIT _limit OFFSET _offset
+  ),
+  total AS (
+    SELECT COUNT(*) AS count FROM holdings
+  )
+  SELECT jsonb_build_object(
+    'data', COALESCE(jsonb_agg(
+      jsonb_build_object(
+        'token_address', p.token_address,
+        'token_id', p.token_id::text,
+        'balance', p.balance::text,
+        'type', t.type,
+        'name', t.name,
+        'symbol', t.symbol,
+        'decimals', t.decimals,
+        'updated_at', p.updated_at
+      ) ORDER BY p.token_address, p.token_id NULLS FIRST
+    ), '[]'::jsonb),
+    'pagination', jsonb_build_object(
+      'total', (SELECT count FROM total),
+      'limit', _limit,
+      'offset', _offset,
+      'has_next', _offset + _limit < (SELECT count FROM total),
+      'has_prev', _offset > 0
+    )
+  )
+  FROM paginated p
+  LEFT JOIN api.evm_tokens t ON t.address = p.token_address;
+$$;
+
+-- =============================================================================
+-- GRANT PERMISSIONS
+-- =============================================================================
+
+GRANT SELECT ON api.evm_token_balances TO web_anon;
+GRANT EXECUTE ON FUNCTION api.get_token_holders(text, int, int, numeric) TO web_anon;
+GRANT EXECUTE ON FUNCTION api.get_token_balances(text, int, int) TO web_anon;
+
+REVOKE EXECUTE ON FUNCTION api.rebuild_token_balances() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION api.rebuild_token_balances() TO analytics_admin;
+
+COMMIT;
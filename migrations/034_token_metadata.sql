@@ -0,0 +1,20 @@
+-- =============================================================================
+-- Migration 034: Token metadata enrichment state
+-- Tracks when token-metadata-daemon last fetched name/symbol/decimals and
+-- totalSupply for each row in api.evm_tokens
+-- =============================================================================
+
+BEGIN;
+
+ALTER TABLE api.evm_tokens ADD COLUMN IF NOT EXISTS metadata_updated_at TIMESTAMPTZ;
+ALTER TABLE api.evm_tokens ADD COLUMN IF NOT EXISTS supply_updated_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_evm_tokens_metadata_pending
+  ON api.evm_tokens(first_seen_height)
+  WHERE metadata_updated_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_evm_tokens_supply_updated
+  ON api.evm_tokens(supply_updated_at NULLS FIRST)
+  WHERE type <> 'ERC1155';
+
+COMMIT;
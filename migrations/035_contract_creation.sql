@@ -0,0 +1,107 @@
+-- =============================================================================
+-- Migration 035: Contract creation tracking
+-- Decoders derive the CREATE address for deployment transactions (to = NULL)
+-- and record creator / creation tx / height in api.evm_contracts
+-- bytecode_hash is keccak256 of the deployment (init) code
+-- =============================================================================
+
+BEGIN;
+
+ALTER TABLE api.evm_transactions ADD COLUMN IF NOT EXISTS contract_address TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_evm_tx_contract_address
+  ON api.evm_transactions(contract_address)
+  WHERE contract_address IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_evm_contracts_creator ON api.evm_contracts(creator);
+CREATE INDEX IF NOT EXISTS idx_evm_contracts_creation_height ON api.evm_contracts(creation_height DESC);
+
+-- =============================================================================
+-- RPC FUNCTIONS
+-- =============================================================================
+
+-- Contract details with creation info and token metadata (if a token)
+CREATE OR REPLACE FUNCTION api.get_contract(_address text)
+RETURNS jsonb
+LANGUAGE sql STABLE
+AS $$
+  SELECT jsonb_build_object(
+    'address', c.address,
+    'creator', c.creator,
+    'creation_tx', c.creation_tx,
+    'creation_evm_hash', ev.hash,
+    'creation_height', c.creation_height,
+    'creation_time', t.timestamp,
+    'bytecode_hash', c.bytecode_hash,
+    'is_verified', c.is_verified,
+    'name', c.name,
+    'compiler_version', c.compiler_version,
+    'has_abi', c.abi IS NOT NULL,
+    'token', CASE WHEN tok.address IS NOT NULL THEN jsonb_build_object(
+      'type', tok.type,
+      'name', tok.name,
+      'symbol', tok.symbol,
+      'decimals', tok.decimals,
+      'total_supply', tok.total_supply::text
+    ) END
+  )
+  FROM api.evm_contracts c
+  LEFT JOIN api.transactions_main t ON t.id = c.creation_tx
+  LEFT JOIN api.evm_transactions ev ON ev.tx_id = c.creation_tx
+  LEFT JOIN api.evm_tokens tok ON tok.address = c.address
+  WHERE c.address = lower(_address);
+$$;
+
+-- Contracts deployed by an address, newest first
+CREATE OR REPLACE FUNCTION api.get_contracts_by_creator(
+  _creator text,
+  _limit int DEFAULT 50,
+  _offset int DEFAULT 0
+)
+RETURNS jsonb
+LANGUAGE sql STABLE
+AS $$
+  WITH contracts AS (
+    SELECT c.*
+    FROM api.evm_contracts c
+    WHERE c.creator = lower(_creator)
+  ),
+  paginated AS (
+    SELECT * FROM contracts
+    ORDER BY creation_height DESC NULLS LAST, address
+    LIMIT _limit OFFSET _offset
+  ),
+  total AS (
+    SELECT COUNT(*) AS count FROM contracts
+  )
+  SELECT jsonb_build_object(
+    'data', COALESCE(jsonb_agg(
+      jsonb_build_object(
+        'address', p.address,
+        'creator', p.creator,
+        'creation_tx', p.creation_tx,
+        'creation_height', p.creation_height,
+        'bytecode_hash', p.bytecode_hash,
+        'is_verified', p.is_verified,
+        'name', p.name
+      ) ORDER BY p.creation_height DESC NULLS LAST, p.address
+    ), '[]'::jsonb),
+    'pagination', jsonb_build_object(
+      'total', (SELECT count FROM total),
+      'limit', _limit,
+      'offset', _offset,
+      'has_next', _offset + _limit < (SELECT count FROM total),
+      'has_prev', _offset > 0
+    )
+  )
+  FROM paginated p;
+$$;
+
+-- =============================================================================
+-- GRANT PERMISSIONS
+-- =============================================================================
+
+GRANT EXECUTE ON FUNCTION api.get_contract(text) TO web_anon;
+GRANT EXECUTE ON FUNCTION api.get_contracts_by_creator(text, int, int) TO web_anon;
+
+COMMIT;
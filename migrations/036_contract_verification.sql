@@ -0,0 +1,205 @@
+-- =============================================================================
+-- Migration 036: Contract source verification
+-- Requests are submitted via RPC, compiled by verify-contracts-daemon against
+-- a local solc build and compared to the deployed runtime bytecode
+-- On success the ABI/source are stored in api.evm_contracts
+-- =============================================================================
+
+BEGIN;
+
+-- Runtime bytecode as returned by eth_getCode, cached by the verifier
+ALTER TABLE api.evm_contracts ADD COLUMN IF NOT EXISTS deployed_bytecode TEXT;
+ALTER TABLE api.evm_contracts ADD COLUMN IF NOT EXISTS verified_at TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS api.contract_verifications (
+  id BIGSERIAL PRIMARY KEY,
+  address TEXT NOT NULL,
+  compiler_version TEXT NOT NULL,
+  -- Fully qualified name, e.g. 'contracts/Token.sol:Token'
+  contract_name TEXT NOT NULL,
+  -- solc standard-JSON input
+  input JSONB NOT NULL,
+  input_hash TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'compiling', 'verified', 'failed')),
+  -- 'full' when metadata hash matches too, 'partial' when only code matches
+  match_type TEXT CHECK (match_type IN ('full', 'partial')),
+  error TEXT,
+  submitted_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_contract_verifications_address ON api.contract_verifications(address, submitted_at DESC);
+CREATE INDEX IF NOT EXISTS idx_contract_verifications_pending ON api.contract_verifications(submitted_at) WHERE status = 'pending';
+
+-- =============================================================================
+-- SUBMISSION
+-- =============================================================================
+
+-- Queue a verification request and wake the verifier
+-- Accepts either a full standard-JSON input or a sources map
+-- ({"path.sol": "source"}) plus optional compiler settings
+-- Resubmitting identical input while a request is open returns that request
+CREATE OR REPLACE FUNCTION api.submit_contract_verification(
+  _address text,
+  _compiler_version text,
+  _contract_name text,
+  _standard_json jsonb DEFAULT NULL,
+  _sources jsonb DEFAULT NULL,
+  _settings jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = api, pg_temp
+AS $$
+DECLARE
+  addr text := lower(_address);
+  solc_input jsonb;
+  hash text;
+  request_id bigint;
+BEGIN
+  IF addr !~ '^0x[0-9a-f]{40}$' THEN
+    RAISE EXCEPTION 'invalid contract address: %', _address USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF _compiler_version !~ '^v?[0-9]+\.[0-9]+\.[0-9]+(\+commit\.[0-9a-f]{8})?$' THEN
+    RAISE EXCEPTION 'invalid compiler version: %', _compiler_version USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF _contract_name IS NULL OR _contract_name !~ '^[^:]+:[A-Za-z_$][A-Za-z0-9_$]*$' THEN
+    RAISE EXCEPTION 'contract name must be fully qualified (path:Name)' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF _standard_json IS NOT NULL THEN
+    solc_input := _standard_json;
+  ELSIF _sources IS NOT NULL AND jsonb_typeof(_sources) = 'object' THEN
+    solc_input := jsonb_build_object(
+      'language', 'Solidity',
+      'sources', (
+        SELECT jsonb_object_agg(path, jsonb_build_object('content', content))
+        FROM jsonb_each_text(_sources) AS s(path, content)
+      ),
+      'settings', COALESCE(_settings, '{}'::jsonb)
+    );
+  ELSE
+    RAISE EXCEPTION 'either _standard_json or _sources is required' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF solc_input->>'language' IS DISTINCT FROM 'Solidity' OR jsonb_typeof(solc_input->'sources') <> 'object' THEN
+    RAISE EXCEPTION 'input must be Solidity standard-JSON with a sources object' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF NOT (solc_input->'sources' ? split_part(_contract_name, ':', 1)) THEN
+    RAISE EXCEPTION 'source file % not found in input', split_part(_contract_name, ':', 1) USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF octet_length(solc_input::text) > 5 * 1024 * 1024 THEN
+    RAISE EXCEPTION 'input exceeds 5 MB' USING ERRCODE = 'program_limit_exceeded';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM api.evm_contracts WHERE address = addr AND is_verified) THEN
+    RAISE EXCEPTION 'contract % is already verified', addr USING ERRCODE = 'unique_violation';
+  END IF;
+
+  hash := md5(_compiler_version || _contract_name || solc_input::text);
+
+  SELECT id INTO request_id
+  FROM api.contract_verifications
+  WHERE address = addr
+    AND input_hash = hash
+    AND status IN ('pending', 'compiling');
+
+  IF request_id IS NULL THEN
+    IF (SELECT COUNT(*) FROM api.contract_verifications
+        WHERE address = addr AND status IN ('pending', 'compiling')) >= 5 THEN
+      RAISE EXCEPTION 'too many open verification requests for %', addr USING ERRCODE = 'program_limit_exceeded';
+    END IF;
+
+    INSERT INTO api.contract_verifications (address, compiler_version, contract_name, input, input_hash)
+    VALUES (addr, _compiler_version, _contract_name, solc_input, hash)
+    RETURNING id INTO request_id;
+
+    PERFORM pg_notify('contract_verification', request_id::text);
+  END IF;
+
+  RETURN api.get_contract_verification(request_id);
+END;
+$$;
+
+-- =============================================================================
+-- STATUS
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION api.get_contract_verification(_id bigint)
+RETURNS jsonb
+LANGUAGE sql STABLE
+AS $$
+  SELECT jsonb_build_object(
+    'id', v.id,
+    'address', v.address,
+    'compiler_version', v.compiler_version,
+    'contract_name', v.contract_name,
+    'status', v.status,
+    'match_type', v.match_type,
+    'error', v.error,
+    'submitted_at', v.submitted_at,
+    'started_at', v.started_at,
+    'completed_at', v.completed_at
+  )
+  FROM api.contract_verifications v
+  WHERE v.id = _id;
+$$;
+
+-- Verification attempts for a contract, newest first
+CREATE OR REPLACE FUNCTION api.get_contract_verifications(
+  _address text,
+  _limit int DEFAULT 20
+)
+RETURNS jsonb
+LANGUAGE sql STABLE
+AS $$
+  SELECT COALESCE(jsonb_agg(api.get_contract_verification(v.id) ORDER BY v.submitted_at DESC), '[]'::jsonb)
+  FROM (
+    SELECT id, submitted_at
+    FROM api.contract_verifications
+    WHERE address = lower(_address)
+    ORDER BY submitted_at DESC
+    LIMIT _limit
+  ) v;
+$$;
+
+-- Verified source and ABI for a contract
+CREATE OR REPLACE FUNCTION api.get_contract_source(_address text)
+RETURNS jsonb
+LANGUAGE sql STABLE
+AS $$
+  SELECT jsonb_build_object(
+    'address', c.address,
+    'name', c.name,
+    'compiler_version', c.compiler_version,
+    'abi', c.abi,
+    -- source_code holds a JSON object of path -> source for verified contracts
+    'sources', c.source_code::jsonb,
+    'match_type', c.metadata->'verification'->>'match_type',
+    'settings', c.metadata->'verification'->'settings',
+    'verified_at', c.verified_at
+  )
+  FROM api.evm_contracts c
+  WHERE c.address = lower(_address)
+    AND c.is_verified;
+$$;
+
+-- =============================================================================
+-- GRANT PERMISSIONS
+-- =============================================================================
+
+REVOKE EXECUTE ON FUNCTION api.submit_contract_verification(text, text, text, jsonb, jsonb, jsonb) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION api.submit_contract_verification(text, text, text, jsonb, jsonb, jsonb) TO web_anon;
+GRANT SELECT ON api.contract_verifications TO web_anon;
+GRANT EXECUTE ON FUNCTION api.get_contract_verification(bigint) TO web_anon;
+GRANT EXECUTE ON FUNCTION api.get_contract_verifications(text, int) TO web_anon;
+GRANT EXECUTE ON FUNCTION api.get_contract_source(text) TO web_anon;
+
+COMMIT;
@@ -0,0 +1,179 @@
+-- =============================================================================
+-- Migration 037: EVM decode failure ledger
+-- Replaces the status -1 / decode_failed_<id> placeholder rows with a retry
+-- queue: failed transactions back off exponentially and are dead-lettered
+-- after a configurable number of attempts
+-- =============================================================================
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS api.evm_decode_failures (
+  tx_id TEXT PRIMARY KEY REFERENCES api.transactions_main(id) ON DELETE CASCADE,
+  error TEXT NOT NULL,
+  attempts INT NOT NULL DEFAULT 1,
+  decoder_version INT,
+  -- 'retrying' until attempts reach the limit, then 'dead'
+  status TEXT NOT NULL DEFAULT 'retrying' CHECK (status IN ('retrying', 'dead')),
+  first_failed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_failed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  next_retry_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_evm_decode_failures_status ON api.evm_decode_failures(status, last_failed_at DESC);
+
+-- Move legacy placeholders into the ledger so they are retried
+INSERT INTO api.evm_decode_failures (tx_id, error, attempts, status, first_failed_at, last_failed_at, next_retry_at)
+SELECT tx_id, 'legacy decode_failed placeholder', 1, 'retrying', decoded_at, decoded_at, NOW()
+FROM api.evm_transactions
+WHERE status = -1 AND hash LIKE 'decode\_failed\_%'
+ON CONFLICT (tx_id) DO NOTHING;
+
+DELETE FROM api.evm_transactions
+WHERE status = -1 AND hash LIKE 'decode\_failed\_%';
+
+-- Pending queue skips transactions that are backing off or dead-lettered
+CREATE OR REPLACE VIEW api.evm_pending_decode AS
+SELECT
+  t.id AS tx_id,
+  t.height,
+  t.timestamp,
+  m.data->>'raw' AS raw_bytes,
+  MAX(CASE WHEN e.attr_key = 'ethereumTxHash' THEN e.attr_value END) AS ethereum_tx_hash,
+  MAX(CASE WHEN e.attr_key = 'txGasUsed' THEN e.attr_value::bigint END) AS gas_used
+FROM api.transactions_main t
+JOIN api.messages_main mm ON t.id = mm.id
+JOIN api.messages_raw m ON mm.id = m.id AND mm.message_index = m.message_index
+JOIN api.events_main e ON t.id = e.id AND e.event_type = 'ethereum_tx'
+WHERE mm.type LIKE '%MsgEthereumTx%'
+  AND NOT EXISTS (SELECT 1 FROM api.evm_transactions ev WHERE ev.tx_id = t.id)
+  AND NOT EXISTS (
+    SELECT 1 FROM api.evm_decode_failures f
+    WHERE f.tx_id = t.id
+      AND (f.status = 'dead' OR f.next_retry_at > NOW())
+  )
+GROUP BY t.id, t.height, t.timestamp, m.data->>'raw';
+
+-- =============================================================================
+-- DECODER FUNCTIONS
+-- =============================================================================
+
+-- Record a failed decode attempt (called by the decoders)
+-- Backoff doubles per attempt from _base_delay_secs, capped at one day
+CREATE OR REPLACE FUNCTION api.record_evm_decode_failure(
+  _tx_id text,
+  _error text,
+  _decoder_version int DEFAULT NULL,
+  _max_attempts int DEFAULT 5,
+  _base_delay_secs int DEFAULT 60
+)
+RETURNS api.evm_decode_failures
+LANGUAGE sql
+AS $$
+  INSERT INTO api.evm_decode_failures AS f (tx_id, error, attempts, decoder_version, status, next_retry_at)
+  VALUES (
+    _tx_id,
+    _error,
+    1,
+    _decoder_version,
+    CASE WHEN _max_attempts <= 1 THEN 'dead' ELSE 'retrying' END,
+    CASE WHEN _max_attempts <= 1 THEN NULL ELSE NOW() + make_interval(secs => _base_delay_secs) END
+  )
+  ON CONFLICT (tx_id) DO UPDATE SET
+    error = EXCLUDED.error,
+    attempts = f.attempts + 1,
+    decoder_version = EXCLUDED.decoder_version,
+    last_failed_at = NOW(),
+    status = CASE WHEN f.attempts + 1 >= _max_attempts THEN 'dead' ELSE 'retrying' END,
+    next_retry_at = CASE
+      WHEN f.attempts + 1 >= _max_attempts THEN NULL
+      ELSE NOW() + LEAST(make_interval(secs => _base_delay_secs * power(2, f.attempts)), INTERVAL '1 day')
+    END
+  RETURNING f.*;
+$$;
+
+-- =============================================================================
+-- OPERATOR FUNCTIONS
+-- =============================================================================
+
+-- List decode failures, optionally filtered by status
+CREATE OR REPLACE FUNCTION api.get_evm_decode_failures(
+  _status text DEFAULT NULL,
+  _limit int DEFAULT 50,
+  _offset int DEFAULT 0
+)
+RETURNS jsonb
+LANGUAGE sql STABLE
+AS $$
+  WITH failures AS (
+    SELECT f.*
+    FROM api.evm_decode_failures f
+    WHERE _status IS NULL OR f.status = _status
+  ),
+  paginated AS (
+    SELECT * FROM failures
+    ORDER BY last_failed_at DESC, tx_id
+    LIMIT _limit OFFSET _offset
+  ),
+  total AS (
+    SELECT COUNT(*) AS count FROM failures
+  )
+  SELECT jsonb_build_object(
+    'data', COALESCE(jsonb_agg(
+      jsonb_build_object(
+        'tx_id', p.tx_id,
+        'height', t.height,
+        'error', p.error,
+        'attempts', p.attempts,
+        'decoder_version', p.decoder_version,
+        'status', p.status,
+        'first_failed_at', p.first_failed_at,
+        'last_failed_at', p.last_failed_at,
+        'next_retry_at', p.next_retry_at
+      ) ORDER BY p.last_failed_at DESC, p.tx_id
+    ), '[]'::jsonb),
+    'pagination', jsonb_build_object(
+      'total', (SELECT count FROM total),
+      'limit', _limit,
+      'offset', _offset,
+      'has_next', _offset + _limit < (SELECT count FROM total),
+      'has_prev', _offset > 0
+    )
+  )
+  FROM paginated p
+  LEFT JOIN api.transactions_main t ON t.id = p.tx_id;
+$$;
+
+-- Make failures eligible for decoding again (admin only)
+-- Requeues the given tx ids, or every failure with _status when none are given
+-- Attempt counters restart so requeued rows get the full retry budget
+CREATE OR REPLACE FUNCTION api.requeue_evm_decode_failures(
+  _tx_ids text[] DEFAULT NULL,
+  _status text DEFAULT 'dead'
+)
+RETURNS int
+LANGUAGE sql
+AS $$
+  WITH requeued AS (
+    UPDATE api.evm_decode_failures
+    SET status = 'retrying', attempts = 0, next_retry_at = NOW()
+    WHERE CASE
+      WHEN _tx_ids IS NOT NULL THEN tx_id = ANY(_tx_ids)
+      ELSE _status IS NULL OR status = _status
+    END
+    RETURNING tx_id
+  )
+  SELECT COUNT(*)::int FROM requeued;
+$$;
+
+-- =============================================================================
+-- GRANT PERMISSIONS
+-- =============================================================================
+
+GRANT SELECT ON api.evm_decode_failures TO web_anon;
+GRANT EXECUTE ON FUNCTION api.get_evm_decode_failures(text, int, int) TO web_anon;
+
+REVOKE EXECUTE ON FUNCTION api.record_evm_decode_failure(text, text, int, int, int) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION api.requeue_evm_decode_failures(text[], text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION api.requeue_evm_decode_failures(text[], text) TO analytics_admin;
+
+COMMIT;
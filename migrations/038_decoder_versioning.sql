@@ -0,0 +1,55 @@
+-- =============================================================================
+-- Migration 038: Decoder versioning
+-- Stamps derived EVM rows with the decoder version that produced them so
+-- scripts/reprocess-evm.ts can re-decode stale history
+-- Rows decoded before versioning have decoder_version NULL (treated as 0)
+-- =============================================================================
+
+BEGIN;
+
+ALTER TABLE api.evm_transactions ADD COLUMN IF NOT EXISTS decoder_version INT;
+ALTER TABLE api.evm_logs ADD COLUMN IF NOT EXISTS decoder_version INT;
+ALTER TABLE api.evm_token_transfers ADD COLUMN IF NOT EXISTS decoder_version INT;
+
+CREATE INDEX IF NOT EXISTS idx_evm_tx_decoder_version ON api.evm_transactions(COALESCE(decoder_version, 0));
+
+-- Raw input for every EVM transaction, decoded or not
+-- Used by the reprocess command; the pending queue is a filtered view of it
+CREATE OR REPLACE VIEW api.evm_decode_source AS
+SELECT
+  t.id AS tx_id,
+  t.height,
+  t.timestamp,
+  m.data->>'raw' AS raw_bytes,
+  MAX(CASE WHEN e.attr_key = 'ethereumTxHash' THEN e.attr_value END) AS ethereum_tx_hash,
+  MAX(CASE WHEN e.attr_key = 'txGasUsed' THEN e.attr_value::bigint END) AS gas_used
+FROM api.transactions_main t
+JOIN api.messages_main mm ON t.id = mm.id
+JOIN api.messages_raw m ON mm.id = m.id AND mm.message_index = m.message_index
+JOIN api.events_main e ON t.id = e.id AND e.event_type = 'ethereum_tx'
+WHERE mm.type LIKE '%MsgEthereumTx%'
+GROUP BY t.id, t.height, t.timestamp, m.data->>'raw';
+
+CREATE OR REPLACE VIEW api.evm_pending_decode AS
+SELECT s.*
+FROM api.evm_decode_source s
+WHERE NOT EXISTS (SELECT 1 FROM api.evm_transactions ev WHERE ev.tx_id = s.tx_id)
+  AND NOT EXISTS (
+    SELECT 1 FROM api.evm_decode_failures f
+    WHERE f.tx_id = s.tx_id
+      AND (f.status = 'dead' OR f.next_retry_at > NOW())
+  );
+
+-- Decoded row counts per decoder version
+CREATE OR REPLACE VIEW api.evm_decoder_versions AS
+SELECT
+  COALESCE(decoder_version, 0) AS decoder_version,
+  COUNT(*) AS transactions,
+  MIN(decoded_at) AS first_decoded_at,
+  MAX(decoded_at) AS last_decoded_at
+FROM api.evm_transactions
+GROUP BY COALESCE(decoder_version, 0);
+
+GRANT SELECT ON api.evm_decoder_versions TO web_anon;
+
+COMMIT;
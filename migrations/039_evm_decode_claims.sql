@@ -0,0 +1,78 @@
+-- =============================================================================
+-- Migration 039: EVM decode claims
+-- Lease-based work claiming so several decode workers (and the priority
+-- decoder) can drain api.evm_pending_decode without decoding the same rows
+-- A claim expires after its lease, so rows held by a crashed worker are
+-- picked up again
+-- =============================================================================
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS api.evm_decode_claims (
+  tx_id TEXT PRIMARY KEY REFERENCES api.transactions_main(id) ON DELETE CASCADE,
+  worker_id TEXT NOT NULL,
+  claimed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  lease_expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_evm_decode_claims_worker ON api.evm_decode_claims(worker_id);
+
+-- =============================================================================
+-- DECODER FUNCTIONS
+-- =============================================================================
+
+-- Claim up to _limit pending transactions for _worker (called by the decoders)
+-- Rows with a live lease are skipped; expired leases are taken over
+-- _tx_ids restricts the claim to specific transactions (priority decodes)
+-- Must run in its own short transaction so other workers see the claims
+CREATE OR REPLACE FUNCTION api.claim_evm_decode_batch(
+  _worker text,
+  _limit int DEFAULT 100,
+  _lease_secs int DEFAULT 300,
+  _tx_ids text[] DEFAULT NULL
+)
+RETURNS TABLE (
+  tx_id text,
+  height bigint,
+  raw_bytes text,
+  ethereum_tx_hash text,
+  gas_used bigint
+)
+LANGUAGE sql
+AS $$
+  WITH candidates AS (
+    SELECT p.*
+    FROM api.evm_pending_decode p
+    WHERE (_tx_ids IS NULL OR p.tx_id = ANY(_tx_ids))
+      AND NOT EXISTS (
+        SELECT 1 FROM api.evm_decode_claims c
+        WHERE c.tx_id = p.tx_id AND c.lease_expires_at > NOW()
+      )
+    LIMIT _limit
+  ),
+  claimed AS (
+    -- A concurrent claimer blocks on the conflicting row and skips it once
+    -- the winner commits, since the lease is no longer expired
+    INSERT INTO api.evm_decode_claims AS c (tx_id, worker_id, claimed_at, lease_expires_at)
+    SELECT tx_id, _worker, NOW(), NOW() + make_interval(secs => _lease_secs)
+    FROM candidates
+    ON CONFLICT (tx_id) DO UPDATE SET
+      worker_id = EXCLUDED.worker_id,
+      claimed_at = EXCLUDED.claimed_at,
+      lease_expires_at = EXCLUDED.lease_expires_at
+    WHERE c.lease_expires_at <= NOW()
+    RETURNING c.tx_id
+  )
+  SELECT ca.tx_id, ca.height, ca.raw_bytes, ca.ethereum_tx_hash, ca.gas_used
+  FROM candidates ca
+  JOIN claimed cl ON cl.tx_id = ca.tx_id
+  ORDER BY ca.height, ca.tx_id;
+$$;
+
+-- =============================================================================
+-- GRANT PERMISSIONS
+-- =============================================================================
+
+REVOKE EXECUTE ON FUNCTION api.claim_evm_decode_batch(text, int, int, text[]) FROM PUBLIC;
+
+COMMIT;
@@ -0,0 +1,146 @@
+-- =============================================================================
+-- Migration 040: EVM revert reasons
+-- Failed EVM transactions keep the VM error and the revert data returned in
+-- MsgEthereumTxResponse.ret, decoded as Error(string), Panic(uint256) or a
+-- custom error from a known ABI (decoder version 2)
+-- Older failed transactions: bun run reprocess:evm --below-version 2
+-- =============================================================================
+
+BEGIN;
+
+ALTER TABLE api.evm_transactions ADD COLUMN IF NOT EXISTS vm_error TEXT;
+ALTER TABLE api.evm_transactions ADD COLUMN IF NOT EXISTS revert_data TEXT;
+-- Human-readable reason, e.g. 'Ownable: caller is not the owner' or 'Panic: division or modulo by zero (0x12)'
+ALTER TABLE api.evm_transactions ADD COLUMN IF NOT EXISTS revert_reason TEXT;
+-- {type: error|panic|custom, name, signature, args, panic_code?}
+ALTER TABLE api.evm_transactions ADD COLUMN IF NOT EXISTS revert_error JSONB;
+
+-- =============================================================================
+-- TRANSACTION DETAIL
+-- Accepts Cosmos tx hash (either case) or EVM tx hash (0x-prefixed)
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION api.get_transaction_detail(_hash text)
+RETURNS jsonb
+LANGUAGE plpgsql STABLE
+AS $$
+DECLARE
+  result jsonb;
+  resolved_hash text;
+BEGIN
+  -- Resolve EVM hash to Cosmos tx_id if needed, otherwise normalize case
+  SELECT ev.tx_id INTO resolved_hash
+  FROM api.evm_transactions ev
+  WHERE ev.hash = lower(_hash);
+
+  IF resolved_hash IS NULL THEN
+    SELECT id INTO resolved_hash
+    FROM api.transactions_main
+    WHERE id = upper(_hash) OR id = lower(_hash)
+    LIMIT 1;
+  END IF;
+
+  IF resolved_hash IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM api.maybe_priority_decode(resolved_hash);
+
+  SELECT jsonb_build_object(
+    'id', t.id,
+    'fee', t.fee,
+    'memo', t.memo,
+    'error', t.error,
+    'height', t.height,
+    'timestamp', t.timestamp,
+    'proposal_ids', t.proposal_ids,
+    'messages', COALESCE(msg.messages, '[]'::jsonb),
+    'events', COALESCE(evt.events, '[]'::jsonb),
+    'evm_data', evm.evm,
+    'evm_logs', COALESCE(logs.logs, '[]'::jsonb),
+    'raw_data', r.data
+  ) INTO result
+  FROM api.transactions_main t
+  LEFT JOIN api.transactions_raw r ON t.id = r.id
+  LEFT JOIN LATERAL (
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'id', m.id,
+        'message_index', m.message_index,
+        'type', m.type,
+        'sender', m.sender,
+        'mentions', m.mentions,
+        'metadata', m.metadata,
+        'data', mr.data
+      ) ORDER BY m.message_index
+    ) AS messages
+    FROM api.messages_main m
+    LEFT JOIN api.messages_raw mr ON m.id = mr.id AND m.message_index = mr.message_index
+    WHERE m.id = resolved_hash
+  ) msg ON TRUE
+  LEFT JOIN LATERAL (
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'id', e.id,
+        'event_index', e.event_index,
+        'attr_index', e.attr_index,
+        'event_type', e.event_type,
+        'attr_key', e.attr_key,
+        'attr_value', e.attr_value,
+        'msg_index', e.msg_index
+      ) ORDER BY e.event_index, e.attr_index
+    ) AS events
+    FROM api.events_main e
+    WHERE e.id = resolved_hash
+  ) evt ON TRUE
+  LEFT JOIN LATERAL (
+    SELECT jsonb_build_object(
+      'hash', ev.hash,
+      'from', ev."from",
+      'to', ev."to",
+      'nonce', ev.nonce,
+      'gasLimit', ev.gas_limit::text,
+      'gasPrice', ev.gas_price::text,
+      'maxFeePerGas', ev.max_fee_per_gas::text,
+      'maxPriorityFeePerGas', ev.max_priority_fee_per_gas::text,
+      'value', ev.value::text,
+      'data', ev.data,
+      'type', ev.type,
+      'chainId', ev.chain_id::text,
+      'gasUsed', ev.gas_used,
+      'status', ev.status,
+      'functionName', ev.function_name,
+      'functionSignature', ev.function_signature,
+      'decodedArgs', ev.decoded_args,
+      'vmError', ev.vm_error,
+      'revertReason', ev.revert_reason,
+      'revertError', ev.revert_error,
+      'revertData', ev.revert_data
+    ) AS evm
+    FROM api.evm_transactions ev
+    WHERE ev.tx_id = resolved_hash
+  ) evm ON TRUE
+  LEFT JOIN LATERAL (
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'logIndex', l.log_index,
+        'address', l.address,
+        'topics', l.topics,
+        'data', l.data,
+        'eventName', l.event_name,
+        'eventSignature', l.event_signature,
+        'decodedArgs', l.decoded_args
+      ) ORDER BY l.log_index
+    ) AS logs
+    FROM api.evm_logs l
+    WHERE l.tx_id = resolved_hash
+  ) logs ON TRUE
+  WHERE t.id = resolved_hash;
+
+  RETURN result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION api.get_transaction_detail(text) TO web_anon;
+
+COMMIT;
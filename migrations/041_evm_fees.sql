@@ -0,0 +1,259 @@
+-- =============================================================================
+-- Migration 041: EIP-1559 fee accounting
+-- Effective gas price and fee paid per EVM transaction, a per-block base fee
+-- series and eth_feeHistory-style percentiles (decoder version 3)
+-- Base fees come from fee_market events or are derived from the Cosmos fee
+-- charged for dynamic-fee transactions; see scripts/lib/evm-fees.ts
+-- Dynamic-fee history: bun run reprocess:evm --below-version 3
+-- =============================================================================
+
+BEGIN;
+
+ALTER TABLE api.evm_transactions ADD COLUMN IF NOT EXISTS effective_gas_price NUMERIC;
+ALTER TABLE api.evm_transactions ADD COLUMN IF NOT EXISTS fee_paid NUMERIC;
+
+CREATE TABLE IF NOT EXISTS api.evm_block_fees (
+  height BIGINT PRIMARY KEY,
+  base_fee NUMERIC NOT NULL,
+  -- 'event' (fee_market base_fee) or 'derived' (from a dynamic-fee tx's Cosmos fee)
+  source TEXT NOT NULL CHECK (source IN ('event', 'derived')),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Legacy and access-list transactions always pay their gas price
+UPDATE api.evm_transactions
+SET effective_gas_price = gas_price,
+    fee_paid = gas_price * gas_used
+WHERE effective_gas_price IS NULL
+  AND type IN (0, 1);
+
+-- =============================================================================
+-- FEE HISTORY
+-- =============================================================================
+
+-- Base fee, gas used and gas-weighted priority fee percentiles for the
+-- _block_count blocks ending at _newest_block (default: latest block)
+-- Mirrors eth_feeHistory: for each percentile p, the reward is the priority
+-- fee of the first tx (sorted by priority fee) at which cumulative gas used
+-- reaches p% of the block's EVM gas. Rewards are null when the base fee of
+-- the block is unknown
+CREATE OR REPLACE FUNCTION api.get_evm_fee_history(
+  _block_count int DEFAULT 20,
+  _newest_block bigint DEFAULT NULL,
+  _percentiles numeric[] DEFAULT ARRAY[25, 50, 75]
+)
+RETURNS jsonb
+LANGUAGE sql STABLE
+AS $$
+  WITH bounds AS (
+    SELECT
+      COALESCE(_newest_block, (SELECT MAX(id) FROM api.blocks_raw)) AS newest,
+      LEAST(GREATEST(_block_count, 1), 1024) AS count
+  ),
+  blocks AS (
+    SELECT g.height, bf.base_fee, bf.source
+    FROM bounds b
+    CROSS JOIN LATERAL generate_series(GREATEST(b.newest - b.count + 1, 1), b.newest) AS g(height)
+    LEFT JOIN api.evm_block_fees bf ON bf.height = g.height
+  ),
+  txs AS (
+    SELECT
+      t.height,
+      COALESCE(ev.gas_used, 0) AS gas_used,
+      CASE WHEN b.base_fee IS NOT NULL AND ev.effective_gas_price IS NOT NULL
+        THEN GREATEST(ev.effective_gas_price - b.base_fee, 0)
+      END AS priority_fee
+    FROM blocks b
+    JOIN api.transactions_main t ON t.height = b.height
+    JOIN api.evm_transactions ev ON ev.tx_id = t.id
+  ),
+  ranked AS (
+    SELECT
+      height,
+      priority_fee,
+      SUM(gas_used) OVER (PARTITION BY height ORDER BY priority_fee ROWS UNBOUNDED PRECEDING) AS cumulative_gas,
+      SUM(gas_used) OVER (PARTITION BY height) AS total_gas
+    FROM txs
+    WHERE priority_fee IS NOT NULL
+  ),
+  usage AS (
+    SELECT height, SUM(gas_used) AS gas_used, COUNT(*) AS tx_count
+    FROM txs
+    GROUP BY height
+  ),
+  rewards AS (
+    SELECT
+      b.height,
+      jsonb_agg(
+        (
+          SELECT r.priority_fee::text
+          FROM ranked r
+          WHERE r.height = b.height
+            AND r.cumulative_gas >= p.pct / 100.0 * r.total_gas
+          ORDER BY r.cumulative_gas
+          LIMIT 1
+        ) ORDER BY p.ord
+      ) AS reward
+    FROM blocks b
+    CROSS JOIN unnest(_percentiles) WITH ORDINALITY AS p(pct, ord)
+    GROUP BY b.height
+  )
+  SELECT jsonb_build_object(
+    'oldest_block', MIN(b.height),
+    'newest_block', MAX(b.height),
+    'percentiles', to_jsonb(_percentiles),
+    'blocks', COALESCE(jsonb_agg(
+      jsonb_build_object(
+        'height', b.height,
+        'base_fee', b.base_fee::text,
+        'base_fee_source', b.source,
+        'gas_used', COALESCE(u.gas_used, 0),
+        'tx_count', COALESCE(u.tx_count, 0),
+        'reward', CASE WHEN b.base_fee IS NULL THEN NULL ELSE COALESCE(rw.reward, '[]'::jsonb) END
+      ) ORDER BY b.height
+    ), '[]'::jsonb)
+  )
+  FROM blocks b
+  LEFT JOIN usage u ON u.height = b.height
+  LEFT JOIN rewards rw ON rw.height = b.height;
+$$;
+
+-- =============================================================================
+-- TRANSACTION DETAIL
+-- Accepts Cosmos tx hash (either case) or EVM tx hash (0x-prefixed)
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION api.get_transaction_detail(_hash text)
+RETURNS jsonb
+LANGUAGE plpgsql STABLE
+AS $$
+DECLARE
+  result jsonb;
+  resolved_hash text;
+BEGIN
+  -- Resolve EVM hash to Cosmos tx_id if needed, otherwise normalize case
+  SELECT ev.tx_id INTO resolved_hash
+  FROM api.evm_transactions ev
+  WHERE ev.hash = lower(_hash);
+
+  IF resolved_hash IS NULL THEN
+    SELECT id INTO resolved_hash
+    FROM api.transactions_main
+    WHERE id = upper(_hash) OR id = lower(_hash)
+    LIMIT 1;
+  END IF;
+
+  IF resolved_hash IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM api.maybe_priority_decode(resolved_hash);
+
+  SELECT jsonb_build_object(
+    'id', t.id,
+    'fee', t.fee,
+    'memo', t.memo,
+    'error', t.error,
+    'height', t.height,
+    'timestamp', t.timestamp,
+    'proposal_ids', t.proposal_ids,
+    'messages', COALESCE(msg.messages, '[]'::jsonb),
+    'events', COALESCE(evt.events, '[]'::jsonb),
+    'evm_data', evm.evm,
+    'evm_logs', COALESCE(logs.logs, '[]'::jsonb),
+    'raw_data', r.data
+  ) INTO result
+  FROM api.transactions_main t
+  LEFT JOIN api.transactions_raw r ON t.id = r.id
+  LEFT JOIN LATERAL (
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'id', m.id,
+        'message_index', m.message_index,
+        'type', m.type,
+        'sender', m.sender,
+        'mentions', m.mentions,
+        'metadata', m.metadata,
+        'data', mr.data
+      ) ORDER BY m.message_index
+    ) AS messages
+    FROM api.messages_main m
+    LEFT JOIN api.messages_raw mr ON m.id = mr.id AND m.message_index = mr.message_index
+    WHERE m.id = resolved_hash
+  ) msg ON TRUE
+  LEFT JOIN LATERAL (
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'id', e.id,
+        'event_index', e.event_index,
+        'attr_index', e.attr_index,
+        'event_type', e.event_type,
+        'attr_key', e.attr_key,
+        'attr_value', e.attr_value,
+        'msg_index', e.msg_index
+      ) ORDER BY e.event_index, e.attr_index
+    ) AS events
+    FROM api.events_main e
+    WHERE e.id = resolved_hash
+  ) evt ON TRUE
+  LEFT JOIN LATERAL (
+    SELECT jsonb_build_object(
+      'hash', ev.hash,
+      'from', ev."from",
+      'to', ev."to",
+      'nonce', ev.nonce,
+      'gasLimit', ev.gas_limit::text,
+      'gasPrice', ev.gas_price::text,
+      'maxFeePerGas', ev.max_fee_per_gas::text,
+      'maxPriorityFeePerGas', ev.max_priority_fee_per_gas::text,
+      'value', ev.value::text,
+      'data', ev.data,
+      'type', ev.type,
+      'chainId', ev.chain_id::text,
+      'gasUsed', ev.gas_used,
+      'status', ev.status,
+      'functionName', ev.function_name,
+      'functionSignature', ev.function_signature,
+      'decodedArgs', ev.decoded_args,
+      'vmError', ev.vm_error,
+      'revertReason', ev.revert_reason,
+      'revertError', ev.revert_error,
+      'revertData', ev.revert_data,
+      'effectiveGasPrice', ev.effective_gas_price::text,
+      'feePaid', ev.fee_paid::text,
+      'baseFee', bf.base_fee::text
+    ) AS evm
+    FROM api.evm_transactions ev
+    LEFT JOIN api.evm_block_fees bf ON bf.height = t.height
+    WHERE ev.tx_id = resolved_hash
+  ) evm ON TRUE
+  LEFT JOIN LATERAL (
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'logIndex', l.log_index,
+        'address', l.address,
+        'topics', l.topics,
+        'data', l.data,
+        'eventName', l.event_name,
+        'eventSignature', l.event_signature,
+        'decodedArgs', l.decoded_args
+      ) ORDER BY l.log_index
+    ) AS logs
+    FROM api.evm_logs l
+    WHERE l.tx_id = resolved_hash
+  ) logs ON TRUE
+  WHERE t.id = resolved_hash;
+
+  RETURN result;
+END;
+$$;
+
+-- =============================================================================
+-- GRANT PERMISSIONS
+-- =============================================================================
+
+GRANT SELECT ON api.evm_block_fees TO web_anon;
+GRANT EXECUTE ON FUNCTION api.get_evm_fee_history(int, bigint, numeric[]) TO web_anon;
+GRANT EXECUTE ON FUNCTION api.get_transaction_detail(text) TO web_anon;
+
+COMMIT;
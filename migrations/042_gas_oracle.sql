@@ -0,0 +1,129 @@
+-- =============================================================================
+-- Migration 042: Gas price oracle
+-- Slow / standard / fast gas price suggestions over a recent block window,
+-- for Cosmos fees (per denom, per unit of gas) and EVM transactions
+-- (priority fee, max fee and legacy gas price)
+-- =============================================================================
+
+BEGIN;
+
+-- =============================================================================
+-- GAS ORACLE
+-- =============================================================================
+
+-- Suggestions are the 25th / 50th / 75th percentiles of the prices paid by
+-- transactions in the last _block_count blocks (capped at 10000)
+-- Cosmos: amount / gasLimit for each fee coin of non-EVM transactions;
+-- zero-fee transactions are left out so they do not drag suggestions to 0
+-- EVM: priority fee is effective gas price minus the block base fee (only
+-- for blocks with a known base fee); max fee follows the common wallet rule
+-- of 2 * latest base fee + priority fee
+CREATE OR REPLACE FUNCTION api.get_gas_oracle(_block_count int DEFAULT 200)
+RETURNS jsonb
+LANGUAGE sql STABLE
+AS $$
+  WITH bounds AS (
+    SELECT
+      MAX(id) AS newest,
+      GREATEST(MAX(id) - LEAST(GREATEST(_block_count, 1), 10000) + 1, 1) AS oldest
+    FROM api.blocks_raw
+  ),
+  cosmos_prices AS (
+    SELECT
+      coin->>'denom' AS denom,
+      (coin->>'amount')::numeric / (t.fee->>'gasLimit')::numeric AS gas_price
+    FROM bounds b
+    JOIN api.transactions_main t ON t.height BETWEEN b.oldest AND b.newest
+    CROSS JOIN LATERAL jsonb_array_elements(t.fee->'amount') AS coin
+    WHERE jsonb_typeof(t.fee->'amount') = 'array'
+      AND (t.fee->>'gasLimit')::numeric > 0
+      AND (coin->>'amount')::numeric > 0
+      AND NOT EXISTS (SELECT 1 FROM api.evm_transactions ev WHERE ev.tx_id = t.id)
+  ),
+  cosmos AS (
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'denom', denom,
+        'sample_size', sample_size,
+        'slow', trim_scale(prices[1])::text,
+        'standard', trim_scale(prices[2])::text,
+        'fast', trim_scale(prices[3])::text
+      ) ORDER BY sample_size DESC, denom
+    ) AS suggestions
+    FROM (
+      SELECT
+        denom,
+        COUNT(*) AS sample_size,
+        percentile_disc(ARRAY[0.25, 0.50, 0.75]) WITHIN GROUP (ORDER BY gas_price) AS prices
+      FROM cosmos_prices
+      GROUP BY denom
+    ) p
+  ),
+  latest_base_fee AS (
+    SELECT bf.height, bf.base_fee, bf.source
+    FROM bounds b
+    JOIN api.evm_block_fees bf ON bf.height BETWEEN b.oldest AND b.newest
+    ORDER BY bf.height DESC
+    LIMIT 1
+  ),
+  evm_prices AS (
+    SELECT
+      ev.effective_gas_price AS gas_price,
+      CASE WHEN bf.base_fee IS NOT NULL
+        THEN GREATEST(ev.effective_gas_price - bf.base_fee, 0)
+      END AS priority_fee
+    FROM bounds b
+    JOIN api.transactions_main t ON t.height BETWEEN b.oldest AND b.newest
+    JOIN api.evm_transactions ev ON ev.tx_id = t.id
+    LEFT JOIN api.evm_block_fees bf ON bf.height = t.height
+    WHERE ev.effective_gas_price IS NOT NULL
+  ),
+  evm AS (
+    SELECT
+      COUNT(*) AS sample_size,
+      percentile_disc(ARRAY[0.25, 0.50, 0.75]) WITHIN GROUP (ORDER BY gas_price) AS gas_price,
+      percentile_disc(ARRAY[0.25, 0.50, 0.75]) WITHIN GROUP (ORDER BY priority_fee) AS priority_fee
+    FROM evm_prices
+  ),
+  evm_tiers AS (
+    SELECT
+      tier.name,
+      tier.ord,
+      e.gas_price[tier.ord] AS gas_price,
+      e.priority_fee[tier.ord] AS priority_fee,
+      lbf.base_fee
+    FROM evm e
+    LEFT JOIN latest_base_fee lbf ON TRUE
+    CROSS JOIN unnest(ARRAY['slow', 'standard', 'fast']) WITH ORDINALITY AS tier(name, ord)
+  )
+  SELECT jsonb_build_object(
+    'from_height', b.oldest,
+    'to_height', b.newest,
+    'cosmos', COALESCE((SELECT suggestions FROM cosmos), '[]'::jsonb),
+    'evm', (
+      SELECT jsonb_build_object(
+        'sample_size', (SELECT sample_size FROM evm),
+        'base_fee', (SELECT base_fee::text FROM latest_base_fee),
+        'base_fee_height', (SELECT height FROM latest_base_fee),
+        'base_fee_source', (SELECT source FROM latest_base_fee)
+      ) || COALESCE(jsonb_object_agg(
+        et.name,
+        jsonb_build_object(
+          'gas_price', et.gas_price::text,
+          'max_priority_fee_per_gas', et.priority_fee::text,
+          'max_fee_per_gas', (2 * et.base_fee + et.priority_fee)::text
+        )
+      ), '{}'::jsonb)
+      FROM evm_tiers et
+    )
+  )
+  FROM bounds b;
+$$;
+
+-- =============================================================================
+-- GRANT PERMISSIONS
+-- =============================================================================
+
+GRANT EXECUTE ON FUNCTION api.get_gas_oracle(int) TO web_anon;
+
+COMMIT;
@@ -0,0 +1,140 @@
+-- =============================================================================
+-- Migration 043: Validator set
+-- api.validators is filled by chain-params-daemon from
+-- cosmos.staking.v1beta1.Query/Validators; adds the consensus key columns
+-- needed to match block proposers and signatures, list / detail RPCs, and
+-- restores chain_stats.active_validators (zeroed in 021)
+-- =============================================================================
+
+BEGIN;
+
+ALTER TABLE api.validators ADD COLUMN IF NOT EXISTS consensus_pubkey JSONB;
+-- Uppercase hex of the 20-byte consensus address, as in block proposer_address
+ALTER TABLE api.validators ADD COLUMN IF NOT EXISTS consensus_address_hex TEXT;
+ALTER TABLE api.validators ADD COLUMN IF NOT EXISTS security_contact TEXT;
+ALTER TABLE api.validators ADD COLUMN IF NOT EXISTS unbonding_height BIGINT;
+ALTER TABLE api.validators ADD COLUMN IF NOT EXISTS unbonding_time TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_validator_consensus_address ON api.validators(consensus_address);
+CREATE INDEX IF NOT EXISTS idx_validator_consensus_hex ON api.validators(consensus_address_hex);
+
+CREATE OR REPLACE VIEW api.chain_stats AS
+SELECT
+  (SELECT MAX(id) FROM api.blocks_raw) AS latest_block,
+  (SELECT COUNT(*) FROM api.transactions_main) AS total_transactions,
+  (SELECT COUNT(DISTINCT sender) FROM api.messages_main WHERE sender IS NOT NULL) AS unique_addresses,
+  0::bigint AS evm_transactions,
+  (SELECT COUNT(*) FROM api.validators WHERE status = 'BOND_STATUS_BONDED') AS active_validators;
+
+-- =============================================================================
+-- RPC FUNCTIONS
+-- =============================================================================
+
+-- Validator row as returned by the RPCs; voting power share is relative to
+-- all bonded tokens and null for validators outside the active set
+CREATE OR REPLACE FUNCTION api.validator_json(v api.validators, _bonded_tokens numeric)
+RETURNS jsonb
+LANGUAGE sql IMMUTABLE
+AS $$
+  SELECT jsonb_build_object(
+    'operator_address', v.operator_address,
+    'consensus_address', v.consensus_address,
+    'consensus_address_hex', v.consensus_address_hex,
+    'consensus_pubkey', v.consensus_pubkey,
+    'moniker', v.moniker,
+    'identity', v.identity,
+    'website', v.website,
+    'security_contact', v.security_contact,
+    'details', v.details,
+    'commission_rate', v.commission_rate::text,
+    'commission_max_rate', v.commission_max_rate::text,
+    'commission_max_change_rate', v.commission_max_change_rate::text,
+    'min_self_delegation', v.min_self_delegation::text,
+    'tokens', v.tokens::text,
+    'delegator_shares', v.delegator_shares::text,
+    'voting_power_share', CASE
+      WHEN v.status = 'BOND_STATUS_BONDED' AND _bonded_tokens > 0
+      THEN round(v.tokens / _bonded_tokens, 8)
+    END,
+    'status', v.status,
+    'jailed', v.jailed,
+    'unbonding_height', v.unbonding_height,
+    'unbonding_time', v.unbonding_time,
+    'updated_at', v.updated_at
+  );
+$$;
+
+-- Validators by voting power, optionally filtered by status and jailed flag
+-- _status accepts the full enum (BOND_STATUS_BONDED) or its short form (bonded)
+CREATE OR REPLACE FUNCTION api.get_validators(
+  _limit int DEFAULT 100,
+  _offset int DEFAULT 0,
+  _status text DEFAULT NULL,
+  _jailed boolean DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE sql STABLE
+AS $$
+  WITH filtered AS (
+    SELECT v.*
+    FROM api.validators v
+    WHERE (_status IS NULL
+        OR v.status = CASE
+          WHEN upper(_status) LIKE 'BOND_STATUS_%' THEN upper(_status)
+          ELSE 'BOND_STATUS_' || upper(_status)
+        END)
+      AND (_jailed IS NULL OR v.jailed = _jailed)
+  ),
+  paginated AS (
+    SELECT * FROM filtered
+    ORDER BY tokens DESC NULLS LAST, operator_address
+    LIMIT _limit OFFSET _offset
+  ),
+  total AS (
+    SELECT COUNT(*) AS count FROM filtered
+  ),
+  bonded AS (
+    SELECT SUM(tokens) AS tokens FROM api.validators WHERE status = 'BOND_STATUS_BONDED'
+  )
+  SELECT jsonb_build_object(
+    'data', COALESCE(jsonb_agg(
+      api.validator_json(p::api.validators, (SELECT tokens FROM bonded))
+      ORDER BY p.tokens DESC NULLS LAST, p.operator_address
+    ), '[]'::jsonb),
+    'pagination', jsonb_build_object(
+      'total', (SELECT count FROM total),
+      'limit', _limit,
+      'offset', _offset,
+      'has_next', _offset + _limit < (SELECT count FROM total),
+      'has_prev', _offset > 0
+    )
+  )
+  FROM paginated p;
+$$;
+
+-- Single validator by operator address, consensus address or hex consensus address
+CREATE OR REPLACE FUNCTION api.get_validator(_address text)
+RETURNS jsonb
+LANGUAGE sql STABLE
+AS $$
+  SELECT api.validator_json(
+    v,
+    (SELECT SUM(tokens) FROM api.validators WHERE status = 'BOND_STATUS_BONDED')
+  )
+  FROM api.validators v
+  WHERE v.operator_address = _address
+     OR v.consensus_address = _address
+     OR v.consensus_address_hex = upper(_address)
+  LIMIT 1;
+$$;
+
+-- =============================================================================
+-- GRANT PERMISSIONS
+-- =============================================================================
+
+GRANT SELECT ON api.validators TO web_anon;
+GRANT SELECT ON api.chain_stats TO web_anon;
+GRANT EXECUTE ON FUNCTION api.get_validators(int, int, text, boolean) TO web_anon;
+GRANT EXECUTE ON FUNCTION api.get_validator(text) TO web_anon;
+
+COMMIT;
@@ -0,0 +1,349 @@
+-- =============================================================================
+-- Migration 044: Validator uptime and proposer tracking
+-- A trigger on blocks_raw records the proposer of each block and, from
+-- last_commit, the signing participation of the previous block. Bonded
+-- validators (api.validators, see 043) absent from a commit get a row in
+-- validator_missed_blocks, from which rolling uptime is computed
+-- Blocks indexed before this migration: SELECT api.backfill_block_signing(from, to)
+-- =============================================================================
+
+BEGIN;
+
+-- Per-height proposer (from the block header) and commit participation
+-- (from the next block's last_commit; null until that block is indexed)
+CREATE TABLE IF NOT EXISTS api.block_signing (
+  height BIGINT PRIMARY KEY,
+  proposer_address_hex TEXT,
+  signed_count INT,
+  absent_count INT,
+  nil_count INT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_block_signing_proposer ON api.block_signing(proposer_address_hex, height DESC);
+
+-- Heights a bonded validator did not sign (nil votes count as signed, as in x/slashing)
+CREATE TABLE IF NOT EXISTS api.validator_missed_blocks (
+  consensus_address_hex TEXT NOT NULL,
+  height BIGINT NOT NULL,
+  PRIMARY KEY (consensus_address_hex, height)
+);
+
+CREATE INDEX IF NOT EXISTS idx_validator_missed_blocks_height ON api.validator_missed_blocks(height);
+
+-- =============================================================================
+-- SIGNATURE TRACKING
+-- =============================================================================
+
+-- Block JSON carries consensus addresses as base64 (protojson) or hex
+CREATE OR REPLACE FUNCTION api.consensus_address_hex(_address text)
+RETURNS text
+LANGUAGE sql IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN _address IS NULL OR _address = '' THEN NULL
+    WHEN _address ~ '^[0-9A-Fa-f]{40}$' THEN upper(_address)
+    ELSE upper(encode(decode(_address, 'base64'), 'hex'))
+  END;
+$$;
+
+-- Record proposer and commit participation for one block
+-- Misses are attributed against the bonded set at the time the block is
+-- processed, so backfilled history uses the current validator set
+CREATE OR REPLACE FUNCTION api.record_block_signing(_height bigint, _block jsonb)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  commit_height bigint;
+  signatures jsonb;
+BEGIN
+  INSERT INTO api.block_signing (height, proposer_address_hex, updated_at)
+  VALUES (_height, api.consensus_address_hex(_block->'header'->>'proposer_address'), NOW())
+  ON CONFLICT (height) DO UPDATE SET
+    proposer_address_hex = EXCLUDED.proposer_address_hex,
+    updated_at = NOW();
+
+  signatures := COALESCE(_block->'last_commit'->'signatures', _block->'lastCommit'->'signatures');
+  IF signatures IS NULL OR jsonb_array_length(signatures) = 0 OR _height <= 1 THEN
+    RETURN;
+  END IF;
+
+  commit_height := _height - 1;
+
+  WITH sigs AS (
+    SELECT
+      api.consensus_address_hex(COALESCE(s->>'validator_address', s->>'validatorAddress')) AS address,
+      COALESCE(s->>'block_id_flag', s->>'blockIdFlag') AS flag
+    FROM jsonb_array_elements(signatures) AS s
+  )
+  INSERT INTO api.block_signing (height, signed_count, absent_count, nil_count, updated_at)
+  SELECT
+    commit_height,
+    COUNT(*) FILTER (WHERE flag IN ('BLOCK_ID_FLAG_COMMIT', '2')),
+    COUNT(*) FILTER (WHERE flag IN ('BLOCK_ID_FLAG_ABSENT', '1') OR address IS NULL),
+    COUNT(*) FILTER (WHERE flag IN ('BLOCK_ID_FLAG_NIL', '3')),
+    NOW()
+  FROM sigs
+  ON CONFLICT (height) DO UPDATE SET
+    signed_count = EXCLUDED.signed_count,
+    absent_count = EXCLUDED.absent_count,
+    nil_count = EXCLUDED.nil_count,
+    updated_at = NOW();
+
+  DELETE FROM api.validator_missed_blocks WHERE height = commit_height;
+
+  INSERT INTO api.validator_missed_blocks (consensus_address_hex, height)
+  SELECT v.consensus_address_hex, commit_height
+  FROM api.validators v
+  WHERE v.status = 'BOND_STATUS_BONDED'
+    AND v.consensus_address_hex IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(signatures) AS s
+      WHERE api.consensus_address_hex(COALESCE(s->>'validator_address', s->>'validatorAddress')) = v.consensus_address_hex
+        AND COALESCE(s->>'block_id_flag', s->>'blockIdFlag') NOT IN ('BLOCK_ID_FLAG_ABSENT', '1')
+    )
+  ON CONFLICT DO NOTHING;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION api.track_block_signing()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM api.record_block_signing(NEW.id, NEW.data->'block');
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_track_block_signing ON api.blocks_raw;
+CREATE TRIGGER trigger_track_block_signing
+AFTER INSERT OR UPDATE OF data ON api.blocks_raw
+FOR EACH ROW
+EXECUTE FUNCTION api.track_block_signing();
+
+-- Process already indexed blocks in [_from_height, _to_height] (admin only)
+-- Returns the number of blocks processed
+CREATE OR REPLACE FUNCTION api.backfill_block_signing(_from_height bigint, _to_height bigint)
+RETURNS int
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  block RECORD;
+  processed int := 0;
+BEGIN
+  FOR block IN
+    SELECT id, data FROM api.blocks_raw
+    WHERE id BETWEEN _from_height AND _to_height
+    ORDER BY id
+  LOOP
+    PERFORM api.record_block_signing(block.id, block.data->'block');
+    processed := processed + 1;
+  END LOOP;
+  RETURN processed;
+END;
+$$;
+
+-- =============================================================================
+-- RPC FUNCTIONS
+-- =============================================================================
+
+-- Uptime of all bonded validators over the last _window committed blocks,
+-- lowest uptime first. Blocks before a validator joined the bonded set count
+-- as signed
+CREATE OR REPLACE FUNCTION api.get_validators_uptime(_window int DEFAULT 10000)
+RETURNS jsonb
+LANGUAGE sql STABLE
+AS $$
+  WITH bounds AS (
+    SELECT MAX(height) AS newest, GREATEST(MAX(height) - LEAST(GREATEST(_window, 1), 1000000) + 1, 1) AS oldest
+    FROM api.block_signing
+    WHERE signed_count IS NOT NULL
+  ),
+  window_blocks AS (
+    SELECT COUNT(*) AS count
+    FROM api.block_signing s, bounds b
+    WHERE s.height BETWEEN b.oldest AND b.newest
+      AND s.signed_count IS NOT NULL
+  ),
+  missed AS (
+    SELECT m.consensus_address_hex, COUNT(*) AS count, MAX(m.height) AS last_missed
+    FROM api.validator_missed_blocks m, bounds b
+    WHERE m.height BETWEEN b.oldest AND b.newest
+    GROUP BY m.consensus_address_hex
+  ),
+  proposed AS (
+    SELECT s.proposer_address_hex, COUNT(*) AS count
+    FROM api.block_signing s, bounds b
+    WHERE s.height BETWEEN b.oldest AND b.newest
+    GROUP BY s.proposer_address_hex
+  )
+  SELECT jsonb_build_object(
+    'from_height', (SELECT oldest FROM bounds),
+    'to_height', (SELECT newest FROM bounds),
+    'window_blocks', (SELECT count FROM window_blocks),
+    'validators', COALESCE(jsonb_agg(
+      jsonb_build_object(
+        'operator_address', v.operator_address,
+        'consensus_address', v.consensus_address,
+        'moniker', v.moniker,
+        'jailed', v.jailed,
+        'signed_blocks', w.count - COALESCE(m.count, 0),
+        'missed_blocks', COALESCE(m.count, 0),
+        'uptime', CASE WHEN w.count > 0 THEN round((w.count - COALESCE(m.count, 0))::numeric / w.count, 6) END,
+        'last_missed_height', m.last_missed,
+        'proposed_blocks', COALESCE(p.count, 0)
+      ) ORDER BY COALESCE(m.count, 0) DESC, v.tokens DESC NULLS LAST
+    ), '[]'::jsonb)
+  )
+  FROM api.validators v
+  CROSS JOIN window_blocks w
+  LEFT JOIN missed m ON m.consensus_address_hex = v.consensus_address_hex
+  LEFT JOIN proposed p ON p.proposer_address_hex = v.consensus_address_hex
+  WHERE v.status = 'BOND_STATUS_BONDED';
+$$;
+
+-- Uptime of one validator (operator, consensus or hex consensus address) over
+-- the last _window committed blocks, split into _buckets equal height ranges,
+-- with the most recent missed heights
+CREATE OR REPLACE FUNCTION api.get_validator_uptime(
+  _address text,
+  _window int DEFAULT 10000,
+  _buckets int DEFAULT 20
+)
+RETURNS jsonb
+LANGUAGE sql STABLE
+AS $$
+  WITH val AS (
+    SELECT v.*
+    FROM api.validators v
+    WHERE v.operator_address = _address
+       OR v.consensus_address = _address
+       OR v.consensus_address_hex = upper(_address)
+    LIMIT 1
+  ),
+  bounds AS (
+    SELECT
+      MAX(height) AS newest,
+      GREATEST(MAX(height) - LEAST(GREATEST(_window, 1), 1000000) + 1, 1) AS oldest,
+      GREATEST(_buckets, 1) AS buckets
+    FROM api.block_signing
+    WHERE signed_count IS NOT NULL
+  ),
+  blocks AS (
+    SELECT
+      s.height,
+      width_bucket(s.height, b.oldest, b.newest + 1, b.buckets) AS bucket,
+      EXISTS (
+        SELECT 1 FROM api.validator_missed_blocks m, val
+        WHERE m.consensus_address_hex = val.consensus_address_hex AND m.height = s.height
+      ) AS missed,
+      s.proposer_address_hex = (SELECT consensus_address_hex FROM val) AS proposed
+    FROM api.block_signing s, bounds b
+    WHERE s.height BETWEEN b.oldest AND b.newest
+      AND s.signed_count IS NOT NULL
+  ),
+  history AS (
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'from_height', from_height,
+        'to_height', to_height,
+        'blocks', blocks,
+        'missed_blocks', missed,
+        'uptime', round((blocks - missed)::numeric / blocks, 6)
+      ) ORDER BY bucket
+    ) AS buckets
+    FROM (
+      SELECT bucket, MIN(height) AS from_height, MAX(height) AS to_height,
+             COUNT(*) AS blocks, COUNT(*) FILTER (WHERE missed) AS missed
+      FROM blocks
+      GROUP BY bucket
+    ) h
+  ),
+  recent_missed AS (
+    SELECT jsonb_agg(height ORDER BY height DESC) AS heights
+    FROM (
+      SELECT m.height
+      FROM api.validator_missed_blocks m, val
+      WHERE m.consensus_address_hex = val.consensus_address_hex
+      ORDER BY m.height DESC
+      LIMIT 50
+    ) r
+  )
+  SELECT jsonb_build_object(
+    'operator_address', val.operator_address,
+    'consensus_address', val.consensus_address,
+    'moniker', val.moniker,
+    'from_height', (SELECT oldest FROM bounds),
+    'to_height', (SELECT newest FROM bounds),
+    'window_blocks', (SELECT COUNT(*) FROM blocks),
+    'signed_blocks', (SELECT COUNT(*) FILTER (WHERE NOT missed) FROM blocks),
+    'missed_blocks', (SELECT COUNT(*) FILTER (WHERE missed) FROM blocks),
+    'uptime', (SELECT CASE WHEN COUNT(*) > 0 THEN round(COUNT(*) FILTER (WHERE NOT missed)::numeric / COUNT(*), 6) END FROM blocks),
+    'proposed_blocks', (SELECT COUNT(*) FILTER (WHERE proposed) FROM blocks),
+    'history', COALESCE((SELECT buckets FROM history), '[]'::jsonb),
+    'recent_missed_heights', COALESCE((SELECT heights FROM recent_missed), '[]'::jsonb)
+  )
+  FROM val;
+$$;
+
+-- Blocks proposed per validator over the last _window blocks, with the share
+-- expected from current voting power
+CREATE OR REPLACE FUNCTION api.get_proposer_stats(_window int DEFAULT 10000)
+RETURNS jsonb
+LANGUAGE sql STABLE
+AS $$
+  WITH bounds AS (
+    SELECT MAX(height) AS newest, GREATEST(MAX(height) - LEAST(GREATEST(_window, 1), 1000000) + 1, 1) AS oldest
+    FROM api.block_signing
+  ),
+  proposals AS (
+    SELECT s.proposer_address_hex, COUNT(*) AS count, MAX(s.height) AS last_height
+    FROM api.block_signing s, bounds b
+    WHERE s.height BETWEEN b.oldest AND b.newest
+      AND s.proposer_address_hex IS NOT NULL
+    GROUP BY s.proposer_address_hex
+  ),
+  totals AS (
+    SELECT
+      (SELECT SUM(count) FROM proposals) AS blocks,
+      (SELECT SUM(tokens) FROM api.validators WHERE status = 'BOND_STATUS_BONDED') AS bonded_tokens
+  )
+  SELECT jsonb_build_object(
+    'from_height', (SELECT oldest FROM bounds),
+    'to_height', (SELECT newest FROM bounds),
+    'total_blocks', COALESCE((SELECT blocks FROM totals), 0),
+    'proposers', COALESCE(jsonb_agg(
+      jsonb_build_object(
+        'proposer_address_hex', p.proposer_address_hex,
+        'operator_address', v.operator_address,
+        'moniker', v.moniker,
+        'proposed_blocks', p.count,
+        'share', round(p.count::numeric / t.blocks, 6),
+        'expected_share', CASE
+          WHEN v.status = 'BOND_STATUS_BONDED' AND t.bonded_tokens > 0
+          THEN round(v.tokens / t.bonded_tokens, 6)
+        END,
+        'last_proposed_height', p.last_height
+      ) ORDER BY p.count DESC, p.proposer_address_hex
+    ), '[]'::jsonb)
+  )
+  FROM proposals p
+  CROSS JOIN totals t
+  LEFT JOIN api.validators v ON v.consensus_address_hex = p.proposer_address_hex;
+$$;
+
+-- =============================================================================
+-- GRANT PERMISSIONS
+-- =============================================================================
+
+GRANT SELECT ON api.block_signing TO web_anon;
+GRANT SELECT ON api.validator_missed_blocks TO web_anon;
+GRANT EXECUTE ON FUNCTION api.get_validators_uptime(int) TO web_anon;
+GRANT EXECUTE ON FUNCTION api.get_validator_uptime(text, int, int) TO web_anon;
+GRANT EXECUTE ON FUNCTION api.get_proposer_stats(int) TO web_anon;
+
+REVOKE EXECUTE ON FUNCTION api.backfill_block_signing(bigint, bigint) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION api.backfill_block_signing(bigint, bigint) TO analytics_admin;
+
+COMMIT;
@@ -0,0 +1,498 @@
+-- =============================================================================
+-- Migration 045: Staking activity
+-- Ledger of delegate / undelegate / redelegate / cancel-unbonding / reward
+-- withdrawal messages from successful transactions, with completion times
+-- and claimed rewards taken from the tx events, and per delegator/validator
+-- delegation state maintained from the ledger
+-- Amounts are delegated principal: slashing and genesis delegations are not
+-- reflected (validators.tokens, see 043, holds the chain's figure)
+-- =============================================================================
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS api.staking_activity (
+  tx_id TEXT NOT NULL,
+  message_index INT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('delegate', 'undelegate', 'redelegate', 'cancel_unbonding', 'withdraw_rewards')),
+  delegator_address TEXT NOT NULL,
+  validator_address TEXT NOT NULL,
+  -- Source validator of a redelegation (validator_address is the destination)
+  src_validator_address TEXT,
+  amount NUMERIC,
+  denom TEXT,
+  -- Rewards paid out by this message ([{denom, amount}]); staking messages withdraw too
+  rewards JSONB,
+  -- Unbonding / redelegation maturity
+  completion_time TIMESTAMPTZ,
+  height BIGINT NOT NULL,
+  timestamp TIMESTAMPTZ,
+  PRIMARY KEY (tx_id, message_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_staking_activity_delegator ON api.staking_activity(delegator_address, height DESC);
+CREATE INDEX IF NOT EXISTS idx_staking_activity_validator ON api.staking_activity(validator_address, height DESC);
+CREATE INDEX IF NOT EXISTS idx_staking_activity_unbonding ON api.staking_activity(completion_time) WHERE type = 'undelegate';
+
+CREATE TABLE IF NOT EXISTS api.delegations (
+  delegator_address TEXT NOT NULL,
+  validator_address TEXT NOT NULL,
+  amount NUMERIC NOT NULL,
+  denom TEXT,
+  last_tx_id TEXT,
+  updated_height BIGINT,
+  PRIMARY KEY (delegator_address, validator_address)
+);
+
+CREATE INDEX IF NOT EXISTS idx_delegations_validator ON api.delegations(validator_address, amount DESC);
+
+-- =============================================================================
+-- DELEGATION MAINTENANCE
+-- =============================================================================
+
+-- Apply a signed delegation delta, dropping rows that reach zero
+-- Negative rows are kept: they appear transiently while a tx is re-indexed
+-- and for undelegations of genesis stake, and are hidden by the RPCs
+CREATE OR REPLACE FUNCTION api.apply_delegation_delta(
+  _delegator text,
+  _validator text,
+  _delta numeric,
+  _denom text,
+  _tx_id text,
+  _height bigint
+)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF _delta IS NULL OR _delta = 0 THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO api.delegations (delegator_address, validator_address, amount, denom, last_tx_id, updated_height)
+  VALUES (_delegator, _validator, _delta, _denom, _tx_id, _height)
+  ON CONFLICT (delegator_address, validator_address) DO UPDATE SET
+    amount = api.delegations.amount + EXCLUDED.amount,
+    denom = COALESCE(EXCLUDED.denom, api.delegations.denom),
+    last_tx_id = EXCLUDED.last_tx_id,
+    updated_height = GREATEST(EXCLUDED.updated_height, api.delegations.updated_height);
+
+  DELETE FROM api.delegations
+  WHERE delegator_address = _delegator
+    AND validator_address = _validator
+    AND amount = 0;
+END;
+$$;
+
+-- Keep delegations in sync as ledger rows are inserted (or removed on re-index)
+CREATE OR REPLACE FUNCTION api.track_delegation()
+RETURNS TRIGGER AS $$
+DECLARE
+  activity RECORD;
+  sign NUMERIC;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    activity := OLD;
+    sign := -1;
+  ELSE
+    activity := NEW;
+    sign := 1;
+  END IF;
+
+  CASE activity.type
+    WHEN 'delegate', 'cancel_unbonding' THEN
+      PERFORM api.apply_delegation_delta(
+        activity.delegator_address, activity.validator_address, sign * activity.amount, activity.denom, activity.tx_id, activity.height
+      );
+    WHEN 'undelegate' THEN
+      PERFORM api.apply_delegation_delta(
+        activity.delegator_address, activity.validator_address, -sign * activity.amount, activity.denom, activity.tx_id, activity.height
+      );
+    WHEN 'redelegate' THEN
+      PERFORM api.apply_delegation_delta(
+        activity.delegator_address, activity.src_validator_address, -sign * activity.amount, activity.denom, activity.tx_id, activity.height
+      );
+      PERFORM api.apply_delegation_delta(
+        activity.delegator_address, activity.validator_address, sign * activity.amount, activity.denom, activity.tx_id, activity.height
+      );
+    ELSE
+      NULL;
+  END CASE;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_track_delegation ON api.staking_activity;
+CREATE TRIGGER trigger_track_delegation
+AFTER INSERT OR DELETE ON api.staking_activity
+FOR EACH ROW
+EXECUTE FUNCTION api.track_delegation();
+
+-- =============================================================================
+-- LEDGER INDEXING
+-- =============================================================================
+
+-- Parse an sdk.Coins string ("100uatom,5ibc/ABC") into [{denom, amount}]
+CREATE OR REPLACE FUNCTION api.parse_coins(_coins text)
+RETURNS jsonb
+LANGUAGE sql IMMUTABLE
+AS $$
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('denom', c[2], 'amount', c[1])), '[]'::jsonb)
+  FROM regexp_matches(COALESCE(_coins, ''), '([0-9]+)([a-zA-Z][a-zA-Z0-9/:._-]*)', 'g') AS c;
+$$;
+
+-- (Re)build the ledger rows of one transaction
+-- Called when either the transaction or its messages are inserted, since
+-- the indexer may write them in either order; failed transactions get no rows
+CREATE OR REPLACE FUNCTION api.index_staking_tx(_tx_id text)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  tx RECORD;
+BEGIN
+  SELECT id, height, timestamp, error INTO tx
+  FROM api.transactions_main
+  WHERE id = _tx_id;
+
+  DELETE FROM api.staking_activity WHERE tx_id = _tx_id;
+
+  IF tx.id IS NULL OR tx.error IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO api.staking_activity (
+    tx_id, message_index, type, delegator_address, validator_address, src_validator_address,
+    amount, denom, rewards, completion_time, height, timestamp
+  )
+  SELECT
+    m.id,
+    m.message_index,
+    CASE m.type
+      WHEN '/cosmos.staking.v1beta1.MsgDelegate' THEN 'delegate'
+      WHEN '/cosmos.staking.v1beta1.MsgUndelegate' THEN 'undelegate'
+      WHEN '/cosmos.staking.v1beta1.MsgBeginRedelegate' THEN 'redelegate'
+      WHEN '/cosmos.staking.v1beta1.MsgCancelUnbondingDelegation' THEN 'cancel_unbonding'
+      ELSE 'withdraw_rewards'
+    END,
+    COALESCE(r.data->>'delegatorAddress', r.data->>'delegator_address', m.sender),
+    COALESCE(
+      r.data->>'validatorAddress', r.data->>'validator_address',
+      r.data->>'validatorDstAddress', r.data->>'validator_dst_address'
+    ),
+    COALESCE(r.data->>'validatorSrcAddress', r.data->>'validator_src_address'),
+    (r.data->'amount'->>'amount')::numeric,
+    r.data->'amount'->>'denom',
+    (
+      SELECT NULLIF(jsonb_agg(coin), '[]'::jsonb)
+      FROM api.events_main e
+      CROSS JOIN LATERAL jsonb_array_elements(api.parse_coins(e.attr_value)) AS coin
+      WHERE e.id = m.id
+        AND (e.msg_index = m.message_index OR e.msg_index IS NULL)
+        AND e.event_type = 'withdraw_rewards'
+        AND e.attr_key = 'amount'
+    ),
+    (
+      SELECT NULLIF(e.attr_value, '')::timestamptz
+      FROM api.events_main e
+      WHERE e.id = m.id
+        AND (e.msg_index = m.message_index OR e.msg_index IS NULL)
+        AND e.event_type IN ('unbond', 'redelegate')
+        AND e.attr_key = 'completion_time'
+      LIMIT 1
+    ),
+    tx.height,
+    tx.timestamp
+  FROM api.messages_main m
+  LEFT JOIN api.messages_raw r ON r.id = m.id AND r.message_index = m.message_index
+  WHERE m.id = _tx_id
+    AND m.type IN (
+      '/cosmos.staking.v1beta1.MsgDelegate',
+      '/cosmos.staking.v1beta1.MsgUndelegate',
+      '/cosmos.staking.v1beta1.MsgBeginRedelegate',
+      '/cosmos.staking.v1beta1.MsgCancelUnbondingDelegation',
+      '/cosmos.distribution.v1beta1.MsgWithdrawDelegatorReward'
+    )
+    AND COALESCE(
+      r.data->>'validatorAddress', r.data->>'validator_address',
+      r.data->>'validatorDstAddress', r.data->>'validator_dst_address'
+    ) IS NOT NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION api.track_staking_message()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM api.index_staking_tx(NEW.id);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION api.track_staking_tx()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM api.messages_main m
+    WHERE m.id = NEW.id
+      AND (m.type LIKE '/cosmos.staking.v1beta1.%' OR m.type = '/cosmos.distribution.v1beta1.MsgWithdrawDelegatorReward')
+  ) THEN
+    PERFORM api.index_staking_tx(NEW.id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_track_staking_message ON api.messages_main;
+CREATE TRIGGER trigger_track_staking_message
+AFTER INSERT ON api.messages_main
+FOR EACH ROW
+WHEN (NEW.type IN (
+  '/cosmos.staking.v1beta1.MsgDelegate',
+  '/cosmos.staking.v1beta1.MsgUndelegate',
+  '/cosmos.staking.v1beta1.MsgBeginRedelegate',
+  '/cosmos.staking.v1beta1.MsgCancelUnbondingDelegation',
+  '/cosmos.distribution.v1beta1.MsgWithdrawDelegatorReward'
+))
+EXECUTE FUNCTION api.track_staking_message();
+
+DROP TRIGGER IF EXISTS trigger_track_staking_tx ON api.transactions_main;
+CREATE TRIGGER trigger_track_staking_tx
+AFTER INSERT OR UPDATE OF error ON api.transactions_main
+FOR EACH ROW
+EXECUTE FUNCTION api.track_staking_tx();
+
+-- Rebuild the ledger and delegations from indexed messages (admin only)
+CREATE OR REPLACE FUNCTION api.rebuild_staking_activity()
+RETURNS int
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  tx_id text;
+  processed int := 0;
+BEGIN
+  TRUNCATE api.staking_activity, api.delegations;
+
+  FOR tx_id IN
+    SELECT DISTINCT m.id
+    FROM api.messages_main m
+    WHERE m.type IN (
+      '/cosmos.staking.v1beta1.MsgDelegate',
+      '/cosmos.staking.v1beta1.MsgUndelegate',
+      '/cosmos.staking.v1beta1.MsgBeginRedelegate',
+      '/cosmos.staking.v1beta1.MsgCancelUnbondingDelegation',
+      '/cosmos.distribution.v1beta1.MsgWithdrawDelegatorReward'
+    )
+  LOOP
+    PERFORM api.index_staking_tx(tx_id);
+    processed := processed + 1;
+  END LOOP;
+
+  RETURN processed;
+END;
+$$;
+
+-- One-time backfill from messages indexed before this migration; migrations
+-- are re-applied on every deploy, so only while no activity is recorded yet
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM api.staking_activity) THEN
+    PERFORM api.rebuild_staking_activity();
+  END IF;
+END;
+$$;
+
+-- =============================================================================
+-- RPC FUNCTIONS
+-- =============================================================================
+
+-- Delegations of an address, largest first
+CREATE OR REPLACE FUNCTION api.get_delegations(
+  _address text,
+  _limit int DEFAULT 50,
+  _offset int DEFAULT 0
+)
+RETURNS jsonb
+LANGUAGE sql STABLE
+AS $$
+  WITH delegations AS (
+    SELECT d.*
+    FROM api.delegations d
+    WHERE d.delegator_address = _address
+      AND d.amount > 0
+  ),
+  paginated AS (
+    SELECT * FROM delegations
+    ORDER BY amount DESC, validator_address
+    LIMIT _limit OFFSET _offset
+  ),
+  total AS (
+    SELECT COUNT(*) AS count FROM delegations
+  )
+  SELECT jsonb_build_object(
+    'data', COALESCE(jsonb_agg(
+      jsonb_build_object(
+        'validator_address', p.validator_address,
+        'moniker', v.moniker,
+        'validator_status', v.status,
+        'jailed', v.jailed,
+        'amount', p.amount::text,
+        'denom', p.denom,
+        'updated_height', p.updated_height
+      ) ORDER BY p.amount DESC, p.validator_address
+    ), '[]'::jsonb),
+    'pagination', jsonb_build_object(
+      'total', (SELECT count FROM total),
+      'limit', _limit,
+      'offset', _offset,
+      'has_next', _offset + _limit < (SELECT count FROM total),
+      'has_prev', _offset > 0
+    )
+  )
+  FROM paginated p
+  LEFT JOIN api.validators v ON v.operator_address = p.validator_address;
+$$;
+
+-- Delegators of a validator, largest first, with their share of the
+-- validator's indexed delegations
+CREATE OR REPLACE FUNCTION api.get_validator_delegators(
+  _validator text,
+  _limit int DEFAULT 50,
+  _offset int DEFAULT 0
+)
+RETURNS jsonb
+LANGUAGE sql STABLE
+AS $$
+  WITH delegations AS (
+    SELECT d.*
+    FROM api.delegations d
+    WHERE d.validator_address = _validator
+      AND d.amount > 0
+  ),
+  paginated AS (
+    SELECT * FROM delegations
+    ORDER BY amount DESC, delegator_address
+    LIMIT _limit OFFSET _offset
+  ),
+  total AS (
+    SELECT COUNT(*) AS count, SUM(amount) AS amount FROM delegations
+  )
+  SELECT jsonb_build_object(
+    'data', COALESCE(jsonb_agg(
+      jsonb_build_object(
+        'delegator_address', p.delegator_address,
+        'amount', p.amount::text,
+        'denom', p.denom,
+        'share', round(p.amount / NULLIF((SELECT amount FROM total), 0), 8),
+        'updated_height', p.updated_height
+      ) ORDER BY p.amount DESC, p.delegator_address
+    ), '[]'::jsonb),
+    'pagination', jsonb_build_object(
+      'total', (SELECT count FROM total),
+      'limit', _limit,
+      'offset', _offset,
+      'has_next', _offset + _limit < (SELECT count FROM total),
+      'has_prev', _offset > 0
+    )
+  )
+  FROM paginated p;
+$$;
+
+-- Unbonding entries of an address, soonest completion first
+-- Completed entries (completion_time passed) are included with _include_completed
+CREATE OR REPLACE FUNCTION api.get_unbonding_delegations(
+  _address text,
+  _include_completed boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE sql STABLE
+AS $$
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object(
+      'tx_id', a.tx_id,
+      'validator_address', a.validator_address,
+      'moniker', v.moniker,
+      'amount', a.amount::text,
+      'denom', a.denom,
+      'height', a.height,
+      'timestamp', a.timestamp,
+      'completion_time', a.completion_time,
+      'completed', a.completion_time <= NOW()
+    ) ORDER BY a.completion_time, a.tx_id
+  ), '[]'::jsonb)
+  FROM api.staking_activity a
+  LEFT JOIN api.validators v ON v.operator_address = a.validator_address
+  WHERE a.delegator_address = _address
+    AND a.type = 'undelegate'
+    AND (_include_completed OR a.completion_time > NOW());
+$$;
+
+-- Staking ledger of a delegator or validator address, newest first,
+-- optionally limited to one activity type
+CREATE OR REPLACE FUNCTION api.get_staking_activity(
+  _address text,
+  _type text DEFAULT NULL,
+  _limit int DEFAULT 50,
+  _offset int DEFAULT 0
+)
+RETURNS jsonb
+LANGUAGE sql STABLE
+AS $$
+  WITH activity AS (
+    SELECT a.*
+    FROM api.staking_activity a
+    WHERE (a.delegator_address = _address
+        OR a.validator_address = _address
+        OR a.src_validator_address = _address)
+      AND (_type IS NULL OR a.type = _type)
+  ),
+  paginated AS (
+    SELECT * FROM activity
+    ORDER BY height DESC, tx_id, message_index
+    LIMIT _limit OFFSET _offset
+  ),
+  total AS (
+    SELECT COUNT(*) AS count FROM activity
+  )
+  SELECT jsonb_build_object(
+    'data', COALESCE(jsonb_agg(
+      jsonb_build_object(
+        'tx_id', p.tx_id,
+        'message_index', p.message_index,
+        'type', p.type,
+        'delegator_address', p.delegator_address,
+        'validator_address', p.validator_address,
+        'src_validator_address', p.src_validator_address,
+        'amount', p.amount::text,
+        'denom', p.denom,
+        'rewards', p.rewards,
+        'completion_time', p.completion_time,
+        'height', p.height,
+        'timestamp', p.timestamp
+      ) ORDER BY p.height DESC, p.tx_id, p.message_index
+    ), '[]'::jsonb),
+    'pagination', jsonb_build_object(
+      'total', (SELECT count FROM total),
+      'limit', _limit,
+      'offset', _offset,
+      'has_next', _offset + _limit < (SELECT count FROM total),
+      'has_prev', _offset > 0
+    )
+  )
+  FROM paginated p;
+$$;
+
+-- =============================================================================
+-- GRANT PERMISSIONS
+-- =============================================================================
+
+GRANT SELECT ON api.staking_activity TO web_anon;
+GRANT SELECT ON api.delegations TO web_anon;
+GRANT EXECUTE ON FUNCTION api.get_delegations(text, int, int) TO web_anon;
+GRANT EXECUTE ON FUNCTION api.get_validator_delegators(text, int, int) TO web_anon;
+GRANT EXECUTE ON FUNCTION api.get_unbonding_delegations(text, boolean) TO web_anon;
+GRANT EXECUTE ON FUNCTION api.get_staking_activity(text, text, int, int) TO web_anon;
+
+REVOKE EXECUTE ON FUNCTION api.rebuild_staking_activity() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION api.rebuild_staking_activity() TO analytics_admin;
+
+COMMIT;
@@ -0,0 +1,525 @@
+-- =============================================================================
+-- Migration 046: Governance votes and deposits
+-- Every MsgVote / MsgVoteWeighted is kept as a row of options with fractional
+-- weights (a plain vote is a single option with weight 1), so vote changes
+-- stay visible; the latest vote per voter drives the proposal counts
+-- MsgDeposit and the initial deposit of MsgSubmitProposal are recorded per coin
+-- Replaces trigger_track_votes, which counted every vote message once
+-- =============================================================================
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS api.governance_votes (
+  tx_id TEXT NOT NULL,
+  message_index INT NOT NULL,
+  proposal_id BIGINT NOT NULL,
+  voter TEXT NOT NULL,
+  -- [{option: 'VOTE_OPTION_YES', weight: '0.7'}, ...]
+  options JSONB NOT NULL,
+  is_weighted BOOLEAN NOT NULL DEFAULT FALSE,
+  metadata TEXT,
+  height BIGINT NOT NULL,
+  timestamp TIMESTAMPTZ,
+  PRIMARY KEY (tx_id, message_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_governance_votes_proposal ON api.governance_votes(proposal_id, voter, height DESC);
+CREATE INDEX IF NOT EXISTS idx_governance_votes_voter ON api.governance_votes(voter, height DESC);
+
+CREATE TABLE IF NOT EXISTS api.governance_deposits (
+  tx_id TEXT NOT NULL,
+  message_index INT NOT NULL,
+  proposal_id BIGINT NOT NULL,
+  depositor TEXT NOT NULL,
+  amount NUMERIC NOT NULL,
+  denom TEXT NOT NULL,
+  -- Deposit made with MsgSubmitProposal
+  is_initial BOOLEAN NOT NULL DEFAULT FALSE,
+  height BIGINT NOT NULL,
+  timestamp TIMESTAMPTZ,
+  PRIMARY KEY (tx_id, message_index, denom)
+);
+
+CREATE INDEX IF NOT EXISTS idx_governance_deposits_proposal ON api.governance_deposits(proposal_id, height DESC);
+CREATE INDEX IF NOT EXISTS idx_governance_deposits_depositor ON api.governance_deposits(depositor, height DESC);
+
+-- =============================================================================
+-- INDEXING
+-- =============================================================================
+
+-- Normalize a vote option to its enum name (protojson may give the number)
+CREATE OR REPLACE FUNCTION api.normalize_vote_option(_option text)
+RETURNS text
+LANGUAGE sql IMMUTABLE
+AS $$
+  SELECT CASE _option
+    WHEN '1' THEN 'VOTE_OPTION_YES'
+    WHEN '2' THEN 'VOTE_OPTION_ABSTAIN'
+    WHEN '3' THEN 'VOTE_OPTION_NO'
+    WHEN '4' THEN 'VOTE_OPTION_NO_WITH_VETO'
+    ELSE _option
+  END;
+$$;
+
+-- Vote weights are decimal strings ("0.5"); v1beta1 LegacyDec may arrive
+-- as an integer scaled by 1e18
+CREATE OR REPLACE FUNCTION api.normalize_vote_weight(_weight text)
+RETURNS numeric
+LANGUAGE sql IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN _weight IS NULL OR _weight = '' THEN 1
+    WHEN _weight LIKE '%.%' OR _weight::numeric <= 1 THEN _weight::numeric
+    ELSE _weight::numeric / 1e18
+  END;
+$$;
+
+-- Recompute the option counts of a proposal from each voter's latest vote
+-- Weighted votes contribute their fractional weights
+CREATE OR REPLACE FUNCTION api.refresh_proposal_vote_counts(_proposal_id bigint)
+RETURNS void
+LANGUAGE sql
+AS $$
+  WITH latest AS (
+    SELECT DISTINCT ON (voter) options
+    FROM api.governance_votes
+    WHERE proposal_id = _proposal_id
+    ORDER BY voter, height DESC, tx_id DESC, message_index DESC
+  ),
+  weights AS (
+    SELECT o->>'option' AS option, SUM((o->>'weight')::numeric) AS weight
+    FROM latest
+    CROSS JOIN LATERAL jsonb_array_elements(options) AS o
+    GROUP BY o->>'option'
+  )
+  UPDATE api.governance_proposals p
+  SET
+    yes_count = trim_scale(COALESCE((SELECT weight FROM weights WHERE option = 'VOTE_OPTION_YES'), 0))::text,
+    no_count = trim_scale(COALESCE((SELECT weight FROM weights WHERE option = 'VOTE_OPTION_NO'), 0))::text,
+    abstain_count = trim_scale(COALESCE((SELECT weight FROM weights WHERE option = 'VOTE_OPTION_ABSTAIN'), 0))::text,
+    no_with_veto_count = trim_scale(COALESCE((SELECT weight FROM weights WHERE option = 'VOTE_OPTION_NO_WITH_VETO'), 0))::text,
+    status = CASE
+      WHEN p.status = 'PROPOSAL_STATUS_DEPOSIT_PERIOD' AND EXISTS (SELECT 1 FROM latest)
+      THEN 'PROPOSAL_STATUS_VOTING_PERIOD'
+      ELSE p.status
+    END,
+    last_updated = NOW()
+  WHERE p.proposal_id = _proposal_id;
+$$;
+
+-- (Re)build the vote and deposit rows of one transaction
+-- Called when either the transaction or its messages are inserted, since
+-- the indexer may write them in either order; failed transactions get no rows
+CREATE OR REPLACE FUNCTION api.index_governance_tx(_tx_id text)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  tx RECORD;
+  affected bigint[];
+  prop_id bigint;
+BEGIN
+  SELECT id, height, timestamp, error INTO tx
+  FROM api.transactions_main
+  WHERE id = _tx_id;
+
+  WITH removed AS (
+    DELETE FROM api.governance_votes WHERE tx_id = _tx_id RETURNING proposal_id
+  )
+  SELECT array_agg(DISTINCT proposal_id) INTO affected FROM removed;
+
+  DELETE FROM api.governance_deposits WHERE tx_id = _tx_id;
+
+  IF tx.id IS NOT NULL AND tx.error IS NULL THEN
+    INSERT INTO api.governance_votes (
+      tx_id, message_index, proposal_id, voter, options, is_weighted, metadata, height, timestamp
+    )
+    SELECT
+      m.id,
+      m.message_index,
+      COALESCE(r.data->>'proposalId', r.data->>'proposal_id')::bigint,
+      COALESCE(r.data->>'voter', m.sender),
+      CASE
+        WHEN jsonb_typeof(r.data->'options') = 'array' AND jsonb_array_length(r.data->'options') > 0 THEN (
+          SELECT jsonb_agg(jsonb_build_object(
+            'option', api.normalize_vote_option(o->>'option'),
+            'weight', trim_scale(api.normalize_vote_weight(o->>'weight'))::text
+          ))
+          FROM jsonb_array_elements(r.data->'options') AS o
+        )
+        ELSE jsonb_build_array(jsonb_build_object(
+          'option', api.normalize_vote_option(r.data->>'option'),
+          'weight', '1'
+        ))
+      END,
+      m.type LIKE '%MsgVoteWeighted',
+      NULLIF(r.data->>'metadata', ''),
+      tx.height,
+      tx.timestamp
+    FROM api.messages_main m
+    JOIN api.messages_raw r ON r.id = m.id AND r.message_index = m.message_index
+    WHERE m.id = _tx_id
+      AND m.type IN (
+        '/cosmos.gov.v1.MsgVote', '/cosmos.gov.v1beta1.MsgVote',
+        '/cosmos.gov.v1.MsgVoteWeighted', '/cosmos.gov.v1beta1.MsgVoteWeighted'
+      )
+      AND COALESCE(r.data->>'proposalId', r.data->>'proposal_id') IS NOT NULL;
+
+    INSERT INTO api.governance_deposits (
+      tx_id, message_index, proposal_id, depositor, amount, denom, is_initial, height, timestamp
+    )
+    SELECT
+      m.id,
+      m.message_index,
+      COALESCE(
+        r.data->>'proposalId',
+        r.data->>'proposal_id',
+        (
+          SELECT e.attr_value
+          FROM api.events_main e
+          WHERE e.id = m.id
+            AND (e.msg_index = m.message_index OR e.msg_index IS NULL)
+            AND e.event_type = 'submit_proposal'
+            AND e.attr_key = 'proposal_id'
+          LIMIT 1
+        )
+      )::bigint,
+      COALESCE(r.data->>'depositor', r.data->>'proposer', m.sender),
+      SUM((coin->>'amount')::numeric),
+      coin->>'denom',
+      m.type LIKE '%MsgSubmitProposal',
+      tx.height,
+      tx.timestamp
+    FROM api.messages_main m
+    JOIN api.messages_raw r ON r.id = m.id AND r.message_index = m.message_index
+    CROSS JOIN LATERAL jsonb_array_elements(
+      CASE
+        WHEN m.type LIKE '%MsgSubmitProposal' THEN COALESCE(r.data->'initialDeposit', r.data->'initial_deposit')
+        ELSE r.data->'amount'
+      END
+    ) AS coin
+    WHERE m.id = _tx_id
+      AND m.type IN (
+        '/cosmos.gov.v1.MsgDeposit', '/cosmos.gov.v1beta1.MsgDeposit',
+        '/cosmos.gov.v1.MsgSubmitProposal', '/cosmos.gov.v1beta1.MsgSubmitProposal'
+      )
+      AND (coin->>'amount')::numeric > 0
+    GROUP BY m.id, m.message_index, m.type, m.sender, r.data, coin->>'denom'
+    HAVING COALESCE(
+      r.data->>'proposalId',
+      r.data->>'proposal_id',
+      (
+        SELECT e.attr_value
+        FROM api.events_main e
+        WHERE e.id = m.id
+          AND (e.msg_index = m.message_index OR e.msg_index IS NULL)
+          AND e.event_type = 'submit_proposal'
+          AND e.attr_key = 'proposal_id'
+        LIMIT 1
+      )
+    ) IS NOT NULL;
+
+    SELECT array_agg(DISTINCT p) INTO affected
+    FROM unnest(COALESCE(affected, '{}') || ARRAY(
+      SELECT proposal_id FROM api.governance_votes WHERE tx_id = _tx_id
+    )) AS p;
+  END IF;
+
+  FOREACH prop_id IN ARRAY COALESCE(affected, '{}')
+  LOOP
+    PERFORM api.refresh_proposal_vote_counts(prop_id);
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION api.track_governance_message()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM api.index_governance_tx(NEW.id);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION api.track_governance_tx()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM api.messages_main m
+    WHERE m.id = NEW.id AND m.type LIKE '/cosmos.gov.%'
+  ) THEN
+    PERFORM api.index_governance_tx(NEW.id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_track_votes ON api.transactions_main;
+DROP FUNCTION IF EXISTS api.track_governance_vote();
+
+DROP TRIGGER IF EXISTS trigger_track_governance_message ON api.messages_main;
+CREATE TRIGGER trigger_track_governance_message
+AFTER INSERT ON api.messages_main
+FOR EACH ROW
+WHEN (NEW.type IN (
+  '/cosmos.gov.v1.MsgVote', '/cosmos.gov.v1beta1.MsgVote',
+  '/cosmos.gov.v1.MsgVoteWeighted', '/cosmos.gov.v1beta1.MsgVoteWeighted',
+  '/cosmos.gov.v1.MsgDeposit', '/cosmos.gov.v1beta1.MsgDeposit',
+  '/cosmos.gov.v1.MsgSubmitProposal', '/cosmos.gov.v1beta1.MsgSubmitProposal'
+))
+EXECUTE FUNCTION api.track_governance_message();
+
+-- Runs after trigger_detect_proposals (trigger order is by name), so the
+-- proposal row exists when its counts are refreshed
+DROP TRIGGER IF EXISTS trigger_track_governance_tx ON api.transactions_main;
+CREATE TRIGGER trigger_track_governance_tx
+AFTER INSERT OR UPDATE OF error ON api.transactions_main
+FOR EACH ROW
+EXECUTE FUNCTION api.track_governance_tx();
+
+-- Rebuild votes and deposits from indexed messages (admin only)
+CREATE OR REPLACE FUNCTION api.rebuild_governance_votes()
+RETURNS int
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  tx_id text;
+  processed int := 0;
+BEGIN
+  TRUNCATE api.governance_votes, api.governance_deposits;
+
+  FOR tx_id IN
+    SELECT DISTINCT m.id
+    FROM api.messages_main m
+    WHERE m.type LIKE '/cosmos.gov.%'
+  LOOP
+    PERFORM api.index_governance_tx(tx_id);
+    processed := processed + 1;
+  END LOOP;
+
+  RETURN processed;
+END;
+$$;
+
+-- One-time backfill from messages indexed before this migration; migrations
+-- are re-applied on every deploy, so only while no votes or deposits exist yet
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM api.governance_votes)
+    AND NOT EXISTS (SELECT 1 FROM api.governance_deposits) THEN
+    PERFORM api.rebuild_governance_votes();
+  END IF;
+END;
+$$;
+
+-- Tally of the latest vote per voter (weighted votes split across options)
+CREATE OR REPLACE FUNCTION api.compute_proposal_tally(_proposal_id bigint)
+RETURNS jsonb
+LANGUAGE sql STABLE
+AS $$
+  WITH latest AS (
+    SELECT DISTINCT ON (voter) options
+    FROM api.governance_votes
+    WHERE proposal_id = _proposal_id
+    ORDER BY voter, height DESC, tx_id DESC, message_index DESC
+  ),
+  weights AS (
+    SELECT o->>'option' AS option, (o->>'weight')::numeric AS weight
+    FROM latest
+    CROSS JOIN LATERAL jsonb_array_elements(options) AS o
+  )
+  SELECT jsonb_build_object(
+    'yes', trim_scale(COALESCE(SUM(weight) FILTER (WHERE option = 'VOTE_OPTION_YES'), 0)),
+    'no', trim_scale(COALESCE(SUM(weight) FILTER (WHERE option = 'VOTE_OPTION_NO'), 0)),
+    'abstain', trim_scale(COALESCE(SUM(weight) FILTER (WHERE option = 'VOTE_OPTION_ABSTAIN'), 0)),
+    'no_with_veto', trim_scale(COALESCE(SUM(weight) FILTER (WHERE option = 'VOTE_OPTION_NO_WITH_VETO'), 0))
+  )
+  FROM weights;
+$$;
+
+-- =============================================================================
+-- RPC FUNCTIONS
+-- =============================================================================
+
+-- Votes on a proposal, newest first
+-- By default only each voter's latest vote; _include_history adds the
+-- votes it replaced (superseded = true). _option keeps votes with any
+-- weight on that option
+CREATE OR REPLACE FUNCTION api.get_proposal_votes(
+  _proposal_id bigint,
+  _limit int DEFAULT 50,
+  _offset int DEFAULT 0,
+  _option text DEFAULT NULL,
+  _include_history boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE sql STABLE
+AS $$
+  WITH ranked AS (
+    SELECT
+      v.*,
+      ROW_NUMBER() OVER (
+        PARTITION BY v.voter
+        ORDER BY v.height DESC, v.tx_id DESC, v.message_index DESC
+      ) > 1 AS superseded
+    FROM api.governance_votes v
+    WHERE v.proposal_id = _proposal_id
+  ),
+  filtered AS (
+    SELECT * FROM ranked
+    WHERE (_include_history OR NOT superseded)
+      AND (_option IS NULL OR options @> jsonb_build_array(jsonb_build_object('option', _option)))
+  ),
+  paginated AS (
+    SELECT * FROM filtered
+    ORDER BY height DESC, tx_id DESC, message_index DESC
+    LIMIT _limit OFFSET _offset
+  ),
+  total AS (
+    SELECT COUNT(*) AS count FROM filtered
+  )
+  SELECT jsonb_build_object(
+    'data', COALESCE(jsonb_agg(
+      jsonb_build_object(
+        'proposal_id', p.proposal_id,
+        'voter', p.voter,
+        'options', p.options,
+        'is_weighted', p.is_weighted,
+        'metadata', p.metadata,
+        'superseded', p.superseded,
+        'tx_id', p.tx_id,
+        'height', p.height,
+        'timestamp', p.timestamp
+      ) ORDER BY p.height DESC, p.tx_id DESC, p.message_index DESC
+    ), '[]'::jsonb),
+    'pagination', jsonb_build_object(
+      'total', (SELECT count FROM total),
+      'limit', _limit,
+      'offset', _offset,
+      'has_next', _offset + _limit < (SELECT count FROM total),
+      'has_prev', _offset > 0
+    )
+  )
+  FROM paginated p;
+$$;
+
+-- Deposits on a proposal, newest first, with the per-denom total
+CREATE OR REPLACE FUNCTION api.get_proposal_deposits(
+  _proposal_id bigint,
+  _limit int DEFAULT 50,
+  _offset int DEFAULT 0
+)
+RETURNS jsonb
+LANGUAGE sql STABLE
+AS $$
+  WITH deposits AS (
+    SELECT d.*
+    FROM api.governance_deposits d
+    WHERE d.proposal_id = _proposal_id
+  ),
+  paginated AS (
+    SELECT * FROM deposits
+    ORDER BY height DESC, tx_id, message_index, denom
+    LIMIT _limit OFFSET _offset
+  ),
+  total AS (
+    SELECT COUNT(*) AS count FROM deposits
+  )
+  SELECT jsonb_build_object(
+    'data', COALESCE(jsonb_agg(
+      jsonb_build_object(
+        'proposal_id', p.proposal_id,
+        'depositor', p.depositor,
+        'amount', p.amount::text,
+        'denom', p.denom,
+        'is_initial', p.is_initial,
+        'tx_id', p.tx_id,
+        'height', p.height,
+        'timestamp', p.timestamp
+      ) ORDER BY p.height DESC, p.tx_id, p.message_index, p.denom
+    ), '[]'::jsonb),
+    'total_deposit', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object('denom', denom, 'amount', amount::text) ORDER BY denom), '[]'::jsonb)
+      FROM (SELECT denom, SUM(amount) AS amount FROM deposits GROUP BY denom) t
+    ),
+    'pagination', jsonb_build_object(
+      'total', (SELECT count FROM total),
+      'limit', _limit,
+      'offset', _offset,
+      'has_next', _offset + _limit < (SELECT count FROM total),
+      'has_prev', _offset > 0
+    )
+  )
+  FROM paginated p;
+$$;
+
+-- Every vote cast by an address across proposals, newest first, with
+-- superseded marking votes the voter later changed
+CREATE OR REPLACE FUNCTION api.get_votes_by_address(
+  _address text,
+  _limit int DEFAULT 50,
+  _offset int DEFAULT 0
+)
+RETURNS jsonb
+LANGUAGE sql STABLE
+AS $$
+  WITH votes AS (
+    SELECT
+      v.*,
+      ROW_NUMBER() OVER (
+        PARTITION BY v.proposal_id
+        ORDER BY v.height DESC, v.tx_id DESC, v.message_index DESC
+      ) > 1 AS superseded
+    FROM api.governance_votes v
+    WHERE v.voter = _address
+  ),
+  paginated AS (
+    SELECT * FROM votes
+    ORDER BY height DESC, tx_id DESC, message_index DESC
+    LIMIT _limit OFFSET _offset
+  ),
+  total AS (
+    SELECT COUNT(*) AS count FROM votes
+  )
+  SELECT jsonb_build_object(
+    'data', COALESCE(jsonb_agg(
+      jsonb_build_object(
+        'proposal_id', p.proposal_id,
+        'proposal_title', gp.title,
+        'proposal_status', gp.status,
+        'voter', p.voter,
+        'options', p.options,
+        'is_weighted', p.is_weighted,
+        'metadata', p.metadata,
+        'superseded', p.superseded,
+        'tx_id', p.tx_id,
+        'height', p.height,
+        'timestamp', p.timestamp
+      ) ORDER BY p.height DESC, p.tx_id DESC, p.message_index DESC
+    ), '[]'::jsonb),
+    'pagination', jsonb_build_object(
+      'total', (SELECT count FROM total),
+      'limit', _limit,
+      'offset', _offset,
+      'has_next', _offset + _limit < (SELECT count FROM total),
+      'has_prev', _offset > 0
+    )
+  )
+  FROM paginated p
+  LEFT JOIN api.governance_proposals gp ON gp.proposal_id = p.proposal_id;
+$$;
+
+-- =============================================================================
+-- GRANT PERMISSIONS
+-- =============================================================================
+
+GRANT SELECT ON api.governance_votes TO web_anon;
+GRANT SELECT ON api.governance_deposits TO web_anon;
+GRANT EXECUTE ON FUNCTION api.compute_proposal_tally(bigint) TO web_anon;
+GRANT EXECUTE ON FUNCTION api.get_proposal_votes(bigint, int, int, text, boolean) TO web_anon;
+GRANT EXECUTE ON FUNCTION api.get_proposal_deposits(bigint, int, int) TO web_anon;
+GRANT EXECUTE ON FUNCTION api.get_votes_by_address(text, int, int) TO web_anon;
+
+REVOKE EXECUTE ON FUNCTION api.rebuild_governance_votes() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION api.rebuild_governance_votes() TO analytics_admin;
+
+COMMIT;
@@ -0,0 +1,318 @@
+-- =============================================================================
+-- Migration 047: Stake-weighted governance tally
+-- Tallies each voter's latest vote by bonded stake the way x/gov does:
+-- delegators vote with their delegations, validators vote with what is left,
+-- so non-voting delegators inherit their validator's vote. Turnout is
+-- measured against bonded tokens and compared with the tally params
+-- (gov_quorum, gov_threshold, gov_veto_threshold) kept by chain-params-daemon
+-- Snapshots of active proposals are stored in governance_snapshots
+-- =============================================================================
+
+BEGIN;
+
+-- Account address of the operator (cosmosvaloper1... -> cosmos1...), used to
+-- recognise validator votes; filled by chain-params-daemon
+ALTER TABLE api.validators ADD COLUMN IF NOT EXISTS account_address TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_validator_account_address ON api.validators(account_address);
+
+ALTER TABLE api.governance_snapshots ADD COLUMN IF NOT EXISTS yes_power NUMERIC;
+ALTER TABLE api.governance_snapshots ADD COLUMN IF NOT EXISTS no_power NUMERIC;
+ALTER TABLE api.governance_snapshots ADD COLUMN IF NOT EXISTS abstain_power NUMERIC;
+ALTER TABLE api.governance_snapshots ADD COLUMN IF NOT EXISTS no_with_veto_power NUMERIC;
+ALTER TABLE api.governance_snapshots ADD COLUMN IF NOT EXISTS bonded_tokens NUMERIC;
+ALTER TABLE api.governance_snapshots ADD COLUMN IF NOT EXISTS turnout NUMERIC;
+ALTER TABLE api.governance_snapshots ADD COLUMN IF NOT EXISTS quorum NUMERIC;
+ALTER TABLE api.governance_snapshots ADD COLUMN IF NOT EXISTS threshold NUMERIC;
+ALTER TABLE api.governance_snapshots ADD COLUMN IF NOT EXISTS veto_threshold NUMERIC;
+ALTER TABLE api.governance_snapshots ADD COLUMN IF NOT EXISTS quorum_reached BOOLEAN;
+ALTER TABLE api.governance_snapshots ADD COLUMN IF NOT EXISTS threshold_reached BOOLEAN;
+ALTER TABLE api.governance_snapshots ADD COLUMN IF NOT EXISTS vetoed BOOLEAN;
+ALTER TABLE api.governance_snapshots ADD COLUMN IF NOT EXISTS passing BOOLEAN;
+
+-- =============================================================================
+-- TALLY
+-- =============================================================================
+
+-- Stake-weighted tally of a proposal from the current validator set
+-- Indexed delegation principal stands in for delegation shares, so slashing
+-- since delegation is not reflected in delegator power
+CREATE OR REPLACE FUNCTION api.compute_stake_weighted_tally(_proposal_id bigint)
+RETURNS jsonb
+LANGUAGE sql STABLE
+AS $$
+  WITH latest AS (
+    SELECT DISTINCT ON (voter) voter, options
+    FROM api.governance_votes
+    WHERE proposal_id = _proposal_id
+    ORDER BY voter, height DESC, tx_id DESC, message_index DESC
+  ),
+  bonded AS (
+    SELECT operator_address, account_address, tokens
+    FROM api.validators
+    WHERE status = 'BOND_STATUS_BONDED' AND tokens > 0
+  ),
+  delegator_power AS (
+    SELECT
+      l.options,
+      d.validator_address,
+      LEAST(d.amount, b.tokens) AS power
+    FROM latest l
+    JOIN api.delegations d ON d.delegator_address = l.voter AND d.amount > 0
+    JOIN bonded b ON b.operator_address = d.validator_address
+  ),
+  validator_power AS (
+    SELECT
+      l.options,
+      GREATEST(b.tokens - COALESCE((
+        SELECT SUM(dp.power) FROM delegator_power dp WHERE dp.validator_address = b.operator_address
+      ), 0), 0) AS power
+    FROM bonded b
+    JOIN latest l ON l.voter = b.account_address
+  ),
+  weighted AS (
+    SELECT o->>'option' AS option, p.power * (o->>'weight')::numeric AS power
+    FROM (
+      SELECT options, power FROM delegator_power
+      UNION ALL
+      SELECT options, power FROM validator_power
+    ) p
+    CROSS JOIN LATERAL jsonb_array_elements(p.options) AS o
+  ),
+  totals AS (
+    SELECT
+      COALESCE(SUM(power) FILTER (WHERE option = 'VOTE_OPTION_YES'), 0) AS yes,
+      COALESCE(SUM(power) FILTER (WHERE option = 'VOTE_OPTION_NO'), 0) AS no,
+      COALESCE(SUM(power) FILTER (WHERE option = 'VOTE_OPTION_ABSTAIN'), 0) AS abstain,
+      COALESCE(SUM(power) FILTER (WHERE option = 'VOTE_OPTION_NO_WITH_VETO'), 0) AS no_with_veto,
+      COALESCE(SUM(power), 0) AS total,
+      (SELECT COALESCE(SUM(tokens), 0) FROM bonded) AS bonded_tokens,
+      (SELECT value::numeric FROM api.chain_params WHERE key = 'gov_quorum') AS quorum,
+      (SELECT value::numeric FROM api.chain_params WHERE key = 'gov_threshold') AS threshold,
+      (SELECT value::numeric FROM api.chain_params WHERE key = 'gov_veto_threshold') AS veto_threshold
+    FROM weighted
+  ),
+  ratios AS (
+    SELECT
+      t.*,
+      CASE WHEN t.bonded_tokens > 0 THEN t.total / t.bonded_tokens END AS turnout,
+      CASE WHEN t.total - t.abstain > 0 THEN t.yes / (t.total - t.abstain) END AS yes_ratio,
+      CASE WHEN t.total > 0 THEN t.no_with_veto / t.total END AS veto_ratio
+    FROM totals t
+  ),
+  outcome AS (
+    SELECT
+      r.*,
+      r.turnout >= r.quorum AS quorum_reached,
+      COALESCE(r.yes_ratio > r.threshold, CASE WHEN r.threshold IS NOT NULL THEN false END) AS threshold_reached,
+      COALESCE(r.veto_ratio > r.veto_threshold, CASE WHEN r.veto_threshold IS NOT NULL THEN false END) AS vetoed
+    FROM ratios r
+  )
+  SELECT jsonb_build_object(
+    'proposal_id', _proposal_id,
+    'yes', o.yes::text,
+    'no', o.no::text,
+    'abstain', o.abstain::text,
+    'no_with_veto', o.no_with_veto::text,
+    'total_voted', o.total::text,
+    'bonded_tokens', o.bonded_tokens::text,
+    'turnout', round(o.turnout, 8),
+    'yes_ratio', round(o.yes_ratio, 8),
+    'veto_ratio', round(o.veto_ratio, 8),
+    'params', jsonb_build_object(
+      'quorum', o.quorum,
+      'threshold', o.threshold,
+      'veto_threshold', o.veto_threshold
+    ),
+    'quorum_reached', o.quorum_reached,
+    'threshold_reached', o.threshold_reached,
+    'vetoed', o.vetoed,
+    'passing', o.quorum_reached AND o.threshold_reached AND NOT o.vetoed
+  )
+  FROM outcome o;
+$$;
+
+-- Store a snapshot of the stake-weighted tally of each proposal in its voting
+-- period; skipped when the tally has not changed since the last snapshot
+-- Called by chain-params-daemon after refreshing the validator set
+CREATE OR REPLACE FUNCTION api.snapshot_proposal_tallies()
+RETURNS int
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  prop RECORD;
+  tally jsonb;
+  last RECORD;
+  inserted int := 0;
+BEGIN
+  FOR prop IN
+    SELECT * FROM api.governance_proposals
+    WHERE status = 'PROPOSAL_STATUS_VOTING_PERIOD'
+  LOOP
+    tally := api.compute_stake_weighted_tally(prop.proposal_id);
+
+    SELECT yes_power, no_power, abstain_power, no_with_veto_power, bonded_tokens, status INTO last
+    FROM api.governance_snapshots
+    WHERE proposal_id = prop.proposal_id
+    ORDER BY snapshot_time DESC
+    LIMIT 1;
+
+    IF last.status IS NOT DISTINCT FROM prop.status
+      AND last.yes_power IS NOT DISTINCT FROM (tally->>'yes')::numeric
+      AND last.no_power IS NOT DISTINCT FROM (tally->>'no')::numeric
+      AND last.abstain_power IS NOT DISTINCT FROM (tally->>'abstain')::numeric
+      AND last.no_with_veto_power IS NOT DISTINCT FROM (tally->>'no_with_veto')::numeric
+      AND last.bonded_tokens IS NOT DISTINCT FROM (tally->>'bonded_tokens')::numeric
+    THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO api.governance_snapshots (
+      proposal_id, status, yes_count, no_count, abstain_count, no_with_veto_count,
+      total_voting_power, yes_power, no_power, abstain_power, no_with_veto_power,
+      bonded_tokens, turnout, quorum, threshold, veto_threshold,
+      quorum_reached, threshold_reached, vetoed, passing
+    ) VALUES (
+      prop.proposal_id,
+      prop.status,
+      COALESCE(prop.yes_count, '0'),
+      COALESCE(prop.no_count, '0'),
+      COALESCE(prop.abstain_count, '0'),
+      COALESCE(prop.no_with_veto_count, '0'),
+      tally->>'total_voted',
+      (tally->>'yes')::numeric,
+      (tally->>'no')::numeric,
+      (tally->>'abstain')::numeric,
+      (tally->>'no_with_veto')::numeric,
+      (tally->>'bonded_tokens')::numeric,
+      (tally->>'turnout')::numeric,
+      (tally->'params'->>'quorum')::numeric,
+      (tally->'params'->>'threshold')::numeric,
+      (tally->'params'->>'veto_threshold')::numeric,
+      (tally->>'quorum_reached')::boolean,
+      (tally->>'threshold_reached')::boolean,
+      (tally->>'vetoed')::boolean,
+      (tally->>'passing')::boolean
+    )
+    ON CONFLICT (proposal_id, snapshot_time) DO NOTHING;
+
+    inserted := inserted + 1;
+  END LOOP;
+
+  RETURN inserted;
+END;
+$$;
+
+-- =============================================================================
+-- RPC FUNCTIONS
+-- =============================================================================
+
+-- Live stake-weighted tally of a proposal
+CREATE OR REPLACE FUNCTION api.get_proposal_tally(_proposal_id bigint)
+RETURNS jsonb
+LANGUAGE sql STABLE
+AS $$
+  SELECT api.compute_stake_weighted_tally(_proposal_id);
+$$;
+
+-- Proposals now also carry the latest stake-weighted snapshot
+CREATE OR REPLACE FUNCTION api.get_governance_proposals(
+  _limit INT DEFAULT 20,
+  _offset INT DEFAULT 0,
+  _status TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE SQL STABLE
+AS $$
+  WITH filtered AS (
+    SELECT p.*
+    FROM api.governance_proposals p
+    WHERE (_status IS NULL OR p.status = _status)
+    ORDER BY p.proposal_id DESC
+    LIMIT _limit OFFSET _offset
+  ),
+  total AS (
+    SELECT COUNT(*) AS count
+    FROM api.governance_proposals
+    WHERE (_status IS NULL OR status = _status)
+  ),
+  with_snapshots AS (
+    SELECT
+      f.*,
+      s.snapshot_time AS last_snapshot_time,
+      s.yes_power,
+      s.no_power,
+      s.abstain_power,
+      s.no_with_veto_power,
+      s.bonded_tokens,
+      s.turnout,
+      s.quorum_reached,
+      s.threshold_reached,
+      s.vetoed,
+      s.passing
+    FROM filtered f
+    LEFT JOIN LATERAL (
+      SELECT *
+      FROM api.governance_snapshots
+      WHERE proposal_id = f.proposal_id
+      ORDER BY snapshot_time DESC
+      LIMIT 1
+    ) s ON TRUE
+  )
+  SELECT jsonb_build_object(
+    'data', COALESCE(jsonb_agg(
+      jsonb_build_object(
+        'proposal_id', ws.proposal_id,
+        'title', ws.title,
+        'summary', ws.summary,
+        'status', ws.status,
+        'submit_time', ws.submit_time,
+        'deposit_end_time', ws.deposit_end_time,
+        'voting_start_time', ws.voting_start_time,
+        'voting_end_time', ws.voting_end_time,
+        'proposer', ws.proposer,
+        'tally', jsonb_build_object(
+          'yes', ws.yes_count,
+          'no', ws.no_count,
+          'abstain', ws.abstain_count,
+          'no_with_veto', ws.no_with_veto_count
+        ),
+        'voting_power', CASE WHEN ws.yes_power IS NOT NULL THEN jsonb_build_object(
+          'yes', ws.yes_power::text,
+          'no', ws.no_power::text,
+          'abstain', ws.abstain_power::text,
+          'no_with_veto', ws.no_with_veto_power::text,
+          'bonded_tokens', ws.bonded_tokens::text,
+          'turnout', ws.turnout,
+          'quorum_reached', ws.quorum_reached,
+          'threshold_reached', ws.threshold_reached,
+          'vetoed', ws.vetoed,
+          'passing', ws.passing
+        ) END,
+        'last_updated', ws.last_updated,
+        'last_snapshot_time', ws.last_snapshot_time
+      ) ORDER BY ws.proposal_id DESC
+    ), '[]'::jsonb),
+    'pagination', jsonb_build_object(
+      'total', (SELECT count FROM total),
+      'limit', _limit,
+      'offset', _offset,
+      'has_next', _offset + _limit < (SELECT count FROM total),
+      'has_prev', _offset > 0
+    )
+  )
+  FROM with_snapshots ws;
+$$;
+
+-- =============================================================================
+-- GRANT PERMISSIONS
+-- =============================================================================
+
+GRANT SELECT ON api.governance_snapshots TO web_anon;
+GRANT EXECUTE ON FUNCTION api.compute_stake_weighted_tally(bigint) TO web_anon;
+GRANT EXECUTE ON FUNCTION api.get_proposal_tally(bigint) TO web_anon;
+GRANT EXECUTE ON FUNCTION api.get_governance_proposals(int, int, text) TO web_anon;
+
+REVOKE EXECUTE ON FUNCTION api.snapshot_proposal_tallies() FROM PUBLIC;
+
+COMMIT;
@@ -0,0 +1,412 @@
+-- =============================================================================
+-- Migration 048: Proposal content and software upgrades
+-- Decodes the messages embedded in MsgSubmitProposal (v1 messages and
+-- v1beta1 / MsgExecLegacyContent content) into typed records, keeps
+-- software upgrade plans in their own table and estimates when a pending
+-- upgrade height will be reached from the recent average block time
+-- =============================================================================
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS api.governance_proposal_messages (
+  proposal_id BIGINT NOT NULL REFERENCES api.governance_proposals(proposal_id) ON DELETE CASCADE,
+  message_index INT NOT NULL,
+  type_url TEXT NOT NULL,
+  -- software_upgrade, cancel_upgrade, param_change, community_pool_spend,
+  -- client_update, text or other
+  kind TEXT NOT NULL,
+  authority TEXT,
+  -- Fields relevant to the kind (see api.decode_proposal_message)
+  decoded JSONB,
+  data JSONB NOT NULL,
+  PRIMARY KEY (proposal_id, message_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_proposal_messages_kind ON api.governance_proposal_messages(kind);
+
+CREATE TABLE IF NOT EXISTS api.upgrade_plans (
+  proposal_id BIGINT PRIMARY KEY REFERENCES api.governance_proposals(proposal_id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  height BIGINT,
+  info TEXT,
+  -- Deprecated time-based plans
+  plan_time TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_upgrade_plans_height ON api.upgrade_plans(height);
+CREATE INDEX IF NOT EXISTS idx_upgrade_plans_name ON api.upgrade_plans(name);
+
+-- =============================================================================
+-- DECODING
+-- =============================================================================
+
+-- Classify one proposal message (an unpacked Any with @type) and pull out the
+-- fields of its kind; legacy content wrapped in MsgExecLegacyContent is unwrapped
+CREATE OR REPLACE FUNCTION api.decode_proposal_message(_msg jsonb)
+RETURNS jsonb
+LANGUAGE sql IMMUTABLE
+AS $$
+  WITH unwrapped AS (
+    SELECT
+      CASE
+        WHEN _msg->>'@type' LIKE '%MsgExecLegacyContent' AND _msg->'content' IS NOT NULL THEN _msg->'content'
+        ELSE _msg
+      END AS msg,
+      _msg->>'authority' AS authority
+  ),
+  classified AS (
+    SELECT
+      msg,
+      msg->>'@type' AS type_url,
+      COALESCE(msg->>'authority', authority) AS authority,
+      CASE
+        WHEN msg->>'@type' LIKE '%CancelSoftwareUpgradeProposal' OR msg->>'@type' LIKE '%MsgCancelUpgrade' THEN 'cancel_upgrade'
+        WHEN msg->>'@type' LIKE '%SoftwareUpgradeProposal' OR msg->>'@type' LIKE '%MsgSoftwareUpgrade'
+          OR msg->>'@type' LIKE '%MsgIBCSoftwareUpgrade' THEN 'software_upgrade'
+        WHEN msg->>'@type' LIKE '%ParameterChangeProposal' OR msg->>'@type' LIKE '%MsgUpdateParams' THEN 'param_change'
+        WHEN msg->>'@type' LIKE '%CommunityPoolSpendProposal' OR msg->>'@type' LIKE '%MsgCommunityPoolSpend' THEN 'community_pool_spend'
+        WHEN msg->>'@type' LIKE '%ClientUpdateProposal' OR msg->>'@type' LIKE '%MsgRecoverClient'
+          OR msg->>'@type' LIKE '%MsgUpdateClient' THEN 'client_update'
+        WHEN msg->>'@type' LIKE '%TextProposal' THEN 'text'
+        ELSE 'other'
+      END AS kind
+    FROM unwrapped
+  )
+  SELECT jsonb_build_object(
+    'type_url', COALESCE(type_url, 'unknown'),
+    'kind', kind,
+    'authority', authority,
+    'decoded', CASE kind
+      WHEN 'software_upgrade' THEN jsonb_build_object(
+        'name', msg->'plan'->>'name',
+        'height', NULLIF(msg->'plan'->>'height', '0')::bigint,
+        'info', NULLIF(msg->'plan'->>'info', ''),
+        'time', CASE WHEN msg->'plan'->>'time' NOT LIKE '0001-01-01%' THEN msg->'plan'->>'time' END
+      )
+      WHEN 'cancel_upgrade' THEN '{}'::jsonb
+      WHEN 'param_change' THEN CASE
+        WHEN msg ? 'changes' THEN jsonb_build_object(
+          'changes', (
+            SELECT COALESCE(jsonb_agg(jsonb_build_object(
+              'subspace', c->>'subspace',
+              'key', c->>'key',
+              'value', c->>'value'
+            )), '[]'::jsonb)
+            FROM jsonb_array_elements(msg->'changes') AS c
+          )
+        )
+        ELSE jsonb_build_object(
+          -- cosmos.staking.v1beta1.MsgUpdateParams -> staking
+          'module', substring(type_url from '([a-z0-9_]+)\.v[0-9][a-z0-9]*\.[A-Za-z]+$'),
+          'params', msg->'params'
+        )
+      END
+      WHEN 'community_pool_spend' THEN jsonb_build_object(
+        'recipient', msg->>'recipient',
+        'amount', COALESCE(msg->'amount', '[]'::jsonb)
+      )
+      WHEN 'client_update' THEN jsonb_build_object(
+        'subject_client_id', COALESCE(
+          msg->>'subjectClientId', msg->>'subject_client_id', msg->>'clientId', msg->>'client_id'
+        ),
+        'substitute_client_id', COALESCE(msg->>'substituteClientId', msg->>'substitute_client_id')
+      )
+      WHEN 'text' THEN jsonb_build_object(
+        'title', msg->>'title',
+        'description', msg->>'description'
+      )
+    END,
+    'data', msg
+  )
+  FROM classified;
+$$;
+
+-- (Re)build the decoded messages and upgrade plan of a proposal from the raw
+-- MsgSubmitProposal data
+CREATE OR REPLACE FUNCTION api.index_proposal_content(_proposal_id bigint, _submit jsonb)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  DELETE FROM api.governance_proposal_messages WHERE proposal_id = _proposal_id;
+  DELETE FROM api.upgrade_plans WHERE proposal_id = _proposal_id;
+
+  IF _submit IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO api.governance_proposal_messages (
+    proposal_id, message_index, type_url, kind, authority, decoded, data
+  )
+  SELECT
+    _proposal_id,
+    (m.ordinality - 1)::int,
+    d->>'type_url',
+    d->>'kind',
+    d->>'authority',
+    d->'decoded',
+    d->'data'
+  FROM jsonb_array_elements(
+    CASE
+      WHEN jsonb_typeof(_submit->'messages') = 'array' THEN _submit->'messages'
+      WHEN _submit->'content' IS NOT NULL THEN jsonb_build_array(_submit->'content')
+      ELSE '[]'::jsonb
+    END
+  ) WITH ORDINALITY AS m(msg, ordinality)
+  CROSS JOIN LATERAL api.decode_proposal_message(m.msg) AS d;
+
+  INSERT INTO api.upgrade_plans (proposal_id, name, height, info, plan_time)
+  SELECT
+    _proposal_id,
+    decoded->>'name',
+    (decoded->>'height')::bigint,
+    decoded->>'info',
+    (decoded->>'time')::timestamptz
+  FROM api.governance_proposal_messages
+  WHERE proposal_id = _proposal_id
+    AND kind = 'software_upgrade'
+    AND decoded->>'name' IS NOT NULL
+  ORDER BY message_index
+  LIMIT 1;
+
+  UPDATE api.governance_proposals
+  SET proposal_type = (
+    SELECT type_url FROM api.governance_proposal_messages
+    WHERE proposal_id = _proposal_id
+    ORDER BY message_index
+    LIMIT 1
+  )
+  WHERE proposal_id = _proposal_id;
+END;
+$$;
+
+-- Same as 001 plus decoding of the proposal content
+CREATE OR REPLACE FUNCTION api.detect_proposal_submission()
+RETURNS TRIGGER AS $$
+DECLARE
+  msg_record RECORD;
+  raw_data JSONB;
+  prop_id BIGINT;
+  prop_title TEXT;
+  prop_summary TEXT;
+  prop_metadata TEXT;
+BEGIN
+  FOR msg_record IN
+    SELECT m.id, m.message_index, m.type, m.metadata, m.sender
+    FROM api.messages_main m
+    WHERE m.id = NEW.id
+    AND m.type LIKE '%MsgSubmitProposal%'
+  LOOP
+    prop_id := NULL;
+    prop_title := NULL;
+    prop_summary := NULL;
+    prop_metadata := NULL;
+
+    SELECT data INTO raw_data
+    FROM api.messages_raw
+    WHERE id = msg_record.id AND message_index = msg_record.message_index;
+
+    IF msg_record.metadata ? 'proposalId' THEN
+      prop_id := (msg_record.metadata->>'proposalId')::BIGINT;
+    END IF;
+
+    IF prop_id IS NULL THEN
+      SELECT (e.attr_value)::BIGINT INTO prop_id
+      FROM api.events_main e
+      WHERE e.id = NEW.id
+      AND e.event_type = 'submit_proposal'
+      AND e.attr_key = 'proposal_id'
+      LIMIT 1;
+    END IF;
+
+    IF raw_data IS NOT NULL THEN
+      prop_title := COALESCE(raw_data->>'title', raw_data->'content'->>'title');
+      prop_summary := COALESCE(raw_data->>'summary', raw_data->'content'->>'description');
+      prop_metadata := raw_data->>'metadata';
+    END IF;
+
+    IF prop_id IS NOT NULL THEN
+      INSERT INTO api.governance_proposals (
+        proposal_id,
+        submit_tx_hash,
+        submit_height,
+        submit_time,
+        proposer,
+        title,
+        summary,
+        metadata,
+        status
+      ) VALUES (
+        prop_id,
+        NEW.id,
+        NEW.height,
+        NEW.timestamp,
+        msg_record.sender,
+        prop_title,
+        prop_summary,
+        prop_metadata,
+        'PROPOSAL_STATUS_DEPOSIT_PERIOD'
+      )
+      ON CONFLICT (proposal_id) DO UPDATE SET
+        title = COALESCE(EXCLUDED.title, api.governance_proposals.title),
+        summary = COALESCE(EXCLUDED.summary, api.governance_proposals.summary),
+        metadata = COALESCE(EXCLUDED.metadata, api.governance_proposals.metadata),
+        last_updated = NOW();
+
+      PERFORM api.index_proposal_content(prop_id, raw_data);
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Decode the content of proposals indexed before this migration (admin only)
+CREATE OR REPLACE FUNCTION api.rebuild_proposal_content()
+RETURNS int
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  prop RECORD;
+  processed int := 0;
+BEGIN
+  FOR prop IN
+    SELECT
+      p.proposal_id,
+      (
+        SELECT r.data
+        FROM api.messages_raw r
+        JOIN api.messages_main m ON m.id = r.id AND m.message_index = r.message_index
+        WHERE r.id = p.submit_tx_hash
+          AND m.type LIKE '%MsgSubmitProposal%'
+        ORDER BY r.message_index
+        LIMIT 1
+      ) AS data
+    FROM api.governance_proposals p
+  LOOP
+    PERFORM api.index_proposal_content(prop.proposal_id, prop.data);
+    processed := processed + 1;
+  END LOOP;
+
+  RETURN processed;
+END;
+$$;
+
+-- Migrations are re-applied on every deploy: backfill only while nothing has
+-- been decoded yet (new proposals are decoded by the trigger)
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM api.governance_proposal_messages) THEN
+    PERFORM api.rebuild_proposal_content();
+  END IF;
+END;
+$$;
+
+-- =============================================================================
+-- RPC FUNCTIONS
+-- =============================================================================
+
+-- Upgrade plan with the estimated time its height is reached
+-- Estimate = latest block time + remaining blocks * average block time
+-- (get_block_time_analysis over the last _sample_blocks blocks)
+CREATE OR REPLACE FUNCTION api.upgrade_plan_json(u api.upgrade_plans, _sample_blocks int DEFAULT 1000)
+RETURNS jsonb
+LANGUAGE sql STABLE
+AS $$
+  WITH latest AS (
+    SELECT id AS height, (data->'block'->'header'->>'time')::timestamptz AS time
+    FROM api.blocks_raw
+    ORDER BY id DESC
+    LIMIT 1
+  ),
+  block_time AS (
+    SELECT (api.get_block_time_analysis(_sample_blocks)->>'avg')::numeric AS avg
+  )
+  SELECT jsonb_build_object(
+    'proposal_id', u.proposal_id,
+    'proposal_status', p.status,
+    'name', u.name,
+    'height', u.height,
+    'info', u.info,
+    'plan_time', u.plan_time,
+    'latest_height', l.height,
+    'blocks_remaining', CASE WHEN u.height IS NOT NULL THEN GREATEST(u.height - l.height, 0) END,
+    'reached', CASE
+      WHEN u.height IS NOT NULL THEN l.height >= u.height
+      WHEN u.plan_time IS NOT NULL THEN l.time >= u.plan_time
+    END,
+    'avg_block_time', bt.avg,
+    'estimated_time', CASE
+      WHEN u.height IS NULL THEN u.plan_time
+      WHEN l.height >= u.height THEN NULL
+      WHEN bt.avg IS NOT NULL THEN l.time + make_interval(secs => ((u.height - l.height) * bt.avg)::double precision)
+    END
+  )
+  FROM (SELECT 1) AS one
+  LEFT JOIN latest l ON TRUE
+  CROSS JOIN block_time bt
+  LEFT JOIN api.governance_proposals p ON p.proposal_id = u.proposal_id;
+$$;
+
+-- Upgrades whose height has not been reached, from proposals that have not
+-- been rejected or failed, soonest first
+CREATE OR REPLACE FUNCTION api.get_pending_upgrades()
+RETURNS jsonb
+LANGUAGE sql STABLE
+AS $$
+  SELECT COALESCE(jsonb_agg(
+    api.upgrade_plan_json(u) ORDER BY u.height NULLS LAST, u.plan_time, u.proposal_id
+  ), '[]'::jsonb)
+  FROM api.upgrade_plans u
+  JOIN api.governance_proposals p ON p.proposal_id = u.proposal_id
+  WHERE p.status NOT IN ('PROPOSAL_STATUS_REJECTED', 'PROPOSAL_STATUS_FAILED')
+    AND (
+      u.height > COALESCE((SELECT MAX(id) FROM api.blocks_raw), 0)
+      OR (u.height IS NULL AND u.plan_time > NOW())
+    );
+$$;
+
+-- Decoded messages of a proposal and its upgrade plan, if any
+CREATE OR REPLACE FUNCTION api.get_proposal_content(_proposal_id bigint)
+RETURNS jsonb
+LANGUAGE sql STABLE
+AS $$
+  SELECT jsonb_build_object(
+    'proposal_id', p.proposal_id,
+    'proposal_type', p.proposal_type,
+    'messages', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'message_index', m.message_index,
+        'type_url', m.type_url,
+        'kind', m.kind,
+        'authority', m.authority,
+        'decoded', m.decoded,
+        'data', m.data
+      ) ORDER BY m.message_index), '[]'::jsonb)
+      FROM api.governance_proposal_messages m
+      WHERE m.proposal_id = p.proposal_id
+    ),
+    'upgrade_plan', (
+      SELECT api.upgrade_plan_json(u)
+      FROM api.upgrade_plans u
+      WHERE u.proposal_id = p.proposal_id
+    )
+  )
+  FROM api.governance_proposals p
+  WHERE p.proposal_id = _proposal_id;
+$$;
+
+-- =============================================================================
+-- GRANT PERMISSIONS
+-- =============================================================================
+
+GRANT SELECT ON api.governance_proposal_messages TO web_anon;
+GRANT SELECT ON api.upgrade_plans TO web_anon;
+GRANT EXECUTE ON FUNCTION api.get_pending_upgrades() TO web_anon;
+GRANT EXECUTE ON FUNCTION api.get_proposal_content(bigint) TO web_anon;
+
+REVOKE EXECUTE ON FUNCTION api.rebuild_proposal_content() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION api.rebuild_proposal_content() TO analytics_admin;
+
+COMMIT;
@@ -0,0 +1,202 @@
+-- =============================================================================
+-- Migration 049: Module params with change history
+-- chain-params-daemon reports the params of each module (staking, slashing,
+-- distribution, gov, mint, feemarket, evm) through api.record_module_params;
+-- the current value of every key lives in api.module_params and each change
+-- is appended to api.chain_param_history with the block height at which it
+-- was observed and, when one matches, the governance proposal behind it
+-- api.chain_params keeps its flat keys (bond_denom, gov_quorum, ...)
+-- =============================================================================
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS api.module_params (
+  module TEXT NOT NULL,
+  key TEXT NOT NULL,
+  value JSONB,
+  updated_height BIGINT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (module, key)
+);
+
+CREATE TABLE IF NOT EXISTS api.chain_param_history (
+  id BIGSERIAL PRIMARY KEY,
+  module TEXT NOT NULL,
+  key TEXT NOT NULL,
+  value JSONB,
+  -- NULL on the first observation of a key
+  previous_value JSONB,
+  -- Latest indexed block when the change was observed
+  height BIGINT,
+  observed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  proposal_id BIGINT
+);
+
+CREATE INDEX IF NOT EXISTS idx_chain_param_history_key ON api.chain_param_history(module, key, id DESC);
+CREATE INDEX IF NOT EXISTS idx_chain_param_history_proposal ON api.chain_param_history(proposal_id) WHERE proposal_id IS NOT NULL;
+
+-- =============================================================================
+-- RECORDING
+-- =============================================================================
+
+-- Latest proposal that set _module's _key: a MsgUpdateParams of the module
+-- carrying the key, or a legacy ParameterChangeProposal on its subspace
+-- Keys are compared without case or underscores (max_validators = MaxValidators)
+CREATE OR REPLACE FUNCTION api.find_param_change_proposal(_module text, _key text)
+RETURNS bigint
+LANGUAGE sql STABLE
+AS $$
+  SELECT m.proposal_id
+  FROM api.governance_proposal_messages m
+  JOIN api.governance_proposals p ON p.proposal_id = m.proposal_id
+  WHERE m.kind = 'param_change'
+    AND p.status NOT IN ('PROPOSAL_STATUS_REJECTED', 'PROPOSAL_STATUS_FAILED')
+    AND (
+      (
+        m.decoded->>'module' = _module
+        AND EXISTS (
+          SELECT 1 FROM jsonb_object_keys(COALESCE(m.decoded->'params', '{}'::jsonb)) AS k
+          WHERE lower(replace(k, '_', '')) = lower(replace(_key, '_', ''))
+        )
+      )
+      OR EXISTS (
+        SELECT 1 FROM jsonb_array_elements(COALESCE(m.decoded->'changes', '[]'::jsonb)) AS c
+        WHERE c->>'subspace' = _module
+          AND lower(replace(c->>'key', '_', '')) = lower(replace(_key, '_', ''))
+      )
+    )
+  ORDER BY m.proposal_id DESC
+  LIMIT 1;
+$$;
+
+-- Store the params of a module (top-level keys of _params), appending a
+-- history row for every key that is new or whose value changed
+-- Returns the number of changed keys
+CREATE OR REPLACE FUNCTION api.record_module_params(_module text, _params jsonb)
+RETURNS int
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  param RECORD;
+  current_height bigint;
+  changed int := 0;
+BEGIN
+  SELECT MAX(id) INTO current_height FROM api.blocks_raw;
+
+  FOR param IN
+    SELECT n.key, n.value, c.value AS previous_value, c.key IS NOT NULL AS known
+    FROM jsonb_each(_params) AS n
+    LEFT JOIN api.module_params c ON c.module = _module AND c.key = n.key
+    WHERE c.key IS NULL OR c.value IS DISTINCT FROM n.value
+  LOOP
+    INSERT INTO api.module_params (module, key, value, updated_height, updated_at)
+    VALUES (_module, param.key, param.value, current_height, NOW())
+    ON CONFLICT (module, key) DO UPDATE SET
+      value = EXCLUDED.value,
+      updated_height = EXCLUDED.updated_height,
+      updated_at = EXCLUDED.updated_at;
+
+    INSERT INTO api.chain_param_history (module, key, value, previous_value, height, proposal_id)
+    VALUES (
+      _module,
+      param.key,
+      param.value,
+      param.previous_value,
+      current_height,
+      CASE WHEN param.known THEN api.find_param_change_proposal(_module, param.key) END
+    );
+
+    changed := changed + 1;
+  END LOOP;
+
+  RETURN changed;
+END;
+$$;
+
+-- =============================================================================
+-- RPC FUNCTIONS
+-- =============================================================================
+
+-- Current params by module: {staking: {params: {...}, updated_height, updated_at}, ...}
+CREATE OR REPLACE FUNCTION api.get_module_params(_module text DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE sql STABLE
+AS $$
+  SELECT COALESCE(jsonb_object_agg(module, jsonb_build_object(
+    'params', params,
+    'updated_height', updated_height,
+    'updated_at', updated_at
+  )), '{}'::jsonb)
+  FROM (
+    SELECT
+      module,
+      jsonb_object_agg(key, value) AS params,
+      MAX(updated_height) AS updated_height,
+      MAX(updated_at) AS updated_at
+    FROM api.module_params
+    WHERE _module IS NULL OR module = _module
+    GROUP BY module
+  ) m;
+$$;
+
+-- Changes of a module's params, newest first, optionally for one key
+CREATE OR REPLACE FUNCTION api.get_chain_param_history(
+  _module text,
+  _key text DEFAULT NULL,
+  _limit int DEFAULT 50,
+  _offset int DEFAULT 0
+)
+RETURNS jsonb
+LANGUAGE sql STABLE
+AS $$
+  WITH filtered AS (
+    SELECT h.*
+    FROM api.chain_param_history h
+    WHERE h.module = _module
+      AND (_key IS NULL OR h.key = _key)
+  ),
+  paginated AS (
+    SELECT * FROM filtered
+    ORDER BY id DESC
+    LIMIT _limit OFFSET _offset
+  ),
+  total AS (
+    SELECT COUNT(*) AS count FROM filtered
+  )
+  SELECT jsonb_build_object(
+    'data', COALESCE(jsonb_agg(
+      jsonb_build_object(
+        'module', p.module,
+        'key', p.key,
+        'value', p.value,
+        'previous_value', p.previous_value,
+        'height', p.height,
+        'observed_at', p.observed_at,
+        'proposal_id', p.proposal_id,
+        'proposal_title', gp.title
+      ) ORDER BY p.id DESC
+    ), '[]'::jsonb),
+    'pagination', jsonb_build_object(
+      'total', (SELECT count FROM total),
+      'limit', _limit,
+      'offset', _offset,
+      'has_next', _offset + _limit < (SELECT count FROM total),
+      'has_prev', _offset > 0
+    )
+  )
+  FROM paginated p
+  LEFT JOIN api.governance_proposals gp ON gp.proposal_id = p.proposal_id;
+$$;
+
+-- =============================================================================
+-- GRANT PERMISSIONS
+-- =============================================================================
+
+GRANT SELECT ON api.module_params TO web_anon;
+GRANT SELECT ON api.chain_param_history TO web_anon;
+GRANT EXECUTE ON FUNCTION api.get_module_params(text) TO web_anon;
+GRANT EXECUTE ON FUNCTION api.get_chain_param_history(text, text, int, int) TO web_anon;
+
+REVOKE EXECUTE ON FUNCTION api.record_module_params(text, jsonb) FROM PUBLIC;
+
+COMMIT;
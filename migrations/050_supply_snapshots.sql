@@ -0,0 +1,155 @@
+-- =============================================================================
+-- Migration 050: Supply snapshots
+-- chain-params-daemon periodically records, per denom, the total supply, the
+-- staking pools, the community pool and module account balances through
+-- api.record_supply_snapshot; circulating supply is derived here
+-- =============================================================================
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS api.supply_snapshots (
+  id BIGSERIAL PRIMARY KEY,
+  denom TEXT NOT NULL,
+  -- Latest indexed block when the snapshot was taken
+  height BIGINT,
+  snapshot_time TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  total_supply NUMERIC NOT NULL,
+  -- Staking pools, only for the bond denom
+  bonded NUMERIC,
+  not_bonded NUMERIC,
+  community_pool NUMERIC,
+  -- {module account name: balance}
+  module_accounts JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- Module balances subtracted from circulating supply
+  locked_module_balance NUMERIC NOT NULL DEFAULT 0,
+  circulating_supply NUMERIC NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_supply_snapshots_denom ON api.supply_snapshots(denom, snapshot_time DESC);
+
+-- =============================================================================
+-- RECORDING
+-- =============================================================================
+
+-- Store a supply snapshot of one denom
+-- Circulating = total - community pool - balances of module accounts other
+-- than the staking pools, distribution (community pool and unclaimed rewards)
+-- and gov (deposits), whose funds belong to delegators and depositors
+CREATE OR REPLACE FUNCTION api.record_supply_snapshot(
+  _denom text,
+  _total_supply numeric,
+  _bonded numeric,
+  _not_bonded numeric,
+  _community_pool numeric,
+  _module_accounts jsonb
+)
+RETURNS void
+LANGUAGE sql
+AS $$
+  WITH locked AS (
+    SELECT COALESCE(SUM(value::numeric), 0) AS balance
+    FROM jsonb_each_text(COALESCE(_module_accounts, '{}'::jsonb))
+    WHERE key NOT IN ('bonded_tokens_pool', 'not_bonded_tokens_pool', 'distribution', 'gov')
+  )
+  INSERT INTO api.supply_snapshots (
+    denom, height, total_supply, bonded, not_bonded, community_pool,
+    module_accounts, locked_module_balance, circulating_supply
+  )
+  SELECT
+    _denom,
+    (SELECT MAX(id) FROM api.blocks_raw),
+    _total_supply,
+    _bonded,
+    _not_bonded,
+    _community_pool,
+    COALESCE(_module_accounts, '{}'::jsonb),
+    l.balance,
+    GREATEST(_total_supply - COALESCE(_community_pool, 0) - l.balance, 0)
+  FROM locked l;
+$$;
+
+-- =============================================================================
+-- RPC FUNCTIONS
+-- =============================================================================
+
+-- Latest supply breakdown of a denom (default: the bond denom)
+CREATE OR REPLACE FUNCTION api.get_supply_breakdown(_denom text DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE sql STABLE
+AS $$
+  SELECT jsonb_build_object(
+    'denom', s.denom,
+    'height', s.height,
+    'snapshot_time', s.snapshot_time,
+    'total_supply', s.total_supply::text,
+    'circulating_supply', s.circulating_supply::text,
+    'bonded', s.bonded::text,
+    'not_bonded', s.not_bonded::text,
+    'community_pool', s.community_pool::text,
+    'locked_module_balance', s.locked_module_balance::text,
+    'module_accounts', s.module_accounts,
+    'bonded_ratio', CASE WHEN s.total_supply > 0 THEN round(s.bonded / s.total_supply, 8) END,
+    'circulating_ratio', CASE WHEN s.total_supply > 0 THEN round(s.circulating_supply / s.total_supply, 8) END
+  )
+  FROM api.supply_snapshots s
+  WHERE s.denom = COALESCE(_denom, (SELECT value FROM api.chain_params WHERE key = 'bond_denom'))
+  ORDER BY s.snapshot_time DESC
+  LIMIT 1;
+$$;
+
+-- Supply series over the last _days, one point (the last snapshot) per
+-- _interval bucket ('hour', 'day', 'week' or 'month')
+CREATE OR REPLACE FUNCTION api.get_supply_history(
+  _denom text DEFAULT NULL,
+  _days int DEFAULT 30,
+  _interval text DEFAULT 'day'
+)
+RETURNS jsonb
+LANGUAGE sql STABLE
+AS $$
+  WITH params AS (
+    SELECT
+      COALESCE(_denom, (SELECT value FROM api.chain_params WHERE key = 'bond_denom')) AS denom,
+      CASE WHEN _interval IN ('hour', 'day', 'week', 'month') THEN _interval ELSE 'day' END AS bucket
+  ),
+  points AS (
+    SELECT DISTINCT ON (date_trunc(p.bucket, s.snapshot_time))
+      date_trunc(p.bucket, s.snapshot_time) AS bucket_time,
+      s.*
+    FROM api.supply_snapshots s
+    CROSS JOIN params p
+    WHERE s.denom = p.denom
+      AND s.snapshot_time >= NOW() - make_interval(days => _days)
+    ORDER BY date_trunc(p.bucket, s.snapshot_time), s.snapshot_time DESC
+  )
+  SELECT jsonb_build_object(
+    'denom', (SELECT denom FROM params),
+    'interval', (SELECT bucket FROM params),
+    'days', _days,
+    'data', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'time', pt.bucket_time,
+        'height', pt.height,
+        'total_supply', pt.total_supply::text,
+        'circulating_supply', pt.circulating_supply::text,
+        'bonded', pt.bonded::text,
+        'not_bonded', pt.not_bonded::text,
+        'community_pool', pt.community_pool::text,
+        'locked_module_balance', pt.locked_module_balance::text
+      ) ORDER BY pt.bucket_time)
+      FROM points pt
+    ), '[]'::jsonb)
+  );
+$$;
+
+-- =============================================================================
+-- GRANT PERMISSIONS
+-- =============================================================================
+
+GRANT SELECT ON api.supply_snapshots TO web_anon;
+GRANT EXECUTE ON FUNCTION api.get_supply_breakdown(text) TO web_anon;
+GRANT EXECUTE ON FUNCTION api.get_supply_history(text, int, text) TO web_anon;
+
+REVOKE EXECUTE ON FUNCTION api.record_supply_snapshot(text, numeric, numeric, numeric, numeric, jsonb) FROM PUBLIC;
+
+COMMIT;
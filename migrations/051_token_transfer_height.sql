@@ -0,0 +1,21 @@
+-- =============================================================================
+-- Migration 051: Block height on token transfers
+-- tx_id is a hash, so ordering transfers by it is not chronological; the
+-- decoder now writes the block height with each transfer and existing rows
+-- are backfilled from transactions_main
+-- =============================================================================
+
+BEGIN;
+
+ALTER TABLE api.evm_token_transfers ADD COLUMN IF NOT EXISTS height BIGINT;
+
+UPDATE api.evm_token_transfers tt
+SET height = t.height
+FROM api.transactions_main t
+WHERE t.id = tt.tx_id
+  AND tt.height IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_token_transfer_token_height
+  ON api.evm_token_transfers(token_address, height DESC, log_index);
+
+COMMIT;
@@ -0,0 +1,146 @@
+-- =============================================================================
+-- Migration 052: Inline-only verification sources
+-- api.submit_contract_verification is callable by web_anon, and solc resolves
+-- 'urls' entries and absolute or '..' paths against the local filesystem;
+-- submissions now need inline content for every source under a relative path
+-- Errors stored by earlier runs quoted compiler output (including source
+-- lines) and are reduced to a generic message
+-- =============================================================================
+
+BEGIN;
+
+-- Queue a verification request and wake the verifier
+-- Accepts either a full standard-JSON input or a sources map
+-- ({"path.sol": "source"}) plus optional compiler settings
+-- Resubmitting identical input while a request is open returns that request
+-- Every source must carry its content inline: 'urls' entries and absolute or
+-- '..' paths would let solc read files from the verifier's filesystem
+CREATE OR REPLACE FUNCTION api.submit_contract_verification(
+  _address text,
+  _compiler_version text,
+  _contract_name text,
+  _standard_json jsonb DEFAULT NULL,
+  _sources jsonb DEFAULT NULL,
+  _settings jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = api, pg_temp
+AS $$
+DECLARE
+  addr text := lower(_address);
+  solc_input jsonb;
+  hash text;
+  request_id bigint;
+BEGIN
+  IF addr !~ '^0x[0-9a-f]{40}$' THEN
+    RAISE EXCEPTION 'invalid contract address: %', _address USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF _compiler_version !~ '^v?[0-9]+\.[0-9]+\.[0-9]+(\+commit\.[0-9a-f]{8})?$' THEN
+    RAISE EXCEPTION 'invalid compiler version: %', _compiler_version USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF _contract_name IS NULL OR _contract_name !~ '^[^:]+:[A-Za-z_$][A-Za-z0-9_$]*$' THEN
+    RAISE EXCEPTION 'contract name must be fully qualified (path:Name)' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF _standard_json IS NOT NULL THEN
+    solc_input := _standard_json;
+  ELSIF _sources IS NOT NULL AND jsonb_typeof(_sources) = 'object' THEN
+    solc_input := jsonb_build_object(
+      'language', 'Solidity',
+      'sources', (
+        SELECT jsonb_object_agg(path, jsonb_build_object('content', content))
+        FROM jsonb_each_text(_sources) AS s(path, content)
+      ),
+      'settings', COALESCE(_settings, '{}'::jsonb)
+    );
+  ELSE
+    RAISE EXCEPTION 'either _standard_json or _sources is required' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF solc_input->>'language' IS DISTINCT FROM 'Solidity' OR jsonb_typeof(solc_input->'sources') <> 'object' THEN
+    RAISE EXCEPTION 'input must be Solidity standard-JSON with a sources object' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_each(solc_input->'sources') AS s(path, source)
+    WHERE jsonb_typeof(s.source) <> 'object'
+      OR jsonb_typeof(s.source->'content') IS DISTINCT FROM 'string'
+      OR s.source ? 'urls'
+  ) THEN
+    RAISE EXCEPTION 'every source must have inline content; urls are not supported' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_object_keys(solc_input->'sources') AS path
+    WHERE path ~ '^(/|[A-Za-z]:|\\)' OR path ~ '(^|[/\\])\.\.([/\\]|$)'
+  ) THEN
+    RAISE EXCEPTION 'source paths must be relative and must not contain ..' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF NOT (solc_input->'sources' ? split_part(_contract_name, ':', 1)) THEN
+    RAISE EXCEPTION 'source file % not found in input', split_part(_contract_name, ':', 1) USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF octet_length(solc_input::text) > 5 * 1024 * 1024 THEN
+    RAISE EXCEPTION 'input exceeds 5 MB' USING ERRCODE = 'program_limit_exceeded';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM api.evm_contracts WHERE address = addr AND is_verified) THEN
+    RAISE EXCEPTION 'contract % is already verified', addr USING ERRCODE = 'unique_violation';
+  END IF;
+
+  hash := md5(_compiler_version || _contract_name || solc_input::text);
+
+  SELECT id INTO request_id
+  FROM api.contract_verifications
+  WHERE address = addr
+    AND input_hash = hash
+    AND status IN ('pending', 'compiling');
+
+  IF request_id IS NULL THEN
+    IF (SELECT COUNT(*) FROM api.contract_verifications
+        WHERE address = addr AND status IN ('pending', 'compiling')) >= 5 THEN
+      RAISE EXCEPTION 'too many open verification requests for %', addr USING ERRCODE = 'program_limit_exceeded';
+    END IF;
+
+    INSERT INTO api.contract_verifications (address, compiler_version, contract_name, input, input_hash)
+    VALUES (addr, _compiler_version, _contract_name, solc_input, hash)
+    RETURNING id INTO request_id;
+
+    PERFORM pg_notify('contract_verification', request_id::text);
+  END IF;
+
+  RETURN api.get_contract_verification(request_id);
+END;
+$$;
+
+-- Only the legacy formats: raw solc messages after 'compilation failed: ' and
+-- stderr after 'solc failed: '. The verifier now writes one
+-- 'Type [code] [at file:line:column]' line per error, which is kept, so
+-- re-applying this migration leaves current errors alone
+UPDATE api.contract_verifications
+SET error = 'compilation failed'
+WHERE error LIKE 'solc failed:%'
+  OR (
+    error LIKE 'compilation failed:%'
+    AND error !~ '^compilation failed: [A-Za-z]+( [0-9]+)?( at [^\n]+)?(\n[A-Za-z]+( [0-9]+)?( at [^\n]+)?)*$'
+  );
+
+-- Open requests submitted with urls are failed rather than compiled
+UPDATE api.contract_verifications v
+SET status = 'failed',
+    error = 'every source must have inline content; urls are not supported',
+    completed_at = NOW()
+WHERE v.status IN ('pending', 'compiling')
+  AND EXISTS (
+    SELECT 1 FROM jsonb_each(v.input->'sources') AS s(path, source)
+    WHERE jsonb_typeof(s.source) <> 'object'
+      OR jsonb_typeof(s.source->'content') IS DISTINCT FROM 'string'
+      OR s.source ? 'urls'
+  );
+
+COMMIT;
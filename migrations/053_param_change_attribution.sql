@@ -0,0 +1,292 @@
+-- =============================================================================
+-- Migration 053: Stricter param change attribution
+-- A param change is attributed to a proposal only when the proposal passed,
+-- its voting ended before the change was observed, it proposed the observed
+-- value and it has not already been attributed to an earlier change of the
+-- same key. /cosmos.evm.vm.v1.MsgUpdateParams is recorded under module evm
+-- (as the chain-params daemon does) instead of vm.
+-- =============================================================================
+
+BEGIN;
+
+-- =============================================================================
+-- PROPOSAL CONTENT
+-- =============================================================================
+
+-- Classify one proposal message (an unpacked Any with @type) and pull out the
+-- fields of its kind; legacy content wrapped in MsgExecLegacyContent is unwrapped
+-- Unchanged from migration 048 except for the module of EVM param changes
+CREATE OR REPLACE FUNCTION api.decode_proposal_message(_msg jsonb)
+RETURNS jsonb
+LANGUAGE sql IMMUTABLE
+AS $$
+  WITH unwrapped AS (
+    SELECT
+      CASE
+        WHEN _msg->>'@type' LIKE '%MsgExecLegacyContent' AND _msg->'content' IS NOT NULL THEN _msg->'content'
+        ELSE _msg
+      END AS msg,
+      _msg->>'authority' AS authority
+  ),
+  classified AS (
+    SELECT
+      msg,
+      msg->>'@type' AS type_url,
+      COALESCE(msg->>'authority', authority) AS authority,
+      CASE
+        WHEN msg->>'@type' LIKE '%CancelSoftwareUpgradeProposal' OR msg->>'@type' LIKE '%MsgCancelUpgrade' THEN 'cancel_upgrade'
+        WHEN msg->>'@type' LIKE '%SoftwareUpgradeProposal' OR msg->>'@type' LIKE '%MsgSoftwareUpgrade'
+          OR msg->>'@type' LIKE '%MsgIBCSoftwareUpgrade' THEN 'software_upgrade'
+        WHEN msg->>'@type' LIKE '%ParameterChangeProposal' OR msg->>'@type' LIKE '%MsgUpdateParams' THEN 'param_change'
+        WHEN msg->>'@type' LIKE '%CommunityPoolSpendProposal' OR msg->>'@type' LIKE '%MsgCommunityPoolSpend' THEN 'community_pool_spend'
+        WHEN msg->>'@type' LIKE '%ClientUpdateProposal' OR msg->>'@type' LIKE '%MsgRecoverClient'
+          OR msg->>'@type' LIKE '%MsgUpdateClient' THEN 'client_update'
+        WHEN msg->>'@type' LIKE '%TextProposal' THEN 'text'
+        ELSE 'other'
+      END AS kind
+    FROM unwrapped
+  )
+  SELECT jsonb_build_object(
+    'type_url', COALESCE(type_url, 'unknown'),
+    'kind', kind,
+    'authority', authority,
+    'decoded', CASE kind
+      WHEN 'software_upgrade' THEN jsonb_build_object(
+        'name', msg->'plan'->>'name',
+        'height', NULLIF(msg->'plan'->>'height', '0')::bigint,
+        'info', NULLIF(msg->'plan'->>'info', ''),
+        'time', CASE WHEN msg->'plan'->>'time' NOT LIKE '0001-01-01%' THEN msg->'plan'->>'time' END
+      )
+      WHEN 'cancel_upgrade' THEN '{}'::jsonb
+      WHEN 'param_change' THEN CASE
+        WHEN msg ? 'changes' THEN jsonb_build_object(
+          'changes', (
+            SELECT COALESCE(jsonb_agg(jsonb_build_object(
+              'subspace', c->>'subspace',
+              'key', c->>'key',
+              'value', c->>'value'
+            )), '[]'::jsonb)
+            FROM jsonb_array_elements(msg->'changes') AS c
+          )
+        )
+        ELSE jsonb_build_object(
+          -- cosmos.staking.v1beta1.MsgUpdateParams -> staking; the EVM module
+          -- lives in the vm package of cosmos/evm but is recorded as evm
+          'module', CASE
+            WHEN type_url LIKE '/cosmos.evm.vm.%' THEN 'evm'
+            ELSE substring(type_url from '([a-z0-9_]+)\.v[0-9][a-z0-9]*\.[A-Za-z]+$')
+          END,
+          'params', msg->'params'
+        )
+      END
+      WHEN 'community_pool_spend' THEN jsonb_build_object(
+        'recipient', msg->>'recipient',
+        'amount', COALESCE(msg->'amount', '[]'::jsonb)
+      )
+      WHEN 'client_update' THEN jsonb_build_object(
+        'subject_client_id', COALESCE(
+          msg->>'subjectClientId', msg->>'subject_client_id', msg->>'clientId', msg->>'client_id'
+        ),
+        'substitute_client_id', COALESCE(msg->>'substituteClientId', msg->>'substitute_client_id')
+      )
+      WHEN 'text' THEN jsonb_build_object(
+        'title', msg->>'title',
+        'description', msg->>'description'
+      )
+    END,
+    'data', msg
+  )
+  FROM classified;
+$$;
+
+-- Param changes decoded before this migration (idempotent)
+UPDATE api.governance_proposal_messages
+SET decoded = jsonb_set(decoded, '{module}', '"evm"')
+WHERE kind = 'param_change'
+  AND type_url LIKE '/cosmos.evm.vm.%'
+  AND decoded->>'module' IS DISTINCT FROM 'evm';
+
+-- =============================================================================
+-- ATTRIBUTION
+-- =============================================================================
+
+-- Comparable form of a param value: keys without case or underscores,
+-- numeric strings as numbers (0.05 = "0.050000000000000000") and durations
+-- as seconds ({"seconds": "60", "nanos": 0} = "60s" = "60.000s")
+CREATE OR REPLACE FUNCTION api.normalize_param_value(_value jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql IMMUTABLE
+AS $$
+DECLARE
+  result jsonb;
+BEGIN
+  CASE jsonb_typeof(_value)
+    WHEN 'object' THEN
+      IF (SELECT array_agg(k ORDER BY k) FROM jsonb_object_keys(_value) AS k) = ARRAY['nanos', 'seconds']
+        AND (_value->>'seconds') ~ '^-?[0-9]+$' AND (_value->>'nanos') ~ '^-?[0-9]+$' THEN
+        RETURN to_jsonb(
+          trim_scale((_value->>'seconds')::numeric + (_value->>'nanos')::numeric / 1000000000)::text || 's'
+        );
+      END IF;
+      SELECT COALESCE(jsonb_object_agg(lower(replace(key, '_', '')), api.normalize_param_value(value)), '{}'::jsonb)
+      INTO result
+      FROM jsonb_each(_value);
+      RETURN result;
+    WHEN 'array' THEN
+      SELECT COALESCE(jsonb_agg(api.normalize_param_value(value) ORDER BY ordinality), '[]'::jsonb)
+      INTO result
+      FROM jsonb_array_elements(_value) WITH ORDINALITY;
+      RETURN result;
+    WHEN 'string' THEN
+      IF (_value #>> '{}') ~ '^-?[0-9]+(\.[0-9]+)?$' THEN
+        RETURN to_jsonb((_value #>> '{}')::numeric);
+      END IF;
+      IF (_value #>> '{}') ~ '^-?[0-9]+(\.[0-9]+)?s$' THEN
+        RETURN to_jsonb(trim_scale(rtrim(_value #>> '{}', 's')::numeric)::text || 's');
+      END IF;
+      RETURN _value;
+    ELSE
+      RETURN _value;
+  END CASE;
+END;
+$$;
+
+-- Value proposed by a legacy ParameterChangeProposal change: JSON text
+-- ("\"100\"", "{...}"), or a bare string when it does not parse
+CREATE OR REPLACE FUNCTION api.parse_param_change_value(_value text)
+RETURNS jsonb
+LANGUAGE plpgsql IMMUTABLE
+AS $$
+BEGIN
+  RETURN _value::jsonb;
+EXCEPTION WHEN invalid_text_representation THEN
+  RETURN to_jsonb(_value);
+END;
+$$;
+
+-- Attribution rules a history row was recorded under: NULL for migration 049,
+-- 2 for the rules below; bump when the rules change so old rows are redone
+ALTER TABLE api.chain_param_history ADD COLUMN IF NOT EXISTS attribution_version SMALLINT;
+
+DROP FUNCTION IF EXISTS api.find_param_change_proposal(text, text);
+
+-- Passed proposal that set _module's _key to _value: a MsgUpdateParams of the
+-- module carrying the key, or a legacy ParameterChangeProposal on its subspace
+-- Only proposals whose voting ended by _observed_at and that no earlier change
+-- of the key was attributed to are considered; the most recent one wins
+-- Keys are compared without case or underscores (max_validators = MaxValidators)
+CREATE OR REPLACE FUNCTION api.find_param_change_proposal(
+  _module text,
+  _key text,
+  _value jsonb,
+  _observed_at timestamptz
+)
+RETURNS bigint
+LANGUAGE sql STABLE
+AS $$
+  SELECT m.proposal_id
+  FROM api.governance_proposal_messages m
+  JOIN api.governance_proposals p ON p.proposal_id = m.proposal_id
+  WHERE m.kind = 'param_change'
+    AND p.status = 'PROPOSAL_STATUS_PASSED'
+    AND p.voting_end_time <= _observed_at
+    AND (
+      (
+        m.decoded->>'module' = _module
+        AND EXISTS (
+          SELECT 1 FROM jsonb_each(COALESCE(m.decoded->'params', '{}'::jsonb)) AS k
+          WHERE lower(replace(k.key, '_', '')) = lower(replace(_key, '_', ''))
+            AND api.normalize_param_value(k.value) = api.normalize_param_value(_value)
+        )
+      )
+      OR EXISTS (
+        SELECT 1 FROM jsonb_array_elements(COALESCE(m.decoded->'changes', '[]'::jsonb)) AS c
+        WHERE c->>'subspace' = _module
+          AND lower(replace(c->>'key', '_', '')) = lower(replace(_key, '_', ''))
+          AND api.normalize_param_value(api.parse_param_change_value(c->>'value')) = api.normalize_param_value(_value)
+      )
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM api.chain_param_history h
+      WHERE h.proposal_id = m.proposal_id
+        AND h.module = _module
+        AND h.key = _key
+    )
+  ORDER BY p.voting_end_time DESC, m.proposal_id DESC
+  LIMIT 1;
+$$;
+
+-- Unchanged from migration 049 except for the attribution call and version
+CREATE OR REPLACE FUNCTION api.record_module_params(_module text, _params jsonb)
+RETURNS int
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  param RECORD;
+  current_height bigint;
+  changed int := 0;
+BEGIN
+  SELECT MAX(id) INTO current_height FROM api.blocks_raw;
+
+  FOR param IN
+    SELECT n.key, n.value, c.value AS previous_value, c.key IS NOT NULL AS known
+    FROM jsonb_each(_params) AS n
+    LEFT JOIN api.module_params c ON c.module = _module AND c.key = n.key
+    WHERE c.key IS NULL OR c.value IS DISTINCT FROM n.value
+  LOOP
+    INSERT INTO api.module_params (module, key, value, updated_height, updated_at)
+    VALUES (_module, param.key, param.value, current_height, NOW())
+    ON CONFLICT (module, key) DO UPDATE SET
+      value = EXCLUDED.value,
+      updated_height = EXCLUDED.updated_height,
+      updated_at = EXCLUDED.updated_at;
+
+    INSERT INTO api.chain_param_history (
+      module, key, value, previous_value, height, proposal_id, attribution_version
+    )
+    VALUES (
+      _module,
+      param.key,
+      param.value,
+      param.previous_value,
+      current_height,
+      CASE WHEN param.known THEN api.find_param_change_proposal(_module, param.key, param.value, NOW()) END,
+      2
+    );
+
+    changed := changed + 1;
+  END LOOP;
+
+  RETURN changed;
+END;
+$$;
+
+-- Re-attribute changes recorded under older rules, oldest first; a no-op
+-- once every row is at version 2
+UPDATE api.chain_param_history
+SET proposal_id = NULL
+WHERE attribution_version IS DISTINCT FROM 2
+  AND proposal_id IS NOT NULL;
+
+DO $$
+DECLARE
+  change RECORD;
+BEGIN
+  FOR change IN
+    SELECT id, module, key, value, previous_value, observed_at
+    FROM api.chain_param_history
+    WHERE attribution_version IS DISTINCT FROM 2
+    ORDER BY id
+  LOOP
+    UPDATE api.chain_param_history
+    SET
+      proposal_id = CASE WHEN change.previous_value IS NOT NULL
+        THEN api.find_param_change_proposal(change.module, change.key, change.value, change.observed_at)
+      END,
+      attribution_version = 2
+    WHERE id = change.id;
+  END LOOP;
+END;
+$$;
+
+COMMIT;
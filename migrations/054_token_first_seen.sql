@@ -0,0 +1,22 @@
+-- =============================================================================
+-- Migration 054: First-seen height of tokens
+-- The decoder now records the tx and height of a token's earliest transfer;
+-- tokens inserted before that are backfilled from api.evm_token_transfers
+-- (idempotent: only rows without a height are touched)
+-- =============================================================================
+
+BEGIN;
+
+UPDATE api.evm_tokens tk
+SET first_seen_height = f.height,
+    first_seen_tx = f.tx_id
+FROM (
+  SELECT DISTINCT ON (token_address) token_address, height, tx_id
+  FROM api.evm_token_transfers
+  WHERE height IS NOT NULL
+  ORDER BY token_address, height, log_index
+) f
+WHERE f.token_address = tk.address
+  AND tk.first_seen_height IS NULL;
+
+COMMIT;
@@ -5,6 +5,8 @@
 
 import type {
 	PaginatedResponse,
+	CursorPaginatedResponse,
+	BlockRaw,
 	Transaction,
 	TransactionDetail,
 	AddressStats,
@@ -12,6 +14,13 @@ import type {
 	SearchResult,
 	GovernanceProposal,
 	ProposalSnapshot,
+	ProposalTally,
+	ProposalContent,
+	UpgradePlan,
+	ProposalVote,
+	ProposalDeposits,
+	AddressVote,
+	VoteOption,
 	IbcStats,
 	IbcTransfer,
 	IbcConnection,
@@ -20,11 +29,88 @@ import type {
 	IbcChainSummary,
 	IbcChannelActivity,
 	IbcVolumeTimeSeries,
+	EvmTokenTransfer,
+	EvmContract,
+	EvmDecodeFailure,
+	EvmContractSummary,
+	EvmBlockFee,
+	EvmFeeHistory,
+	GasOracle,
+	Validator,
+	ValidatorStatus,
+	ValidatorsUptime,
+	ValidatorUptime,
+	ProposerStats,
+	Delegation,
+	ValidatorDelegator,
+	UnbondingDelegation,
+	StakingActivity,
+	StakingActivityType,
+	ChainParams,
+	ChainParamChange,
+	ChainParamModule,
+	SupplyBreakdown,
+	SupplyHistory,
+	SupplyInterval,
+	ContractVerification,
+	ContractVerificationSubmission,
+	ContractSource,
+	TokenHolder,
+	TokenBalance,
 	ResolvedDenom
 } from './types'
+import {
+	YaciAbortError,
+	YaciHttpError,
+	YaciNetworkError,
+	YaciNotFoundError,
+	YaciPostgrestError,
+	YaciRateLimitError,
+	YaciTimeoutError,
+	isRetryableError,
+	type PostgrestErrorBody
+} from './errors'
+
+export type FetchLike = (input: string, init?: RequestInit) => Promise<Response>
+
+export interface RetryConfig {
+	/** Retries after the first attempt (default 2, 0 disables) */
+	retries?: number
+	/** Base delay for exponential backoff (default 250ms) */
+	baseDelayMs?: number
+	/** Upper bound for a single backoff delay, Retry-After included (default 5000ms) */
+	maxDelayMs?: number
+}
 
 export interface YaciClientConfig {
 	baseUrl: string
+	/** Default per-attempt timeout in ms (default 30000, 0 disables) */
+	timeoutMs?: number
+	retry?: RetryConfig
+	/** Custom fetch implementation (defaults to global fetch) */
+	fetch?: FetchLike
+}
+
+/**
+ * Per-call options accepted by every client method
+ */
+export interface RequestOptions {
+	signal?: AbortSignal
+	/** Overrides the client-wide timeout for this call */
+	timeoutMs?: number
+	/** Overrides the client-wide retry count for this call */
+	retries?: number
+}
+
+/**
+ * Options for the iterate* methods
+ * signal and timeoutMs apply to every page request
+ */
+export interface IterateOptions extends RequestOptions {
+	/** Rows requested per page (default 100) */
+	pageSize?: number
+	/** Stop after yielding this many rows */
+	maxItems?: number
 }
 
 /**
@@ -33,15 +119,25 @@ export interface YaciClientConfig {
  */
 export class YaciClient {
 	private baseUrl: string
+	private timeoutMs: number
+	private retry: Required<RetryConfig>
+	private fetchFn: FetchLike
 
 	constructor(config: YaciClientConfig) {
 		this.baseUrl = config.baseUrl.replace(/\/$/, '')
+		this.timeoutMs = config.timeoutMs ?? 30000
+		this.retry = {
+			retries: config.retry?.retries ?? 2,
+			baseDelayMs: config.retry?.baseDelayMs ?? 250,
+			maxDelayMs: config.retry?.maxDelayMs ?? 5000
+		}
+		this.fetchFn = config.fetch ?? ((input, init) => fetch(input, init))
 	}
 
 	/**
 	 * Call a PostgREST RPC function
 	 */
-	private async rpc<T>(fn: string, params?: Record<string, unknown>): Promise<T> {
+	private async rpc<T>(fn: string, params?: Record<string, unknown>, options?: RequestOptions): Promise<T> {
 		const url = new URL(`${this.baseUrl}/rpc/${fn}`)
 		if (params) {
 			Object.entries(params).forEach(([key, value]) => {
@@ -51,21 +147,22 @@ export class YaciClient {
 			})
 		}
 
-		const res = await fetch(url.toString(), {
-			headers: { 'Accept': 'application/json' }
-		})
-
-		if (!res.ok) {
-			throw new Error(`RPC ${fn} failed: ${res.status} ${res.statusText}`)
-		}
+		return this.request<T>(`RPC ${fn}`, url, options)
+	}
 
-		return res.json()
+	/**
+	 * Call a PostgREST RPC function with a JSON body (POST)
+	 * Only used for idempotent writes, so retries are safe
+	 */
+	private async rpcPost<T>(fn: string, body: Record<string, unknown>, options?: RequestOptions): Promise<T> {
+		const url = new URL(`${this.baseUrl}/rpc/${fn}`)
+		return this.request<T>(`RPC ${fn}`, url, options, body)
 	}
 
 	/**
 	 * Query a PostgREST table directly
 	 */
-	private async query<T>(table: string, params?: Record<string, string>): Promise<T> {
+	private async query<T>(table: string, params?: Record<string, string>, options?: RequestOptions): Promise<T> {
 		const url = new URL(`${this.baseUrl}/${table}`)
 		if (params) {
 			Object.entries(params).forEach(([key, value]) => {
@@ -73,15 +170,139 @@ export class YaciClient {
 			})
 		}
 
-		const res = await fetch(url.toString(), {
-			headers: { 'Accept': 'application/json' }
-		})
+		return this.request<T>(`Query ${table}`, url, options)
+	}
 
-		if (!res.ok) {
-			throw new Error(`Query ${table} failed: ${res.status} ${res.statusText}`)
+	/**
+	 * GET (or POST when a body is given) with timeout and retry on transient failures
+	 * Endpoints are read-only or idempotent, so every request is safe to repeat
+	 */
+	private async request<T>(endpoint: string, url: URL, options?: RequestOptions, body?: unknown): Promise<T> {
+		const retries = options?.retries ?? this.retry.retries
+		let attempt = 0
+
+		while (true) {
+			try {
+				return await this.attempt<T>(endpoint, url, options, body)
+			} catch (err) {
+				if (attempt >= retries || !isRetryableError(err) || options?.signal?.aborted) {
+					throw err
+				}
+				const retryAfter = err instanceof YaciRateLimitError && err.retryAfterMs !== null
+					? Math.min(err.retryAfterMs, this.retry.maxDelayMs)
+					: null
+				await sleep(retryAfter ?? this.backoffDelay(attempt), endpoint, options?.signal)
+				attempt++
+			}
+		}
+	}
+
+	private async attempt<T>(endpoint: string, url: URL, options?: RequestOptions, body?: unknown): Promise<T> {
+		const signal = options?.signal
+		throwIfAborted(endpoint, signal)
+
+		const timeoutMs = options?.timeoutMs ?? this.timeoutMs
+		const controller = new AbortController()
+		let timedOut = false
+		const timer = timeoutMs > 0
+			? setTimeout(() => { timedOut = true; controller.abort() }, timeoutMs)
+			: null
+		const onAbort = () => controller.abort(signal?.reason)
+		signal?.addEventListener('abort', onAbort, { once: true })
+
+		try {
+			let res: Response
+			try {
+				res = await this.fetchFn(url.toString(), body === undefined
+					? { headers: { 'Accept': 'application/json' }, signal: controller.signal }
+					: {
+						method: 'POST',
+						headers: { 'Accept': 'application/json', 'Content-Type': 'application/json' },
+						body: JSON.stringify(body),
+						signal: controller.signal
+					})
+			} catch (err) {
+				if (timedOut) throw new YaciTimeoutError(endpoint, timeoutMs)
+				if (signal?.aborted) throw new YaciAbortError(endpoint, signal.reason)
+				throw new YaciNetworkError(endpoint, err)
+			}
+
+			if (!res.ok) {
+				throw await toHttpError(endpoint, res)
+			}
+
+			return await res.json() as T
+		} catch (err) {
+			// Body reads can also be interrupted by the timeout or caller
+			if (timedOut && !(err instanceof YaciTimeoutError)) throw new YaciTimeoutError(endpoint, timeoutMs)
+			if (signal?.aborted && !(err instanceof YaciAbortError)) throw new YaciAbortError(endpoint, signal.reason)
+			throw err
+		} finally {
+			if (timer) clearTimeout(timer)
+			signal?.removeEventListener('abort', onAbort)
 		}
+	}
 
-		return res.json()
+	/**
+	 * Exponential backoff with full jitter
+	 */
+	private backoffDelay(attempt: number): number {
+		const cap = Math.min(this.retry.maxDelayMs, this.retry.baseDelayMs * 2 ** attempt)
+		return Math.floor(Math.random() * cap)
+	}
+
+	/**
+	 * Walk an offset-paginated endpoint until has_next is false
+	 */
+	private async *paginateOffset<T>(
+		endpoint: string,
+		fetchPage: (limit: number, offset: number, options: RequestOptions) => Promise<PaginatedResponse<T>>,
+		options?: IterateOptions
+	): AsyncGenerator<T, void, undefined> {
+		const pageSize = options?.pageSize ?? 100
+		const maxItems = options?.maxItems ?? Infinity
+		let offset = 0
+		let yielded = 0
+
+		while (yielded < maxItems) {
+			throwIfAborted(endpoint, options?.signal)
+			const page = await fetchPage(pageSize, offset, options ?? {})
+			for (const item of page.data) {
+				if (yielded >= maxItems) return
+				throwIfAborted(endpoint, options?.signal)
+				yield item
+				yielded++
+			}
+			if (!page.pagination.has_next || page.data.length === 0) return
+			offset += page.data.length
+		}
+	}
+
+	/**
+	 * Walk a cursor-paginated endpoint until next_cursor is null
+	 */
+	private async *paginateCursor<T>(
+		endpoint: string,
+		fetchPage: (limit: number, cursor: string | null, options: RequestOptions) => Promise<CursorPaginatedResponse<T>>,
+		options?: IterateOptions
+	): AsyncGenerator<T, void, undefined> {
+		const pageSize = options?.pageSize ?? 100
+		const maxItems = options?.maxItems ?? Infinity
+		let cursor: string | null = null
+		let yielded = 0
+
+		while (yielded < maxItems) {
+			throwIfAborted(endpoint, options?.signal)
+			const page: CursorPaginatedResponse<T> = await fetchPage(pageSize, cursor, options ?? {})
+			for (const item of page.data) {
+				if (yielded >= maxItems) return
+				throwIfAborted(endpoint, options?.signal)
+				yield item
+				yielded++
+			}
+			if (!page.pagination.has_next || !page.pagination.next_cursor) return
+			cursor = page.pagination.next_cursor
+		}
 	}
 
 	// Address endpoints
@@ -92,20 +313,52 @@ export class YaciClient {
 	async getTransactionsByAddress(
 		address: string,
 		limit = 50,
-		offset = 0
+		offset = 0,
+		options?: RequestOptions
 	): Promise<PaginatedResponse<Transaction>> {
 		return this.rpc('get_transactions_by_address', {
 			_address: address,
 			_limit: limit,
 			_offset: offset
-		})
+		}, options)
+	}
+
+	/**
+	 * Get transactions for an address using keyset pagination
+	 * Pass the previous page's next_cursor to continue
+	 */
+	async getTransactionsByAddressCursor(
+		address: string,
+		limit = 50,
+		cursor?: string | null,
+		includeTotal = false,
+		options?: RequestOptions
+	): Promise<CursorPaginatedResponse<Transaction>> {
+		return this.rpc('get_transactions_by_address_keyset', {
+			_address: address,
+			_limit: limit,
+			_cursor: cursor,
+			_include_total: includeTotal
+		}, options)
+	}
+
+	/**
+	 * Iterate every transaction for an address, newest first
+	 * Uses keyset pagination, so rows indexed mid-walk do not shift pages
+	 */
+	iterateTransactionsByAddress(address: string, options?: IterateOptions): AsyncGenerator<Transaction, void, undefined> {
+		return this.paginateCursor(
+			'RPC get_transactions_by_address_keyset',
+			(limit, cursor, opts) => this.getTransactionsByAddressCursor(address, limit, cursor, false, opts),
+			options
+		)
 	}
 
 	/**
 	 * Get address statistics
 	 */
-	async getAddressStats(address: string): Promise<AddressStats> {
-		return this.rpc('get_address_stats', { _address: address })
+	async getAddressStats(address: string, options?: RequestOptions): Promise<AddressStats> {
+		return this.rpc('get_address_stats', { _address: address }, options)
 	}
 
 	// Transaction endpoints
@@ -113,8 +366,8 @@ export class YaciClient {
 	/**
 	 * Get full transaction detail including messages, events, and EVM data
 	 */
-	async getTransaction(hash: string): Promise<TransactionDetail> {
-		return this.rpc('get_transaction_detail', { _hash: hash })
+	async getTransaction(hash: string, options?: RequestOptions): Promise<TransactionDetail> {
+		return this.rpc('get_transaction_detail', { _hash: hash }, options)
 	}
 
 	/**
@@ -127,7 +380,8 @@ export class YaciClient {
 			status?: 'success' | 'failed'
 			blockHeight?: number
 			messageType?: string
-		}
+		},
+		options?: RequestOptions
 	): Promise<PaginatedResponse<Transaction>> {
 		return this.rpc('get_transactions_paginated', {
 			_limit: limit,
@@ -135,7 +389,32 @@ export class YaciClient {
 			_status: filters?.status,
 			_block_height: filters?.blockHeight,
 			_message_type: filters?.messageType
-		})
+		}, options)
+	}
+
+	/**
+	 * Get transactions using keyset pagination with optional filters
+	 * Total count is skipped unless includeTotal is set
+	 */
+	async getTransactionsCursor(
+		limit = 20,
+		cursor?: string | null,
+		filters?: {
+			status?: 'success' | 'failed'
+			blockHeight?: number
+			messageType?: string
+			includeTotal?: boolean
+		},
+		options?: RequestOptions
+	): Promise<CursorPaginatedResponse<Transaction>> {
+		return this.rpc('get_transactions_keyset', {
+			_limit: limit,
+			_cursor: cursor,
+			_status: filters?.status,
+			_block_height: filters?.blockHeight,
+			_message_type: filters?.messageType,
+			_include_total: filters?.includeTotal ?? false
+		}, options)
 	}
 
 	// Block endpoints
@@ -143,23 +422,39 @@ export class YaciClient {
 	/**
 	 * Get block by height
 	 */
-	async getBlock(height: number): Promise<unknown> {
+	async getBlock(height: number, options?: RequestOptions): Promise<unknown> {
 		const result = await this.query('blocks_raw', {
 			id: `eq.${height}`,
 			limit: '1'
-		})
+		}, options)
 		return Array.isArray(result) ? result[0] : result
 	}
 
 	/**
 	 * Get recent blocks
 	 */
-	async getBlocks(limit = 20, offset = 0): Promise<unknown[]> {
+	async getBlocks(limit = 20, offset = 0, options?: RequestOptions): Promise<unknown[]> {
 		return this.query('blocks_raw', {
 			order: 'id.desc',
 			limit: String(limit),
 			offset: String(offset)
-		})
+		}, options)
+	}
+
+	/**
+	 * Get recent blocks using keyset pagination
+	 */
+	async getBlocksCursor(
+		limit = 20,
+		cursor?: string | null,
+		includeTotal = false,
+		options?: RequestOptions
+	): Promise<CursorPaginatedResponse<BlockRaw>> {
+		return this.rpc('get_blocks_keyset', {
+			_limit: limit,
+			_cursor: cursor,
+			_include_total: includeTotal
+		}, options)
 	}
 
 	// Search endpoint
@@ -167,8 +462,8 @@ export class YaciClient {
 	/**
 	 * Universal search across blocks, transactions, addresses
 	 */
-	async search(query: string): Promise<SearchResult[]> {
-		return this.rpc('universal_search', { _query: query })
+	async search(query: string, options?: RequestOptions): Promise<SearchResult[]> {
+		return this.rpc('universal_search', { _query: query }, options)
 	}
 
 	// Analytics endpoints
@@ -176,36 +471,36 @@ export class YaciClient {
 	/**
 	 * Get chain statistics
 	 */
-	async getChainStats(): Promise<ChainStats> {
-		const result = await this.query<ChainStats[]>('chain_stats')
+	async getChainStats(options?: RequestOptions): Promise<ChainStats> {
+		const result = await this.query<ChainStats[]>('chain_stats', undefined, options)
 		return result[0]
 	}
 
 	/**
 	 * Get daily transaction volume
 	 */
-	async getTxVolumeDaily(): Promise<Array<{ date: string; count: number }>> {
-		return this.query('tx_volume_daily', { order: 'date.desc' })
+	async getTxVolumeDaily(options?: RequestOptions): Promise<Array<{ date: string; count: number }>> {
+		return this.query('tx_volume_daily', { order: 'date.desc' }, options)
 	}
 
 	/**
 	 * Get daily active addresses (unique senders per day)
 	 */
-	async getDailyActiveAddresses(limit = 30): Promise<Array<{ date: string; active_addresses: number }>> {
-		return this.query('daily_active_addresses', { order: 'date.desc', limit: String(limit) })
+	async getDailyActiveAddresses(limit = 30, options?: RequestOptions): Promise<Array<{ date: string; active_addresses: number }>> {
+		return this.query('daily_active_addresses', { order: 'date.desc', limit: String(limit) }, options)
 	}
 
 	/**
 	 * Get message type statistics
 	 */
-	async getMessageTypeStats(): Promise<Array<{ type: string; count: number }>> {
-		return this.query('message_type_stats')
+	async getMessageTypeStats(options?: RequestOptions): Promise<Array<{ type: string; count: number }>> {
+		return this.query('message_type_stats', undefined, options)
 	}
 
 	/**
 	 * Get transaction success rate
 	 */
-	async getTxSuccessRate(): Promise<{
+	async getTxSuccessRate(options?: RequestOptions): Promise<{
 		total: number
 		successful: number
 		failed: number
@@ -216,27 +511,507 @@ export class YaciClient {
 			successful: number
 			failed: number
 			success_rate_percent: number
-		}>>('tx_success_rate')
+		}>>('tx_success_rate', undefined, options)
 		return result[0]
 	}
 
 	async getGovernanceProposals(
 		limit = 20,
 		offset = 0,
-		status?: string
+		status?: string,
+		options?: RequestOptions
 	): Promise<PaginatedResponse<GovernanceProposal>> {
 		return this.rpc('get_governance_proposals', {
 			_limit: limit,
 			_offset: offset,
 			_status: status
-		})
+		}, options)
+	}
+
+	/**
+	 * Iterate all governance proposals, newest first
+	 */
+	iterateGovernanceProposals(status?: string, options?: IterateOptions): AsyncGenerator<GovernanceProposal, void, undefined> {
+		return this.paginateOffset(
+			'RPC get_governance_proposals',
+			(limit, offset, opts) => this.getGovernanceProposals(limit, offset, status, opts),
+			options
+		)
 	}
 
-	async getProposalSnapshots(proposalId: number): Promise<ProposalSnapshot[]> {
+	async getProposalSnapshots(proposalId: number, options?: RequestOptions): Promise<ProposalSnapshot[]> {
 		return this.query('governance_snapshots', {
 			proposal_id: `eq.${proposalId}`,
 			order: 'snapshot_time.desc'
-		})
+		}, options)
+	}
+
+	/**
+	 * Get the live stake-weighted tally of a proposal
+	 * Non-voting delegators inherit their validator's vote, as on chain
+	 */
+	async getProposalTally(proposalId: number, options?: RequestOptions): Promise<ProposalTally> {
+		return this.rpc('get_proposal_tally', { _proposal_id: proposalId }, options)
+	}
+
+	/**
+	 * Get the decoded messages of a proposal and its software upgrade plan
+	 */
+	async getProposalContent(proposalId: number, options?: RequestOptions): Promise<ProposalContent | null> {
+		return this.rpc('get_proposal_content', { _proposal_id: proposalId }, options)
+	}
+
+	/**
+	 * Get software upgrades whose height has not been reached, soonest first,
+	 * with the estimated upgrade time
+	 */
+	async getPendingUpgrades(options?: RequestOptions): Promise<UpgradePlan[]> {
+		return this.rpc('get_pending_upgrades', undefined, options)
+	}
+
+	/**
+	 * Get votes on a proposal, newest first
+	 * Only each voter's latest vote unless includeHistory is set; option keeps
+	 * votes with any weight on that option
+	 */
+	async getProposalVotes(
+		proposalId: number,
+		limit = 50,
+		offset = 0,
+		filters?: {
+			option?: VoteOption
+			includeHistory?: boolean
+		},
+		options?: RequestOptions
+	): Promise<PaginatedResponse<ProposalVote>> {
+		return this.rpc('get_proposal_votes', {
+			_proposal_id: proposalId,
+			_limit: limit,
+			_offset: offset,
+			_option: filters?.option,
+			_include_history: filters?.includeHistory
+		}, options)
+	}
+
+	/**
+	 * Get deposits on a proposal (including the initial deposit), newest first
+	 */
+	async getProposalDeposits(
+		proposalId: number,
+		limit = 50,
+		offset = 0,
+		options?: RequestOptions
+	): Promise<ProposalDeposits> {
+		return this.rpc('get_proposal_deposits', {
+			_proposal_id: proposalId,
+			_limit: limit,
+			_offset: offset
+		}, options)
+	}
+
+	/**
+	 * Get every vote cast by an address across proposals, newest first
+	 */
+	async getVotesByAddress(
+		address: string,
+		limit = 50,
+		offset = 0,
+		options?: RequestOptions
+	): Promise<PaginatedResponse<AddressVote>> {
+		return this.rpc('get_votes_by_address', {
+			_address: address,
+			_limit: limit,
+			_offset: offset
+		}, options)
+	}
+
+	// Validator endpoints
+
+	/**
+	 * Get validators by voting power
+	 * status accepts the full enum or its short form ('bonded', 'unbonding', 'unbonded')
+	 */
+	async getValidators(
+		limit = 100,
+		offset = 0,
+		filters?: {
+			status?: ValidatorStatus | 'bonded' | 'unbonding' | 'unbonded'
+			jailed?: boolean
+		},
+		options?: RequestOptions
+	): Promise<PaginatedResponse<Validator>> {
+		return this.rpc('get_validators', {
+			_limit: limit,
+			_offset: offset,
+			_status: filters?.status,
+			_jailed: filters?.jailed
+		}, options)
+	}
+
+	/**
+	 * Get a validator by operator, consensus (bech32) or hex consensus address
+	 * Returns null when the validator is unknown
+	 */
+	async getValidator(address: string, options?: RequestOptions): Promise<Validator | null> {
+		return this.rpc('get_validator', { _address: address }, options)
+	}
+
+	/**
+	 * Get uptime and missed blocks of all bonded validators over the last window blocks
+	 */
+	async getValidatorsUptime(window = 10000, options?: RequestOptions): Promise<ValidatorsUptime> {
+		return this.rpc('get_validators_uptime', { _window: window }, options)
+	}
+
+	/**
+	 * Get a validator's uptime over the last window blocks, split into buckets for charting
+	 * Returns null when the validator is unknown
+	 */
+	async getValidatorUptime(
+		address: string,
+		window = 10000,
+		buckets = 20,
+		options?: RequestOptions
+	): Promise<ValidatorUptime | null> {
+		return this.rpc('get_validator_uptime', {
+			_address: address,
+			_window: window,
+			_buckets: buckets
+		}, options)
+	}
+
+	/**
+	 * Get blocks proposed per validator over the last window blocks
+	 */
+	async getProposerStats(window = 10000, options?: RequestOptions): Promise<ProposerStats> {
+		return this.rpc('get_proposer_stats', { _window: window }, options)
+	}
+
+	// Staking endpoints
+
+	/**
+	 * Get the delegations of an address, largest first
+	 */
+	async getDelegations(
+		address: string,
+		limit = 50,
+		offset = 0,
+		options?: RequestOptions
+	): Promise<PaginatedResponse<Delegation>> {
+		return this.rpc('get_delegations', {
+			_address: address,
+			_limit: limit,
+			_offset: offset
+		}, options)
+	}
+
+	/**
+	 * Get the delegators of a validator, largest first
+	 */
+	async getValidatorDelegators(
+		validator: string,
+		limit = 50,
+		offset = 0,
+		options?: RequestOptions
+	): Promise<PaginatedResponse<ValidatorDelegator>> {
+		return this.rpc('get_validator_delegators', {
+			_validator: validator,
+			_limit: limit,
+			_offset: offset
+		}, options)
+	}
+
+	/**
+	 * Get unbonding entries of an address, soonest completion first
+	 */
+	async getUnbondingDelegations(
+		address: string,
+		includeCompleted = false,
+		options?: RequestOptions
+	): Promise<UnbondingDelegation[]> {
+		return this.rpc('get_unbonding_delegations', {
+			_address: address,
+			_include_completed: includeCompleted
+		}, options)
+	}
+
+	/**
+	 * Get the staking ledger (delegations, redelegations, unbondings, reward withdrawals)
+	 * of a delegator or validator address, newest first
+	 */
+	async getStakingActivity(
+		address: string,
+		type?: StakingActivityType,
+		limit = 50,
+		offset = 0,
+		options?: RequestOptions
+	): Promise<PaginatedResponse<StakingActivity>> {
+		return this.rpc('get_staking_activity', {
+			_address: address,
+			_type: type,
+			_limit: limit,
+			_offset: offset
+		}, options)
+	}
+
+	// Chain params endpoints
+
+	/**
+	 * Get current module params (staking, slashing, distribution, gov, mint, feemarket, evm)
+	 */
+	async getChainParams(module?: ChainParamModule, options?: RequestOptions): Promise<ChainParams> {
+		return this.rpc('get_module_params', { _module: module }, options)
+	}
+
+	/**
+	 * Get the change history of a module's params, newest first, optionally for one key
+	 */
+	async getChainParamHistory(
+		module: ChainParamModule,
+		key?: string,
+		limit = 50,
+		offset = 0,
+		options?: RequestOptions
+	): Promise<PaginatedResponse<ChainParamChange>> {
+		return this.rpc('get_chain_param_history', {
+			_module: module,
+			_key: key,
+			_limit: limit,
+			_offset: offset
+		}, options)
+	}
+
+	// Supply endpoints
+
+	/**
+	 * Get the latest supply breakdown of a denom (default: the bond denom)
+	 */
+	async getSupplyBreakdown(denom?: string, options?: RequestOptions): Promise<SupplyBreakdown | null> {
+		return this.rpc('get_supply_breakdown', { _denom: denom }, options)
+	}
+
+	/**
+	 * Get the supply series of a denom (default: the bond denom), one point per interval
+	 * @param days - Number of days to look back (default 30)
+	 */
+	async getSupplyHistory(
+		denom?: string,
+		days = 30,
+		interval: SupplyInterval = 'day',
+		options?: RequestOptions
+	): Promise<SupplyHistory> {
+		return this.rpc('get_supply_history', {
+			_denom: denom,
+			_days: days,
+			_interval: interval
+		}, options)
+	}
+
+	// EVM decoder endpoints
+
+	/**
+	 * Get transactions the EVM decoder failed on, newest first
+	 * status 'retrying' rows are backing off, 'dead' rows need a requeue
+	 */
+	async getEvmDecodeFailures(
+		status?: 'retrying' | 'dead',
+		limit = 50,
+		offset = 0,
+		options?: RequestOptions
+	): Promise<PaginatedResponse<EvmDecodeFailure>> {
+		return this.rpc('get_evm_decode_failures', {
+			_status: status,
+			_limit: limit,
+			_offset: offset
+		}, options)
+	}
+
+	// Gas oracle endpoints
+
+	/**
+	 * Get slow / standard / fast gas price suggestions from the last blockCount blocks
+	 * Cosmos prices are per denom and unit of gas; EVM tiers give priority fee, max fee and legacy gas price
+	 */
+	async getGasOracle(blockCount = 200, options?: RequestOptions): Promise<GasOracle> {
+		return this.rpc('get_gas_oracle', { _block_count: blockCount }, options)
+	}
+
+	// EVM fee endpoints
+
+	/**
+	 * Get base fee, gas used and priority fee percentiles per block, like eth_feeHistory
+	 * blockCount is capped at 1024; newestBlock defaults to the latest block
+	 */
+	async getEvmFeeHistory(
+		blockCount = 20,
+		newestBlock?: number,
+		percentiles: number[] = [25, 50, 75],
+		options?: RequestOptions
+	): Promise<EvmFeeHistory> {
+		return this.rpc('get_evm_fee_history', {
+			_block_count: blockCount,
+			_newest_block: newestBlock,
+			_percentiles: `{${percentiles.join(',')}}`
+		}, options)
+	}
+
+	/**
+	 * Get the per-block base fee series, newest first
+	 * Blocks without a known base fee are absent
+	 */
+	async getEvmBaseFees(
+		limit = 100,
+		beforeHeight?: number,
+		options?: RequestOptions
+	): Promise<EvmBlockFee[]> {
+		const params: Record<string, string> = {
+			order: 'height.desc',
+			limit: String(limit)
+		}
+		if (beforeHeight !== undefined) {
+			params.height = `lt.${beforeHeight}`
+		}
+		return this.query('evm_block_fees', params, options)
+	}
+
+	// Contract endpoints
+
+	/**
+	 * Get contract creation info, verification status and token metadata
+	 * Returns null for addresses with no recorded deployment
+	 */
+	async getContract(address: string, options?: RequestOptions): Promise<EvmContract | null> {
+		return this.rpc('get_contract', { _address: address }, options)
+	}
+
+	/**
+	 * Get contracts deployed by an address, newest first
+	 */
+	async getContractsByCreator(
+		creator: string,
+		limit = 50,
+		offset = 0,
+		options?: RequestOptions
+	): Promise<PaginatedResponse<EvmContractSummary>> {
+		return this.rpc('get_contracts_by_creator', {
+			_creator: creator,
+			_limit: limit,
+			_offset: offset
+		}, options)
+	}
+
+	/**
+	 * Submit Solidity sources for verification against the deployed bytecode
+	 * Resubmitting identical input while a request is open returns that request
+	 */
+	async submitContractVerification(
+		submission: ContractVerificationSubmission,
+		options?: RequestOptions
+	): Promise<ContractVerification> {
+		return this.rpcPost('submit_contract_verification', {
+			_address: submission.address,
+			_compiler_version: submission.compilerVersion,
+			_contract_name: submission.contractName,
+			_standard_json: submission.standardJson,
+			_sources: submission.sources,
+			_settings: submission.settings
+		}, options)
+	}
+
+	/**
+	 * Get the status of a verification request
+	 */
+	async getContractVerification(id: number, options?: RequestOptions): Promise<ContractVerification | null> {
+		return this.rpc('get_contract_verification', { _id: id }, options)
+	}
+
+	/**
+	 * Get verification attempts for a contract, newest first
+	 */
+	async getContractVerifications(
+		address: string,
+		limit = 20,
+		options?: RequestOptions
+	): Promise<ContractVerification[]> {
+		return this.rpc('get_contract_verifications', { _address: address, _limit: limit }, options)
+	}
+
+	/**
+	 * Get verified source and ABI, null if the contract is not verified
+	 */
+	async getContractSource(address: string, options?: RequestOptions): Promise<ContractSource | null> {
+		return this.rpc('get_contract_source', { _address: address }, options)
+	}
+
+	// Token endpoints
+
+	/**
+	 * Get transfers of a token, newest block first, optionally for a single token id (ERC-721/1155)
+	 */
+	async getTokenTransfers(
+		tokenAddress: string,
+		tokenId?: string,
+		limit = 50,
+		offset = 0,
+		options?: RequestOptions
+	): Promise<EvmTokenTransfer[]> {
+		const params: Record<string, string> = {
+			token_address: `eq.${tokenAddress.toLowerCase()}`,
+			order: 'height.desc,log_index.asc,batch_index.asc,tx_id.asc',
+			limit: String(limit),
+			offset: String(offset)
+		}
+		if (tokenId !== undefined) {
+			params.token_id = `eq.${tokenId}`
+		}
+		return this.query('evm_token_transfers', params, options)
+	}
+
+	/**
+	 * Get holders of a token ranked by balance, with percentage of supply
+	 * Pass tokenId to rank holders of a single ERC-1155 id
+	 */
+	async getTokenHolders(
+		tokenAddress: string,
+		limit = 50,
+		offset = 0,
+		tokenId?: string,
+		options?: RequestOptions
+	): Promise<PaginatedResponse<TokenHolder>> {
+		return this.rpc('get_token_holders', {
+			_token: tokenAddress,
+			_limit: limit,
+			_offset: offset,
+			_token_id: tokenId
+		}, options)
+	}
+
+	/**
+	 * Get the top holders of a token
+	 */
+	async getTopTokenHolders(
+		tokenAddress: string,
+		limit = 10,
+		options?: RequestOptions
+	): Promise<TokenHolder[]> {
+		const result = await this.getTokenHolders(tokenAddress, limit, 0, undefined, options)
+		return result.data
+	}
+
+	/**
+	 * Get token balances held by an address
+	 */
+	async getTokenBalances(
+		address: string,
+		limit = 50,
+		offset = 0,
+		options?: RequestOptions
+	): Promise<PaginatedResponse<TokenBalance>> {
+		return this.rpc('get_token_balances', {
+			_address: address,
+			_limit: limit,
+			_offset: offset
+		}, options)
 	}
 
 	// IBC endpoints
@@ -244,8 +1019,8 @@ export class YaciClient {
 	/**
 	 * Get IBC statistics (transfer counts, channel info, denom counts)
 	 */
-	async getIbcStats(): Promise<IbcStats> {
-		return this.rpc('get_ibc_stats')
+	async getIbcStats(options?: RequestOptions): Promise<IbcStats> {
+		return this.rpc('get_ibc_stats', undefined, options)
 	}
 
 	/**
@@ -255,13 +1030,28 @@ export class YaciClient {
 	async getIbcTransfers(
 		limit = 20,
 		offset = 0,
-		direction?: 'outgoing' | 'incoming'
+		direction?: 'outgoing' | 'incoming',
+		options?: RequestOptions
 	): Promise<PaginatedResponse<IbcTransfer>> {
 		return this.rpc('get_ibc_transfers', {
 			_limit: limit,
 			_offset: offset,
 			_direction: direction
-		})
+		}, options)
+	}
+
+	/**
+	 * Iterate all IBC transfers with optional direction filter
+	 */
+	iterateIbcTransfers(
+		direction?: 'outgoing' | 'incoming',
+		options?: IterateOptions
+	): AsyncGenerator<IbcTransfer, void, undefined> {
+		return this.paginateOffset(
+			'RPC get_ibc_transfers',
+			(limit, offset, opts) => this.getIbcTransfers(limit, offset, direction, opts),
+			options
+		)
 	}
 
 	/**
@@ -270,13 +1060,14 @@ export class YaciClient {
 	async getIbcTransfersByAddress(
 		address: string,
 		limit = 10,
-		offset = 0
+		offset = 0,
+		options?: RequestOptions
 	): Promise<PaginatedResponse<IbcTransfer>> {
 		return this.rpc('get_ibc_transfers_by_address', {
 			_address: address,
 			_limit: limit,
 			_offset: offset
-		})
+		}, options)
 	}
 
 	/**
@@ -286,24 +1077,25 @@ export class YaciClient {
 		limit = 50,
 		offset = 0,
 		chainId?: string,
-		state?: string
+		state?: string,
+		options?: RequestOptions
 	): Promise<PaginatedResponse<IbcConnection>> {
 		return this.rpc('get_ibc_connections', {
 			_limit: limit,
 			_offset: offset,
 			_chain_id: chainId,
 			_state: state
-		})
+		}, options)
 	}
 
 	/**
 	 * Get a specific IBC connection by channel ID
 	 */
-	async getIbcConnection(channelId: string, portId = 'transfer'): Promise<IbcConnection | null> {
+	async getIbcConnection(channelId: string, portId = 'transfer', options?: RequestOptions): Promise<IbcConnection | null> {
 		return this.rpc('get_ibc_connection', {
 			_channel_id: channelId,
 			_port_id: portId
-		})
+		}, options)
 	}
 
 	/**
@@ -312,41 +1104,53 @@ export class YaciClient {
 	async getIbcDenomTraces(
 		limit = 50,
 		offset = 0,
-		baseDenom?: string
+		baseDenom?: string,
+		options?: RequestOptions
 	): Promise<PaginatedResponse<IbcDenomTrace>> {
 		return this.rpc('get_ibc_denom_traces', {
 			_limit: limit,
 			_offset: offset,
 			_base_denom: baseDenom
-		})
+		}, options)
+	}
+
+	/**
+	 * Iterate all IBC denom traces with optional base denom filter
+	 */
+	iterateIbcDenomTraces(baseDenom?: string, options?: IterateOptions): AsyncGenerator<IbcDenomTrace, void, undefined> {
+		return this.paginateOffset(
+			'RPC get_ibc_denom_traces',
+			(limit, offset, opts) => this.getIbcDenomTraces(limit, offset, baseDenom, opts),
+			options
+		)
 	}
 
 	/**
 	 * Resolve an IBC denom to its full trace information
 	 */
-	async resolveIbcDenom(ibcDenom: string): Promise<IbcDenomResolution | null> {
-		return this.rpc('resolve_ibc_denom', { _ibc_denom: ibcDenom })
+	async resolveIbcDenom(ibcDenom: string, options?: RequestOptions): Promise<IbcDenomResolution | null> {
+		return this.rpc('resolve_ibc_denom', { _ibc_denom: ibcDenom }, options)
 	}
 
 	/**
 	 * Resolve any denom (native or IBC) to symbol/decimals
 	 */
-	async resolveDenom(denom: string): Promise<ResolvedDenom> {
-		return this.rpc('resolve_denom', { _denom: denom })
+	async resolveDenom(denom: string, options?: RequestOptions): Promise<ResolvedDenom> {
+		return this.rpc('resolve_denom', { _denom: denom }, options)
 	}
 
 	/**
 	 * Get list of connected IBC chains with channel counts
 	 */
-	async getIbcChains(): Promise<IbcChainSummary[]> {
-		return this.rpc('get_ibc_chains')
+	async getIbcChains(options?: RequestOptions): Promise<IbcChainSummary[]> {
+		return this.rpc('get_ibc_chains', undefined, options)
 	}
 
 	/**
 	 * Get IBC channel activity (transfer stats by channel)
 	 */
-	async getIbcChannelActivity(): Promise<IbcChannelActivity[]> {
-		return this.rpc('get_ibc_channel_activity')
+	async getIbcChannelActivity(options?: RequestOptions): Promise<IbcChannelActivity[]> {
+		return this.rpc('get_ibc_channel_activity', undefined, options)
 	}
 
 	/**
@@ -356,15 +1160,78 @@ export class YaciClient {
 	 */
 	async getIbcVolumeTimeseries(
 		hours = 24,
-		channel?: string
+		channel?: string,
+		options?: RequestOptions
 	): Promise<IbcVolumeTimeSeries> {
 		return this.rpc('get_ibc_volume_timeseries', {
 			_hours: hours,
 			_channel: channel
-		})
+		}, options)
 	}
 }
 
+/**
+ * Map a non-2xx response to the matching error class
+ */
+async function toHttpError(endpoint: string, res: Response): Promise<YaciHttpError> {
+	let body: PostgrestErrorBody | null = null
+	try {
+		const json = await res.json() as Partial<PostgrestErrorBody>
+		if (json && typeof json === 'object' && typeof json.message === 'string') {
+			body = {
+				code: json.code ?? null,
+				message: json.message,
+				details: json.details ?? null,
+				hint: json.hint ?? null
+			}
+		}
+	} catch {
+		// Proxies and gateways may return HTML or an empty body
+	}
+
+	if (res.status === 404) {
+		return new YaciNotFoundError(endpoint, res.statusText, body)
+	}
+	if (res.status === 429) {
+		return new YaciRateLimitError(endpoint, res.statusText, body, parseRetryAfter(res.headers.get('Retry-After')))
+	}
+	if (body?.code) {
+		return new YaciPostgrestError(endpoint, res.status, res.statusText, body)
+	}
+	return new YaciHttpError(endpoint, res.status, res.statusText, body)
+}
+
+/**
+ * Retry-After is either delta-seconds or an HTTP date
+ */
+function parseRetryAfter(header: string | null): number | null {
+	if (!header) return null
+	const seconds = Number(header)
+	if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+	const date = Date.parse(header)
+	return Number.isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+function throwIfAborted(endpoint: string, signal?: AbortSignal): void {
+	if (signal?.aborted) {
+		throw new YaciAbortError(endpoint, signal.reason)
+	}
+}
+
+function sleep(ms: number, endpoint: string, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		const onAbort = () => {
+			clearTimeout(timer)
+			reject(new YaciAbortError(endpoint, signal?.reason))
+		}
+		const timer = setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort)
+			resolve()
+		}, ms)
+		signal?.addEventListener('abort', onAbort, { once: true })
+	})
+}
+
 /**
  * Create a new YaciClient instance
  */
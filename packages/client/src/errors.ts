@@ -0,0 +1,136 @@
+/**
+ * Error types thrown by YaciClient
+ * Callers can branch on instanceof to tell missing data from transient failures
+ */
+
+/**
+ * JSON error body returned by PostgREST
+ */
+export interface PostgrestErrorBody {
+	code: string | null
+	message: string
+	details: string | null
+	hint: string | null
+}
+
+/**
+ * Base class for all client errors
+ */
+export class YaciError extends Error {
+	constructor(message: string, options?: { cause?: unknown }) {
+		super(message, options)
+		this.name = 'YaciError'
+	}
+}
+
+/**
+ * Request never produced an HTTP response (DNS, connection reset, CORS)
+ */
+export class YaciNetworkError extends YaciError {
+	readonly endpoint: string
+
+	constructor(endpoint: string, cause: unknown) {
+		super(`Request to ${endpoint} failed: ${cause instanceof Error ? cause.message : String(cause)}`, { cause })
+		this.name = 'YaciNetworkError'
+		this.endpoint = endpoint
+	}
+}
+
+/**
+ * Request exceeded the configured timeout
+ */
+export class YaciTimeoutError extends YaciError {
+	readonly endpoint: string
+	readonly timeoutMs: number
+
+	constructor(endpoint: string, timeoutMs: number) {
+		super(`Request to ${endpoint} timed out after ${timeoutMs}ms`)
+		this.name = 'YaciTimeoutError'
+		this.endpoint = endpoint
+		this.timeoutMs = timeoutMs
+	}
+}
+
+/**
+ * Request was cancelled through the caller's AbortSignal
+ */
+export class YaciAbortError extends YaciError {
+	readonly endpoint: string
+
+	constructor(endpoint: string, reason?: unknown) {
+		super(`Request to ${endpoint} was aborted`, { cause: reason })
+		this.name = 'YaciAbortError'
+		this.endpoint = endpoint
+	}
+}
+
+/**
+ * Non-2xx HTTP response
+ * body holds the parsed PostgREST error when the server sent one
+ */
+export class YaciHttpError extends YaciError {
+	readonly endpoint: string
+	readonly status: number
+	readonly statusText: string
+	readonly body: PostgrestErrorBody | null
+
+	constructor(endpoint: string, status: number, statusText: string, body: PostgrestErrorBody | null) {
+		super(`${endpoint} failed: ${[status, statusText].filter(Boolean).join(' ')}${body?.message ? ` - ${body.message}` : ''}`)
+		this.name = 'YaciHttpError'
+		this.endpoint = endpoint
+		this.status = status
+		this.statusText = statusText
+		this.body = body
+	}
+}
+
+/**
+ * 404 - unknown RPC function, table or row
+ */
+export class YaciNotFoundError extends YaciHttpError {
+	constructor(endpoint: string, statusText: string, body: PostgrestErrorBody | null) {
+		super(endpoint, 404, statusText, body)
+		this.name = 'YaciNotFoundError'
+	}
+}
+
+/**
+ * 429 - retryAfterMs is taken from the Retry-After header when present
+ */
+export class YaciRateLimitError extends YaciHttpError {
+	readonly retryAfterMs: number | null
+
+	constructor(endpoint: string, statusText: string, body: PostgrestErrorBody | null, retryAfterMs: number | null) {
+		super(endpoint, 429, statusText, body)
+		this.name = 'YaciRateLimitError'
+		this.retryAfterMs = retryAfterMs
+	}
+}
+
+/**
+ * PostgREST or PostgreSQL rejected the request (bad filter, SQL error, permission)
+ * code is the PGRST* or SQLSTATE code from the response body
+ */
+export class YaciPostgrestError extends YaciHttpError {
+	readonly code: string | null
+	readonly details: string | null
+	readonly hint: string | null
+
+	constructor(endpoint: string, status: number, statusText: string, body: PostgrestErrorBody) {
+		super(endpoint, status, statusText, body)
+		this.name = 'YaciPostgrestError'
+		this.code = body.code
+		this.details = body.details
+		this.hint = body.hint
+	}
+}
+
+/**
+ * Whether a failed request may succeed if sent again
+ */
+export function isRetryableError(err: unknown): boolean {
+	if (err instanceof YaciNetworkError || err instanceof YaciTimeoutError) return true
+	if (err instanceof YaciRateLimitError) return true
+	if (err instanceof YaciHttpError) return [502, 503, 504].includes(err.status)
+	return false
+}
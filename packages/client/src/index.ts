@@ -4,4 +4,17 @@
  */
 
 export { YaciClient, createClient } from './client'
+export type { YaciClientConfig, RetryConfig, RequestOptions, IterateOptions, FetchLike } from './client'
+export {
+	YaciError,
+	YaciNetworkError,
+	YaciTimeoutError,
+	YaciAbortError,
+	YaciHttpError,
+	YaciNotFoundError,
+	YaciRateLimitError,
+	YaciPostgrestError,
+	isRetryableError
+} from './errors'
+export type { PostgrestErrorBody } from './errors'
 export type * from './types'
@@ -17,6 +17,20 @@ export interface PaginatedResponse<T> {
 	pagination: Pagination
 }
 
+export interface CursorPagination {
+	limit: number
+	has_next: boolean
+	/** Opaque cursor for the next page, null on the last page */
+	next_cursor: string | null
+	/** Exact row count, null unless includeTotal was requested */
+	total: number | null
+}
+
+export interface CursorPaginatedResponse<T> {
+	data: T[]
+	pagination: CursorPagination
+}
+
 // Transactions
 
 export interface Transaction {
@@ -92,6 +106,31 @@ export interface EvmData {
 	status: number
 	functionName: string | null
 	functionSignature: string | null
+	decodedArgs: DecodedParam[] | null
+	/** VM error for failed transactions (status 0), e.g. 'execution reverted' */
+	vmError: string | null
+	/** Decoded revert reason, e.g. 'Panic: arithmetic overflow or underflow (0x11)' */
+	revertReason: string | null
+	revertError: RevertError | null
+	/** Raw revert data (hex) */
+	revertData: string | null
+	/** Price per gas actually paid: gasPrice, or min(maxFeePerGas, baseFee + maxPriorityFeePerGas) */
+	effectiveGasPrice: string | null
+	/** effectiveGasPrice * gasUsed */
+	feePaid: string | null
+	/** Base fee of the block, when known */
+	baseFee: string | null
+}
+
+/**
+ * Decoded revert data: Error(string), Panic(uint256) or a custom error from a known ABI
+ */
+export interface RevertError {
+	type: 'error' | 'panic' | 'custom'
+	name: string
+	signature: string
+	args: DecodedParam[]
+	panic_code?: string
 }
 
 export interface EvmLog {
@@ -99,6 +138,92 @@ export interface EvmLog {
 	address: string
 	topics: string[]
 	data: string
+	eventName: string | null
+	eventSignature: string | null
+	decodedArgs: DecodedParam[] | null
+}
+
+/**
+ * ABI-decoded function or event parameter
+ * Integers are decimal strings, tuples are objects keyed by component name
+ */
+export interface DecodedParam {
+	name: string
+	type: string
+	value: unknown
+}
+
+export interface EvmDecodeFailure {
+	tx_id: string
+	height: number | null
+	error: string
+	attempts: number
+	decoder_version: number | null
+	status: 'retrying' | 'dead'
+	first_failed_at: string
+	last_failed_at: string
+	/** Null once dead-lettered */
+	next_retry_at: string | null
+}
+
+export interface EvmBlockFee {
+	height: number
+	base_fee: string
+	/** 'event' (fee_market base_fee) or 'derived' (from a dynamic-fee tx's Cosmos fee) */
+	source: 'event' | 'derived'
+	updated_at: string
+}
+
+export interface EvmFeeHistoryBlock {
+	height: number
+	base_fee: string | null
+	base_fee_source: 'event' | 'derived' | null
+	gas_used: number
+	tx_count: number
+	/** Priority fee per requested percentile (gas-weighted), null when the base fee is unknown */
+	reward: Array<string | null> | null
+}
+
+export interface EvmFeeHistory {
+	oldest_block: number
+	newest_block: number
+	percentiles: number[]
+	blocks: EvmFeeHistoryBlock[]
+}
+
+export interface CosmosGasPriceSuggestion {
+	denom: string
+	/** Fee coins sampled in the window */
+	sample_size: number
+	/** Price per unit of gas in denom (25th / 50th / 75th percentile) */
+	slow: string
+	standard: string
+	fast: string
+}
+
+export interface EvmGasPriceTier {
+	/** Legacy (type 0/1) gas price */
+	gas_price: string | null
+	/** Null when no block in the window has a known base fee */
+	max_priority_fee_per_gas: string | null
+	/** 2 * base_fee + max_priority_fee_per_gas */
+	max_fee_per_gas: string | null
+}
+
+export interface GasOracle {
+	from_height: number
+	to_height: number
+	cosmos: CosmosGasPriceSuggestion[]
+	evm: {
+		sample_size: number
+		/** Latest known base fee in the window */
+		base_fee: string | null
+		base_fee_height: number | null
+		base_fee_source: 'event' | 'derived' | null
+		slow: EvmGasPriceTier
+		standard: EvmGasPriceTier
+		fast: EvmGasPriceTier
+	}
 }
 
 // Address
@@ -132,6 +257,7 @@ export interface SearchResult {
 
 export interface BlockRaw {
 	id: number
+	tx_count?: number
 	data: {
 		block: {
 			header: {
@@ -153,6 +279,161 @@ export interface BlockRaw {
 	}
 }
 
+// Validators
+
+export type ValidatorStatus =
+	| 'BOND_STATUS_UNSPECIFIED'
+	| 'BOND_STATUS_UNBONDED'
+	| 'BOND_STATUS_UNBONDING'
+	| 'BOND_STATUS_BONDED'
+
+export interface Validator {
+	operator_address: string
+	consensus_address: string | null
+	/** Uppercase hex, as in block proposer_address */
+	consensus_address_hex: string | null
+	consensus_pubkey: { type: string; key: string } | null
+	moniker: string | null
+	identity: string | null
+	website: string | null
+	security_contact: string | null
+	details: string | null
+	commission_rate: string | null
+	commission_max_rate: string | null
+	commission_max_change_rate: string | null
+	min_self_delegation: string | null
+	tokens: string | null
+	delegator_shares: string | null
+	/** Share of bonded tokens, null outside the active set */
+	voting_power_share: number | null
+	status: ValidatorStatus
+	jailed: boolean
+	unbonding_height: number | null
+	unbonding_time: string | null
+	updated_at: string
+}
+
+export interface ValidatorUptimeSummary {
+	operator_address: string
+	consensus_address: string | null
+	moniker: string | null
+	jailed: boolean
+	signed_blocks: number
+	missed_blocks: number
+	/** Fraction of committed blocks signed (0-1) */
+	uptime: number | null
+	last_missed_height: number | null
+	proposed_blocks: number
+}
+
+export interface ValidatorsUptime {
+	from_height: number | null
+	to_height: number | null
+	window_blocks: number
+	validators: ValidatorUptimeSummary[]
+}
+
+export interface ValidatorUptimeBucket {
+	from_height: number
+	to_height: number
+	blocks: number
+	missed_blocks: number
+	uptime: number
+}
+
+export interface ValidatorUptime {
+	operator_address: string
+	consensus_address: string | null
+	moniker: string | null
+	from_height: number | null
+	to_height: number | null
+	window_blocks: number
+	signed_blocks: number
+	missed_blocks: number
+	uptime: number | null
+	proposed_blocks: number
+	history: ValidatorUptimeBucket[]
+	/** Last 50 missed heights, newest first */
+	recent_missed_heights: number[]
+}
+
+export interface ProposerStat {
+	proposer_address_hex: string
+	/** Null when the proposer is not in api.validators */
+	operator_address: string | null
+	moniker: string | null
+	proposed_blocks: number
+	share: number
+	/** Current voting power share, null outside the active set */
+	expected_share: number | null
+	last_proposed_height: number
+}
+
+export interface ProposerStats {
+	from_height: number | null
+	to_height: number | null
+	total_blocks: number
+	proposers: ProposerStat[]
+}
+
+// Staking
+
+export type StakingActivityType = 'delegate' | 'undelegate' | 'redelegate' | 'cancel_unbonding' | 'withdraw_rewards'
+
+export interface Coin {
+	denom: string
+	amount: string
+}
+
+export interface Delegation {
+	validator_address: string
+	moniker: string | null
+	validator_status: ValidatorStatus | null
+	jailed: boolean | null
+	/** Delegated principal from indexed messages (slashing not applied) */
+	amount: string
+	denom: string | null
+	updated_height: number | null
+}
+
+export interface ValidatorDelegator {
+	delegator_address: string
+	amount: string
+	denom: string | null
+	/** Share of the validator's indexed delegations */
+	share: number | null
+	updated_height: number | null
+}
+
+export interface UnbondingDelegation {
+	tx_id: string
+	validator_address: string
+	moniker: string | null
+	amount: string
+	denom: string | null
+	height: number
+	timestamp: string | null
+	completion_time: string | null
+	completed: boolean | null
+}
+
+export interface StakingActivity {
+	tx_id: string
+	message_index: number
+	type: StakingActivityType
+	delegator_address: string
+	/** Destination validator for redelegations */
+	validator_address: string
+	src_validator_address: string | null
+	amount: string | null
+	denom: string | null
+	/** Rewards withdrawn by the message */
+	rewards: Coin[] | null
+	completion_time: string | null
+	height: number
+	timestamp: string | null
+}
+
 // Governance
 
 export interface GovernanceProposal {
@@ -171,6 +452,19 @@ export interface GovernanceProposal {
 		abstain: string | null
 		no_with_veto: string | null
 	}
+	/** Stake-weighted tally from the latest snapshot */
+	voting_power: {
+		yes: string
+		no: string
+		abstain: string
+		no_with_veto: string
+		bonded_tokens: string
+		turnout: number | null
+		quorum_reached: boolean | null
+		threshold_reached: boolean | null
+		vetoed: boolean | null
+		passing: boolean | null
+	} | null
 	last_updated: string
 	last_snapshot_time: string | null
 }
@@ -182,7 +476,280 @@ export interface ProposalSnapshot {
 	no_count: string
 	abstain_count: string
 	no_with_veto_count: string
+	/** Total stake that voted */
+	total_voting_power: string | null
+	yes_power: string | null
+	no_power: string | null
+	abstain_power: string | null
+	no_with_veto_power: string | null
+	bonded_tokens: string | null
+	turnout: string | null
+	quorum: string | null
+	threshold: string | null
+	veto_threshold: string | null
+	quorum_reached: boolean | null
+	threshold_reached: boolean | null
+	vetoed: boolean | null
+	passing: boolean | null
+	snapshot_time: string
+}
+
+export type ProposalMessageKind =
+	| 'software_upgrade'
+	| 'cancel_upgrade'
+	| 'param_change'
+	| 'community_pool_spend'
+	| 'client_update'
+	| 'text'
+	| 'other'
+
+export interface ProposalMessage {
+	message_index: number
+	/** Legacy content wrapped in MsgExecLegacyContent is unwrapped */
+	type_url: string
+	kind: ProposalMessageKind
+	authority: string | null
+	/**
+	 * Fields of the kind, null for 'other':
+	 * software_upgrade {name, height, info, time}, param_change {module, params} or {changes},
+	 * community_pool_spend {recipient, amount}, client_update {subject_client_id, substitute_client_id},
+	 * text {title, description}
+	 */
+	decoded: Record<string, unknown> | null
+	data: Record<string, unknown>
+}
+
+export interface UpgradePlan {
+	proposal_id: number
+	proposal_status: string | null
+	name: string
+	height: number | null
+	info: string | null
+	plan_time: string | null
+	latest_height: number | null
+	blocks_remaining: number | null
+	reached: boolean | null
+	/** Average block time in seconds used for the estimate */
+	avg_block_time: number | null
+	/** Latest block time + blocks_remaining * avg_block_time; null once reached */
+	estimated_time: string | null
+}
+
+export interface ProposalContent {
+	proposal_id: number
+	/** type_url of the first message */
+	proposal_type: string | null
+	messages: ProposalMessage[]
+	upgrade_plan: UpgradePlan | null
+}
+
+export interface ProposalTally {
+	proposal_id: number
+	yes: string
+	no: string
+	abstain: string
+	no_with_veto: string
+	total_voted: string
+	bonded_tokens: string
+	/** total_voted / bonded_tokens */
+	turnout: number | null
+	/** yes / (total_voted - abstain) */
+	yes_ratio: number | null
+	/** no_with_veto / total_voted */
+	veto_ratio: number | null
+	/** Gov tally params, null until chain-params-daemon has fetched them */
+	params: {
+		quorum: number | null
+		threshold: number | null
+		veto_threshold: number | null
+	}
+	quorum_reached: boolean | null
+	threshold_reached: boolean | null
+	vetoed: boolean | null
+	passing: boolean | null
+}
+
+export type VoteOption =
+	| 'VOTE_OPTION_YES'
+	| 'VOTE_OPTION_NO'
+	| 'VOTE_OPTION_ABSTAIN'
+	| 'VOTE_OPTION_NO_WITH_VETO'
+
+export interface WeightedVoteOption {
+	option: VoteOption
+	/** Decimal fraction of the vote, '1' for a plain MsgVote */
+	weight: string
+}
+
+export interface ProposalVote {
+	proposal_id: number
+	voter: string
+	options: WeightedVoteOption[]
+	is_weighted: boolean
+	metadata: string | null
+	/** True when the voter later changed this vote */
+	superseded: boolean
+	tx_id: string
+	height: number
+	timestamp: string | null
+}
+
+export interface AddressVote extends ProposalVote {
+	proposal_title: string | null
+	proposal_status: string | null
+}
+
+export interface ProposalDeposit {
+	proposal_id: number
+	depositor: string
+	amount: string
+	denom: string
+	/** Deposit made with MsgSubmitProposal */
+	is_initial: boolean
+	tx_id: string
+	height: number
+	timestamp: string | null
+}
+
+export interface ProposalDeposits extends PaginatedResponse<ProposalDeposit> {
+	total_deposit: Coin[]
+}
+
+// Chain params
+
+export type ChainParamModule = 'staking' | 'slashing' | 'distribution' | 'gov' | 'mint' | 'feemarket' | 'evm'
+
+export interface ModuleParams {
+	/** snake_case keys; LegacyDec values as decimal strings */
+	params: Record<string, unknown>
+	updated_height: number | null
+	updated_at: string
+}
+
+export type ChainParams = Partial<Record<ChainParamModule, ModuleParams>>
+
+export interface ChainParamChange {
+	module: ChainParamModule
+	key: string
+	value: unknown
+	/** null on the first observation of the key */
+	previous_value: unknown
+	/** Latest indexed block when the change was observed */
+	height: number | null
+	observed_at: string
+	/** Governance proposal that changed the param, when one matches */
+	proposal_id: number | null
+	proposal_title: string | null
+}
+
+// Supply
+
+export interface SupplyBreakdown {
+	denom: string
+	height: number | null
 	snapshot_time: string
+	total_supply: string
+	/** Total minus community pool and locked module account balances */
+	circulating_supply: string
+	/** Staking pools, null for denoms other than the bond denom */
+	bonded: string | null
+	not_bonded: string | null
+	community_pool: string | null
+	/** Module balances subtracted from circulating supply */
+	locked_module_balance: string
+	/** Balance per module account name */
+	module_accounts: Record<string, string>
+	bonded_ratio: number | null
+	circulating_ratio: number | null
+}
+
+export type SupplyInterval = 'hour' | 'day' | 'week' | 'month'
+
+export interface SupplyHistory {
+	denom: string | null
+	interval: SupplyInterval
+	days: number
+	data: Array<{
+		/** Start of the bucket; values are from its last snapshot */
+		time: string
+		height: number | null
+		total_supply: string
+		circulating_supply: string
+		bonded: string | null
+		not_bonded: string | null
+		community_pool: string | null
+		locked_module_balance: string
+	}>
+}
+
+// Contract types
+
+export interface EvmContractSummary {
+	address: string
+	creator: string | null
+	/** Cosmos tx id of the deployment */
+	creation_tx: string | null
+	creation_height: number | null
+	/** keccak256 of the deployment (init) code */
+	bytecode_hash: string | null
+	is_verified: boolean
+	name: string | null
+}
+
+export interface EvmContract extends EvmContractSummary {
+	creation_evm_hash: string | null
+	creation_time: string | null
+	compiler_version: string | null
+	has_abi: boolean
+	token: {
+		type: 'ERC20' | 'ERC721' | 'ERC1155'
+		name: string | null
+		symbol: string | null
+		decimals: number | null
+		total_supply: string | null
+	} | null
+}
+
+export type ContractVerificationStatus = 'pending' | 'compiling' | 'verified' | 'failed'
+
+export interface ContractVerificationSubmission {
+	address: string
+	/** solc version, e.g. '0.8.24' or 'v0.8.24+commit.e11b9ed9' */
+	compilerVersion: string
+	/** Fully qualified name, e.g. 'contracts/Token.sol:Token' */
+	contractName: string
+	/** Full solc standard-JSON input (alternative to sources + settings) */
+	standardJson?: Record<string, unknown>
+	/** Source files keyed by path */
+	sources?: Record<string, string>
+	/** solc settings (optimizer, evmVersion, remappings, libraries, ...) */
+	settings?: Record<string, unknown>
+}
+
+export interface ContractVerification {
+	id: number
+	address: string
+	compiler_version: string
+	contract_name: string
+	status: ContractVerificationStatus
+	/** 'full' when the metadata hash matches too */
+	match_type: 'full' | 'partial' | null
+	error: string | null
+	submitted_at: string
+	started_at: string | null
+	completed_at: string | null
+}
+
+export interface ContractSource {
+	address: string
+	name: string | null
+	compiler_version: string | null
+	abi: unknown[]
+	/** Source files keyed by path */
+	sources: Record<string, string>
+	match_type: 'full' | 'partial' | null
+	settings: Record<string, unknown> | null
+	verified_at: string | null
 }
 
 // Token types
@@ -195,15 +762,49 @@ export interface EvmToken {
 	type: 'ERC20' | 'ERC721' | 'ERC1155'
 	total_supply: string | null
 	verified: boolean
+	/** When name/symbol/decimals were fetched, null until enriched */
+	metadata_updated_at: string | null
+	/** When total_supply was last read on-chain */
+	supply_updated_at: string | null
 }
 
 export interface EvmTokenTransfer {
 	tx_id: string
+	height: number | null
 	log_index: number
+	/** Position within an ERC-1155 TransferBatch, 0 otherwise */
+	batch_index: number
 	token_address: string
 	from_address: string
 	to_address: string
+	/** Amount for ERC-20/1155, token id for ERC-721 (legacy) */
 	value: string
+	/** Token id for ERC-721/1155, null for ERC-20 */
+	token_id: string | null
+	amount: string | null
+}
+
+export interface TokenHolder {
+	rank: number
+	holder: string
+	/** Raw balance summed over all token ids held */
+	balance: string
+	/** Number of distinct token ids held (0 for ERC-20) */
+	token_id_count: number
+	/** Share of total supply, null when supply is unknown or zero */
+	percentage: number | null
+}
+
+export interface TokenBalance {
+	token_address: string
+	/** Token id for ERC-721/1155, null for ERC-20 */
+	token_id: string | null
+	balance: string
+	type: 'ERC20' | 'ERC721' | 'ERC1155' | null
+	name: string | null
+	symbol: string | null
+	decimals: number | null
+	updated_at: string
 }
 
 // IBC Types
@@ -0,0 +1,83 @@
+/**
+ * Backfill script for contract creation records
+ *
+ * Derives the CREATE address for deployment transactions decoded before
+ * contract tracking existed and populates evm_transactions.contract_address
+ * and api.evm_contracts.
+ */
+
+import pg from 'pg'
+import { contractCreationFor, recordContractCreation } from './lib/contracts'
+
+const DATABASE_URL = process.env.DATABASE_URL
+if (!DATABASE_URL) {
+  console.error('ERROR: DATABASE_URL environment variable is required')
+  process.exit(1)
+}
+
+const BATCH_SIZE = parseInt(process.env.BATCH_SIZE || '500', 10)
+
+async function backfillBatch(pool: pg.Pool): Promise<number> {
+  const client = await pool.connect()
+
+  try {
+    const result = await client.query(
+      `SELECT ev.tx_id, ev."from", ev."to", ev.nonce, ev.data, ev.status, t.height
+       FROM api.evm_transactions ev
+       JOIN api.transactions_main t ON t.id = ev.tx_id
+       WHERE ev."to" IS NULL
+         AND ev."from" <> ''
+         AND ev.status = 1
+         AND ev.contract_address IS NULL
+       ORDER BY t.height
+       LIMIT $1`,
+      [BATCH_SIZE]
+    )
+
+    await client.query('BEGIN')
+
+    for (const row of result.rows) {
+      const creation = contractCreationFor(
+        { ...row, nonce: Number(row.nonce) },
+        row.height !== null ? Number(row.height) : null
+      )
+      if (!creation) continue
+
+      await client.query(
+        'UPDATE api.evm_transactions SET contract_address = $2 WHERE tx_id = $1',
+        [row.tx_id, creation.address]
+      )
+      await recordContractCreation(client, creation)
+    }
+
+    await client.query('COMMIT')
+    return result.rows.length
+  } catch (err) {
+    await client.query('ROLLBACK')
+    throw err
+  } finally {
+    client.release()
+  }
+}
+
+async function main() {
+  const pool = new pg.Pool({ connectionString: DATABASE_URL })
+
+  try {
+    let total = 0
+    while (true) {
+      const count = await backfillBatch(pool)
+      if (count === 0) break
+      total += count
+      console.log(`  Recorded ${total} contract deployments`)
+    }
+    console.log(`Backfill complete: ${total} deployments`)
+  } finally {
+    await pool.end()
+  }
+}
+
+main().catch(err => {
+  console.error('Backfill failed:', err)
+  process.exit(1)
+})
@@ -4,7 +4,11 @@
  *
  * Queries chain gRPC endpoints using reflection for:
  * - Staking params (bond_denom)
- * - Bank supply
+ * - Gov tally params (quorum, threshold, veto threshold)
+ * - Module params (staking, slashing, distribution, gov, mint, feemarket, evm) with change history
+ * - Validator set (with consensus addresses)
+ * - Stake-weighted tally snapshots of proposals in voting period
+ * - Bank supply, with periodic snapshots of pools and module account balances
  * - IBC denom traces
  * - IBC channel/connection info
  * - Client status (for determining active channels)
@@ -17,6 +21,9 @@ import protobuf from 'protobufjs'
 import descriptorJson from 'protobufjs/google/protobuf/descriptor.json' with { type: 'json' }
 import pg from 'pg'
 import { createHash } from 'crypto'
+import { fromBech32, toBech32 } from '@cosmjs/encoding'
+import { MetricsRegistry, pollHealth, startMetricsServer } from './lib/metrics'
+import { deriveConsensusAddress } from './lib/consensus-address'
 
 const { Pool } = pg
 
@@ -24,6 +31,12 @@ const DATABASE_URL = process.env.DATABASE_URL
 const CHAIN_GRPC_ENDPOINT = process.env.CHAIN_GRPC_ENDPOINT
 const POLL_INTERVAL_MS = parseInt(process.env.CHAIN_PARAMS_POLL_INTERVAL_MS || '60000', 10)
 const USE_TLS = process.env.YACI_INSECURE !== 'true'
+// Supply snapshots are taken for the bond denom plus SUPPLY_DENOMS (comma separated)
+const SUPPLY_SNAPSHOT_INTERVAL_MS = parseInt(process.env.SUPPLY_SNAPSHOT_INTERVAL_MS || '3600000', 10)
+const SUPPLY_DENOMS = (process.env.SUPPLY_DENOMS || '').split(',').map(d => d.trim()).filter(Boolean)
+// /metrics and /healthz (0 disables); unhealthy when no poll succeeded within HEALTH_MAX_POLL_AGE_MS
+const METRICS_PORT = parseInt(process.env.METRICS_PORT || '9091', 10)
+const HEALTH_MAX_POLL_AGE_MS = parseInt(process.env.HEALTH_MAX_POLL_AGE_MS || String(POLL_INTERVAL_MS * 3), 10)
 
 if (!DATABASE_URL) {
 	console.error('DATABASE_URL environment variable is required')
@@ -35,6 +48,17 @@ if (!CHAIN_GRPC_ENDPOINT) {
 	process.exit(1)
 }
 
+const metrics = new MetricsRegistry()
+const grpcDuration = metrics.histogram('yaci_grpc_request_duration_seconds', 'Chain gRPC call latency, by method')
+const grpcErrors = metrics.counter('yaci_grpc_request_errors_total', 'Failed chain gRPC calls, by method')
+const listenConnected = metrics.gauge('yaci_listen_connected', 'Whether the LISTEN connection is up (1) or down (0)')
+const lastSuccessfulPoll = metrics.gauge('yaci_last_successful_poll_timestamp_seconds', 'Unix time of the last poll cycle in which the chain answered')
+const pollDuration = metrics.histogram('yaci_poll_duration_seconds', 'Duration of a full poll cycle')
+listenConnected.set(0)
+
+// Successful gRPC calls since the current poll cycle started
+let grpcSuccesses = 0
+
 // Reflection proto definitions (v1alpha is most common)
 const REFLECTION_PROTO_V1ALPHA = `
 syntax = "proto3";
@@ -291,6 +315,8 @@ class ReflectionClient {
 			})
 
 			const deadline = new Date(Date.now() + 30000)
+			const started = performance.now()
+			const labels = { method: methodPath }
 
 			client.makeUnaryRequest(
 				methodPath,
@@ -300,12 +326,16 @@ class ReflectionClient {
 				{ deadline },
 				async (error, response) => {
 					client.close()
+					grpcDuration.observe((performance.now() - started) / 1000, labels)
 
 					if (error) {
+						grpcErrors.inc(labels)
 						reject(new Error(`gRPC Error (${error.code}): ${error.message}`))
 						return
 					}
 
+					grpcSuccesses++
+
 					if (!response) {
 						reject(new Error('No response received'))
 						return
@@ -322,6 +352,25 @@ class ReflectionClient {
 		})
 	}
 
+	/**
+	 * Decode a google.protobuf.Any as returned in responses (value as base64)
+	 */
+	async decodeAny<T>(any: { type_url?: string; typeUrl?: string; value?: string | Uint8Array }): Promise<T> {
+		const typeName = (any.type_url || any.typeUrl || '').replace(/^\//, '')
+		let type: protobuf.Type
+		try {
+			type = this.root.lookupType(typeName)
+		} catch {
+			await this.loadService(typeName)
+			type = this.root.lookupType(typeName)
+		}
+
+		const value = typeof any.value === 'string'
+			? Buffer.from(any.value, 'base64')
+			: Buffer.from(any.value ?? [])
+		return this.decodeWithMissingTypes(type, value)
+	}
+
 	private async decodeWithMissingTypes(responseType: protobuf.Type, buffer: Buffer, depth = 0): Promise<any> {
 		if (depth > 20) throw new Error('Max decode depth exceeded')
 
@@ -417,6 +466,8 @@ async function fetchStakingParams(pool: pg.Pool): Promise<void> {
 		const bondDenom = params.bondDenom || params.bond_denom
 		console.log(`Bond denom: ${bondDenom}`)
 
+		await recordModuleParams(pool, 'staking', params, ['min_commission_rate'])
+
 		// Update chain_params table
 		await pool.query(`
 			INSERT INTO api.chain_params (key, value, updated_at)
@@ -455,6 +506,272 @@ async function fetchStakingParams(pool: pg.Pool): Promise<void> {
 	}
 }
 
+async function fetchGovParams(pool: pg.Pool): Promise<void> {
+	console.log('Fetching gov tally params...')
+
+	try {
+		const client = await getClient()
+		const result = await client.invokeMethod<any>(
+			'cosmos.gov.v1.Query',
+			'Params',
+			{ params_type: 'tallying' }
+		)
+
+		// SDK 0.47+ returns everything in params, older versions in tally_params
+		const params = result?.params?.quorum ? result.params : (result?.tallyParams || result?.tally_params)
+		if (!params?.quorum) {
+			console.log('No gov tally params returned')
+			return
+		}
+
+		await recordModuleParams(pool, 'gov', params, GOV_DEC_FIELDS)
+
+		await pool.query(`
+			INSERT INTO api.chain_params (key, value, updated_at)
+			VALUES
+				('gov_quorum', $1, NOW()),
+				('gov_threshold', $2, NOW()),
+				('gov_veto_threshold', $3, NOW())
+			ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, updated_at = NOW()
+		`, [
+			decFromProto(params.quorum),
+			decFromProto(params.threshold),
+			decFromProto(params.vetoThreshold || params.veto_threshold)
+		])
+
+		console.log(`Gov tally params: quorum ${params.quorum}, threshold ${params.threshold}`)
+	} catch (err) {
+		console.error('Error fetching gov params:', err)
+	}
+}
+
+// LegacyDec values travel over gRPC as integers scaled by 1e18
+function decFromProto(value: string | undefined | null): string | null {
+	if (!value) return null
+	if (value.includes('.')) return value
+	const negative = value.startsWith('-')
+	const digits = (negative ? value.slice(1) : value).padStart(19, '0')
+	return `${negative ? '-' : ''}${digits.slice(0, -18)}.${digits.slice(-18)}`
+}
+
+// LegacyDec params are strings, except in slashing where they are the same
+// string sent as bytes (base64 here)
+function decParam(value: unknown): unknown {
+	if (typeof value !== 'string' || !value) return value
+	const text = /^-?\d+(\.\d+)?$/.test(value) ? value : Buffer.from(value, 'base64').toString('utf8')
+	return decFromProto(text)
+}
+
+const GOV_DEC_FIELDS = [
+	'quorum', 'threshold', 'veto_threshold', 'expedited_threshold',
+	'min_initial_deposit_ratio', 'proposal_cancel_ratio', 'min_deposit_ratio',
+]
+
+// Modules whose params are only recorded for the history; the first service
+// that answers is used (feemarket / evm live under ethermint or cosmos.evm)
+const MODULE_PARAMS: { module: string; services: string[]; decFields: string[] }[] = [
+	{
+		module: 'slashing',
+		services: ['cosmos.slashing.v1beta1.Query'],
+		decFields: ['min_signed_per_window', 'slash_fraction_double_sign', 'slash_fraction_downtime'],
+	},
+	{
+		module: 'distribution',
+		services: ['cosmos.distribution.v1beta1.Query'],
+		decFields: ['community_tax', 'base_proposer_reward', 'bonus_proposer_reward'],
+	},
+	{
+		module: 'mint',
+		services: ['cosmos.mint.v1beta1.Query'],
+		decFields: ['inflation_rate_change', 'inflation_max', 'inflation_min', 'goal_bonded'],
+	},
+	{
+		module: 'feemarket',
+		services: ['cosmos.evm.feemarket.v1.Query', 'ethermint.feemarket.v1.Query'],
+		decFields: ['min_gas_price', 'min_gas_multiplier'],
+	},
+	{
+		module: 'evm',
+		services: ['cosmos.evm.vm.v1.Query', 'ethermint.evm.v1.Query'],
+		decFields: [],
+	},
+]
+
+// Modules whose last fetch failed, so a missing module is only logged once
+const unavailableModules = new Set<string>()
+
+// Keys are stored in snake_case whatever casing the decoder produced
+async function recordModuleParams(
+	pool: pg.Pool,
+	module: string,
+	params: Record<string, any>,
+	decFields: string[] = []
+): Promise<void> {
+	const normalized: Record<string, unknown> = {}
+	for (const [key, value] of Object.entries(params)) {
+		const name = key.replace(/[A-Z]/g, c => `_${c.toLowerCase()}`)
+		normalized[name] = decFields.includes(name) ? decParam(value) : value
+	}
+
+	const result = await pool.query(
+		'SELECT api.record_module_params($1, $2) AS changed',
+		[module, JSON.stringify(normalized)]
+	)
+	const changed = result.rows[0]?.changed ?? 0
+	if (changed > 0) {
+		console.log(`Recorded ${changed} changed ${module} params`)
+	}
+}
+
+async function fetchModuleParams(pool: pg.Pool): Promise<void> {
+	console.log('Fetching module params...')
+
+	try {
+		const client = await getClient()
+		for (const { module, services, decFields } of MODULE_PARAMS) {
+			let lastError: unknown = null
+			let params: Record<string, any> | null = null
+
+			for (const service of services) {
+				try {
+					const result = await client.invokeMethod<any>(service, 'Params', {})
+					params = result?.params ?? null
+					if (params) break
+				} catch (err) {
+					lastError = err
+				}
+			}
+
+			if (!params) {
+				if (!unavailableModules.has(module)) {
+					unavailableModules.add(module)
+					console.log(`No ${module} params available:`, lastError instanceof Error ? lastError.message : 'empty response')
+				}
+				continue
+			}
+
+			unavailableModules.delete(module)
+			await recordModuleParams(pool, module, params, decFields)
+		}
+	} catch (err) {
+		console.error('Error fetching module params:', err)
+	}
+}
+
+async function fetchValidators(pool: pg.Pool): Promise<void> {
+	console.log('Fetching validators...')
+
+	try {
+		const client = await getClient()
+		const validators: any[] = []
+		let nextKey: string | null = null
+
+		do {
+			const result: any = await client.invokeMethod<any>(
+				'cosmos.staking.v1beta1.Query',
+				'Validators',
+				{ status: '', pagination: { key: nextKey ?? '', limit: 200 } }
+			)
+			validators.push(...(result?.validators || []))
+			nextKey = result?.pagination?.nextKey || result?.pagination?.next_key || null
+		} while (nextKey)
+
+		if (validators.length === 0) {
+			console.log('No validators returned')
+			return
+		}
+
+		for (const v of validators) {
+			const operatorAddress = v.operatorAddress || v.operator_address
+			const description = v.description || {}
+			const rates = v.commission?.commissionRates || v.commission?.commission_rates || {}
+			const consensus = deriveConsensusAddress(v.consensusPubkey || v.consensus_pubkey, operatorAddress)
+			const operator = fromBech32(operatorAddress)
+			const accountAddress = toBech32(operator.prefix.replace(/valoper$/, ''), operator.data)
+			const unbondingTime = v.unbondingTime || v.unbonding_time
+			const unbondingSeconds = Number(unbondingTime?.seconds || 0)
+
+			await pool.query(`
+				INSERT INTO api.validators (
+					operator_address, account_address, consensus_address, consensus_address_hex, consensus_pubkey,
+					moniker, identity, website, security_contact, details,
+					commission_rate, commission_max_rate, commission_max_change_rate,
+					min_self_delegation, tokens, delegator_shares, status, jailed,
+					unbonding_height, unbonding_time, updated_at
+				) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, NOW())
+				ON CONFLICT (operator_address) DO UPDATE SET
+					account_address = EXCLUDED.account_address,
+					consensus_address = COALESCE(EXCLUDED.consensus_address, api.validators.consensus_address),
+					consensus_address_hex = COALESCE(EXCLUDED.consensus_address_hex, api.validators.consensus_address_hex),
+					consensus_pubkey = COALESCE(EXCLUDED.consensus_pubkey, api.validators.consensus_pubkey),
+					moniker = EXCLUDED.moniker,
+					identity = EXCLUDED.identity,
+					website = EXCLUDED.website,
+					security_contact = EXCLUDED.security_contact,
+					details = EXCLUDED.details,
+					commission_rate = EXCLUDED.commission_rate,
+					commission_max_rate = EXCLUDED.commission_max_rate,
+					commission_max_change_rate = EXCLUDED.commission_max_change_rate,
+					min_self_delegation = EXCLUDED.min_self_delegation,
+					tokens = EXCLUDED.tokens,
+					delegator_shares = EXCLUDED.delegator_shares,
+					status = EXCLUDED.status,
+					jailed = EXCLUDED.jailed,
+					unbonding_height = EXCLUDED.unbonding_height,
+					unbonding_time = EXCLUDED.unbonding_time,
+					updated_at = NOW()
+			`, [
+				operatorAddress,
+				accountAddress,
+				consensus?.bech32 ?? null,
+				consensus?.hex ?? null,
+				consensus ? JSON.stringify(consensus.pubkey) : null,
+				description.moniker || null,
+				description.identity || null,
+				description.website || null,
+				description.securityContact || description.security_contact || null,
+				description.details || null,
+				decFromProto(rates.rate),
+				decFromProto(rates.maxRate || rates.max_rate),
+				decFromProto(rates.maxChangeRate || rates.max_change_rate),
+				v.minSelfDelegation || v.min_self_delegation || null,
+				v.tokens || '0',
+				decFromProto(v.delegatorShares || v.delegator_shares),
+				v.status?.toString() || 'BOND_STATUS_UNSPECIFIED',
+				v.jailed === true,
+				Number(v.unbondingHeight || v.unbonding_height || 0) || null,
+				unbondingSeconds > 0 ? new Date(unbondingSeconds * 1000).toISOString() : null
+			])
+		}
+
+		// Validators removed from state have fully unbonded
+		const removed = await pool.query(`
+			UPDATE api.validators
+			SET status = 'BOND_STATUS_UNBONDED', tokens = 0, delegator_shares = 0, updated_at = NOW()
+			WHERE NOT (operator_address = ANY($1))
+			  AND (status IS DISTINCT FROM 'BOND_STATUS_UNBONDED' OR tokens <> 0)
+		`, [validators.map(v => v.operatorAddress || v.operator_address)])
+
+		const bonded = validators.filter(v => v.status?.toString() === 'BOND_STATUS_BONDED').length
+		console.log(`Processed ${validators.length} validators (${bonded} bonded, ${removed.rowCount ?? 0} removed)`)
+	} catch (err) {
+		console.error('Error fetching validators:', err)
+	}
+}
+
+// Runs after the validator set refresh so tallies use current tokens
+async function snapshotProposalTallies(pool: pg.Pool): Promise<void> {
+	try {
+		const result = await pool.query('SELECT api.snapshot_proposal_tallies() AS inserted')
+		const inserted = result.rows[0]?.inserted ?? 0
+		if (inserted > 0) {
+			console.log(`Stored ${inserted} proposal tally snapshots`)
+		}
+	} catch (err) {
+		console.error('Error snapshotting proposal tallies:', err)
+	}
+}
+
 async function fetchTotalSupply(pool: pg.Pool): Promise<void> {
 	console.log('Fetching total supply...')
 
@@ -494,6 +811,93 @@ async function fetchTotalSupply(pool: pg.Pool): Promise<void> {
 	}
 }
 
+// Time of the last stored supply snapshot (0 forces one on startup)
+let lastSupplySnapshot = 0
+
+async function fetchSupplySnapshot(pool: pg.Pool): Promise<void> {
+	if (Date.now() - lastSupplySnapshot < SUPPLY_SNAPSHOT_INTERVAL_MS) return
+
+	console.log('Taking supply snapshot...')
+
+	try {
+		const bondDenomResult = await pool.query(
+			`SELECT value FROM api.chain_params WHERE key = 'bond_denom'`
+		)
+		const bondDenom: string | undefined = bondDenomResult.rows[0]?.value
+		if (!bondDenom) {
+			console.log('Bond denom not yet fetched, skipping supply snapshot')
+			return
+		}
+
+		const client = await getClient()
+		const denoms = [...new Set([bondDenom, ...SUPPLY_DENOMS])]
+
+		const stakingPool = (await client.invokeMethod<any>('cosmos.staking.v1beta1.Query', 'Pool', {}))?.pool
+		const communityPool: any[] = (await client.invokeMethod<any>(
+			'cosmos.distribution.v1beta1.Query',
+			'CommunityPool',
+			{}
+		))?.pool || []
+
+		// Balances of every module account, by denom
+		const moduleBalances = new Map<string, Record<string, string>>()
+		const moduleAccounts: any[] = (await client.invokeMethod<any>(
+			'cosmos.auth.v1beta1.Query',
+			'ModuleAccounts',
+			{}
+		))?.accounts || []
+
+		for (const any of moduleAccounts) {
+			const account = await client.decodeAny<any>(any)
+			const name = account?.name
+			const address = account?.baseAccount?.address || account?.base_account?.address
+			if (!name || !address) continue
+
+			const balances: any[] = (await client.invokeMethod<any>(
+				'cosmos.bank.v1beta1.Query',
+				'AllBalances',
+				{ address, pagination: { limit: 1000 } }
+			))?.balances || []
+
+			for (const coin of balances) {
+				if (!denoms.includes(coin.denom) || coin.amount === '0') continue
+				const byName = moduleBalances.get(coin.denom) ?? {}
+				byName[name] = coin.amount
+				moduleBalances.set(coin.denom, byName)
+			}
+		}
+
+		for (const denom of denoms) {
+			const supply = await client.invokeMethod<any>('cosmos.bank.v1beta1.Query', 'SupplyOf', { denom })
+			if (!supply?.amount?.amount) {
+				console.log(`No supply returned for ${denom}`)
+				continue
+			}
+
+			const isBondDenom = denom === bondDenom
+			// Community pool amounts are DecCoins (1e18-scaled)
+			const community = communityPool.find(c => c.denom === denom)
+
+			await pool.query(
+				'SELECT api.record_supply_snapshot($1, $2, $3, $4, $5, $6)',
+				[
+					denom,
+					supply.amount.amount,
+					isBondDenom ? stakingPool?.bondedTokens || stakingPool?.bonded_tokens || null : null,
+					isBondDenom ? stakingPool?.notBondedTokens || stakingPool?.not_bonded_tokens || null : null,
+					community ? decFromProto(community.amount) : '0',
+					JSON.stringify(moduleBalances.get(denom) ?? {})
+				]
+			)
+		}
+
+		lastSupplySnapshot = Date.now()
+		console.log(`Stored supply snapshots for ${denoms.join(', ')}`)
+	} catch (err) {
+		console.error('Error taking supply snapshot:', err)
+	}
+}
+
 async function fetchIBCDenomTraces(pool: pg.Pool): Promise<void> {
 	console.log('Fetching IBC denom traces...')
 
@@ -826,9 +1230,21 @@ async function runDaemon(): Promise<void> {
 
 	const pool = new Pool({ connectionString: DATABASE_URL })
 
+	const startedAt = Date.now()
+	startMetricsServer(METRICS_PORT, metrics, () => ({
+		...pollHealth(lastSuccessfulPoll, startedAt, HEALTH_MAX_POLL_AGE_MS),
+		listen_connected: listenConnected.get() === 1,
+	}))
+
 	// Set up LISTEN for new pending IBC denoms
 	const listenClient = await pool.connect()
 	await listenClient.query('LISTEN ibc_denom_pending')
+	listenConnected.set(1)
+	listenClient.on('error', (err) => {
+		listenConnected.set(0)
+		console.error('LISTEN connection error:', err.message)
+	})
+	listenClient.on('end', () => listenConnected.set(0))
 	listenClient.on('notification', async (msg) => {
 		if (msg.channel === 'ibc_denom_pending' && msg.payload) {
 			console.log(`Received notification for IBC denom: ${msg.payload}`)
@@ -838,23 +1254,33 @@ async function runDaemon(): Promise<void> {
 	})
 	console.log('Listening for ibc_denom_pending notifications...')
 
-	// Initial fetch
-	await fetchStakingParams(pool)
-	await fetchTotalSupply(pool)
-	await fetchIBCDenomTraces(pool)
-	await fetchIBCChannels(pool)
-
-	// Process any existing pending denoms
-	await processPendingDenoms(pool)
-
-	// Poll loop
-	setInterval(async () => {
-		try {
+	// Fetch errors are logged per source; a cycle counts as successful once the chain answered
+	const pollCycle = async () => {
+		grpcSuccesses = 0
+		await pollDuration.time(async () => {
 			await fetchStakingParams(pool)
+			await fetchGovParams(pool)
+			await fetchModuleParams(pool)
+			await fetchValidators(pool)
+			await snapshotProposalTallies(pool)
 			await fetchTotalSupply(pool)
+			await fetchSupplySnapshot(pool)
 			await fetchIBCDenomTraces(pool)
 			await fetchIBCChannels(pool)
 			await processPendingDenoms(pool)
+		})
+		if (grpcSuccesses > 0) {
+			lastSuccessfulPoll.setToCurrentTime()
+		}
+	}
+
+	// Initial fetch, including any existing pending denoms
+	await pollCycle()
+
+	// Poll loop
+	setInterval(async () => {
+		try {
+			await pollCycle()
 		} catch (err) {
 			console.error('Poll cycle error:', err)
 		}
@@ -4,38 +4,34 @@
  * Triggered via api.request_evm_decode() RPC function
  */
 
+import { hostname } from 'os'
 import pg from 'pg'
-import { Transaction, hexlify, keccak256, getAddress } from 'ethers'
+import type protobuf from 'protobufjs'
+import { AbiRegistry } from './lib/abi-registry'
+import {
+  EvmDecodeError,
+  claimPendingTransactions,
+  decodePendingTransaction,
+  loadEvmProto,
+  persistDecodedTransaction,
+  recordDecodeFailure,
+  registerDecodeLagMetrics,
+  releaseClaims,
+  type RetryPolicy,
+} from './lib/evm-decode'
+import { MetricsRegistry, startMetricsServer } from './lib/metrics'
 
 const DATABASE_URL = process.env.DATABASE_URL
-
-interface DecodedTx {
-  tx_id: string
-  hash: string
-  from: string
-  to: string | null
-  nonce: number
-  gas_limit: bigint
-  gas_price: bigint
-  max_fee_per_gas: bigint | null
-  max_priority_fee_per_gas: bigint | null
-  value: bigint
-  data: string
-  type: number
-  chain_id: bigint | null
-  gas_used: number | null
-  status: number
-  function_name: string | null
-  function_signature: string | null
-}
-
-interface DecodedLog {
-  tx_id: string
-  log_index: number
-  address: string
-  topics: string[]
-  data: string
+const ABI_REFRESH_MS = parseInt(process.env.ABI_REFRESH_MS || '300000', 10)
+const FOURBYTE_LOOKUP = process.env.FOURBYTE_LOOKUP === 'true'
+const RETRY_POLICY: RetryPolicy = {
+  maxAttempts: parseInt(process.env.DECODE_MAX_ATTEMPTS || '5', 10),
+  baseDelayMs: parseInt(process.env.DECODE_RETRY_BASE_MS || '60000', 10),
 }
+const LEASE_MS = parseInt(process.env.DECODE_LEASE_MS || '300000', 10)
+const WORKER_ID = `priority-${hostname()}-${process.pid}`
+const METRICS_PORT = parseInt(process.env.METRICS_PORT || '9091', 10)
+const DECODE_LAG_REFRESH_MS = parseInt(process.env.DECODE_LAG_REFRESH_MS || '60000', 10)
 
 const pool = new pg.Pool({
   connectionString: DATABASE_URL,
@@ -47,51 +43,26 @@ const pool = new pg.Pool({
   keepAliveInitialDelayMillis: 10000,
 })
 
-function decodeTransaction(rawBase64: string, txId: string, gasUsed: number | null): DecodedTx | null {
+const metrics = new MetricsRegistry()
+const listenConnected = metrics.gauge('yaci_listen_connected', 'Whether the LISTEN connection is up (1) or down (0)')
+const listenReconnects = metrics.counter('yaci_listen_reconnects_total', 'LISTEN connection reconnect attempts')
+const priorityRequests = metrics.counter('yaci_evm_priority_requests_total', 'Priority decode requests, by result (success / failed)')
+const priorityDuration = metrics.histogram('yaci_evm_priority_decode_duration_seconds', 'Time to handle a priority decode request')
+const lastNotification = metrics.gauge('yaci_last_notification_timestamp_seconds', 'Unix time of the last evm_decode_priority notification')
+listenConnected.set(0)
+
+let root: protobuf.Root
+const registry = AbiRegistry.withKnownSignatures()
+let lastAbiRefresh = 0
+
+async function refreshAbis() {
+  if (Date.now() - lastAbiRefresh < ABI_REFRESH_MS) return
+  lastAbiRefresh = Date.now()
   try {
-    const bytes = Uint8Array.from(atob(rawBase64), c => c.charCodeAt(0))
-    const hexData = hexlify(bytes)
-    const tx = Transaction.from(hexData)
-    const hash = keccak256(hexData)
-
-    let functionSignature: string | null = null
-    let functionName: string | null = null
-
-    if (tx.data && tx.data.length >= 10) {
-      functionSignature = tx.data.slice(0, 10)
-      const knownSignatures: Record<string, string> = {
-        '0xa9059cbb': 'transfer(address,uint256)',
-        '0x23b872dd': 'transferFrom(address,address,uint256)',
-        '0x095ea7b3': 'approve(address,uint256)',
-        '0x42842e0e': 'safeTransferFrom(address,address,uint256)',
-      }
-      if (knownSignatures[functionSignature]) {
-        functionName = knownSignatures[functionSignature]
-      }
-    }
-
-    return {
-      tx_id: txId,
-      hash,
-      from: tx.from ? getAddress(tx.from) : '',
-      to: tx.to ? getAddress(tx.to) : null,
-      nonce: tx.nonce,
-      gas_limit: tx.gasLimit,
-      gas_price: tx.gasPrice || BigInt(0),
-      max_fee_per_gas: tx.maxFeePerGas,
-      max_priority_fee_per_gas: tx.maxPriorityFeePerGas,
-      value: tx.value,
-      data: tx.data,
-      type: tx.type || 0,
-      chain_id: tx.chainId,
-      gas_used: gasUsed,
-      status: 1,
-      function_name: functionName,
-      function_signature: functionSignature,
-    }
+    const loaded = await registry.loadContractAbis(pool)
+    console.log(`[Priority EVM Decoder] Loaded ${loaded} contract ABIs`)
   } catch (err) {
-    console.error(`Failed to decode transaction ${txId}:`, err)
-    return null
+    console.error('[Priority EVM Decoder] Failed to load contract ABIs:', err)
   }
 }
 
@@ -100,18 +71,15 @@ async function decodeSingleTransaction(txId: string): Promise<{
   message: string
   data?: any
 }> {
+  await refreshAbis()
   const client = await pool.connect()
+  let claimed = false
 
   try {
-    const pending = await client.query(
-      `SELECT tx_id, raw_bytes, gas_used
-       FROM api.evm_pending_decode
-       WHERE tx_id = $1
-       LIMIT 1`,
-      [txId]
-    )
-
-    if (pending.rows.length === 0) {
+    // Claim through the same lease as the batch workers so a tx is never decoded twice
+    const pending = await claimPendingTransactions(client, WORKER_ID, 1, LEASE_MS, [txId])
+
+    if (pending.length === 0) {
       const existing = await client.query(
         `SELECT hash FROM api.evm_transactions WHERE tx_id = $1`,
         [txId]
@@ -125,66 +93,83 @@ async function decodeSingleTransaction(txId: string): Promise<{
         }
       }
 
+      const claim = await client.query(
+        `SELECT worker_id, lease_expires_at FROM api.evm_decode_claims
+         WHERE tx_id = $1 AND lease_expires_at > NOW()`,
+        [txId]
+      )
+
+      if (claim.rows.length > 0) {
+        return {
+          success: true,
+          message: `Transaction is being decoded by ${claim.rows[0].worker_id}`,
+          data: claim.rows[0],
+        }
+      }
+
+      const failure = await client.query(
+        `SELECT error, attempts, status, next_retry_at FROM api.evm_decode_failures WHERE tx_id = $1`,
+        [txId]
+      )
+
+      if (failure.rows.length > 0) {
+        return {
+          success: false,
+          message: `Transaction failed to decode (${failure.rows[0].status}): ${failure.rows[0].error}`,
+          data: failure.rows[0],
+        }
+      }
+
       return {
         success: false,
         message: 'Transaction not found in pending queue or decoded transactions',
       }
     }
 
-    const row = pending.rows[0]
-    const decoded = decodeTransaction(row.raw_bytes, row.tx_id, row.gas_used)
+    claimed = true
 
-    if (!decoded) {
+    let decoded
+    try {
+      decoded = await decodePendingTransaction(client, pending[0], root, registry, {
+        fourbyteLookup: FOURBYTE_LOOKUP,
+      })
+    } catch (err) {
+      if (!(err instanceof EvmDecodeError)) throw err
+      await client.query('BEGIN')
+      const failure = await recordDecodeFailure(client, txId, err, RETRY_POLICY)
+      await releaseClaims(client, WORKER_ID, [txId])
+      await client.query('COMMIT')
+      claimed = false
       return {
         success: false,
-        message: 'Failed to decode transaction',
+        message: `Failed to decode transaction: ${err.message}`,
+        data: failure,
       }
     }
 
     await client.query('BEGIN')
 
-    await client.query(
-      `INSERT INTO api.evm_transactions
-       (tx_id, hash, "from", "to", nonce, gas_limit, gas_price, max_fee_per_gas,
-        max_priority_fee_per_gas, value, data, type, chain_id, gas_used, status,
-        function_name, function_signature)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
-       ON CONFLICT (tx_id) DO NOTHING`,
-      [
-        decoded.tx_id,
-        decoded.hash,
-        decoded.from,
-        decoded.to,
-        decoded.nonce,
-        decoded.gas_limit.toString(),
-        decoded.gas_price.toString(),
-        decoded.max_fee_per_gas?.toString(),
-        decoded.max_priority_fee_per_gas?.toString(),
-        decoded.value.toString(),
-        decoded.data,
-        decoded.type,
-        decoded.chain_id?.toString(),
-        decoded.gas_used,
-        decoded.status,
-        decoded.function_name,
-        decoded.function_signature,
-      ]
-    )
+    await persistDecodedTransaction(client, decoded)
+    await releaseClaims(client, WORKER_ID, [txId])
 
     // Note: No need to delete from evm_pending_decode - it's a VIEW that automatically
     // excludes transactions once they exist in evm_transactions
 
     await client.query('COMMIT')
+    claimed = false
 
     console.log(`✓ Decoded priority transaction: ${txId}`)
 
     return {
       success: true,
       message: 'Transaction decoded successfully',
-      data: decoded,
+      data: { hash: decoded.tx.hash, logs: decoded.logs.length },
     }
   } catch (err) {
     await client.query('ROLLBACK')
+    if (claimed) {
+      await releaseClaims(client, WORKER_ID, [txId]).catch(() => {})
+    }
     console.error(`Error decoding transaction ${txId}:`, err)
     return {
       success: false,
@@ -201,12 +186,23 @@ let reconnectTimeout: NodeJS.Timeout | null = null
 async function startPriorityListener() {
   console.log('[Priority EVM Decoder] Starting...')
 
+  root = await loadEvmProto()
+  await refreshAbis()
+
+  registerDecodeLagMetrics(metrics, pool, DECODE_LAG_REFRESH_MS)
+  // Healthy while the LISTEN connection is up; requests are only received through it
+  startMetricsServer(METRICS_PORT, metrics, () => ({
+    healthy: listenConnected.get() === 1,
+    listen_connected: listenConnected.get() === 1,
+  }))
+
   async function connect() {
     try {
       listenerClient = await pool.connect()
       console.log('[Priority EVM Decoder] Listening for evm_decode_priority notifications')
 
       await listenerClient.query('LISTEN evm_decode_priority')
+      listenConnected.set(1)
 
       listenerClient.on('notification', async (msg) => {
         if (msg.channel === 'evm_decode_priority') {
@@ -214,15 +210,19 @@ async function startPriorityListener() {
           if (!txId) return
 
           console.log(`[Priority EVM Decoder] Received request for ${txId}`)
+          lastNotification.setToCurrentTime()
 
           try {
-            const result = await decodeSingleTransaction(txId)
+            const result = await priorityDuration.time(() => decodeSingleTransaction(txId))
             if (result.success) {
+              priorityRequests.inc({ result: 'success' })
               console.log(`[Priority EVM Decoder] Decoded ${txId}`)
             } else {
+              priorityRequests.inc({ result: 'failed' })
               console.log(`[Priority EVM Decoder] Failed ${txId}: ${result.message}`)
             }
           } catch (err) {
+            priorityRequests.inc({ result: 'failed' })
             console.error(`[Priority EVM Decoder] Error processing ${txId}:`, err)
           }
         }
@@ -250,6 +250,8 @@ async function startPriorityListener() {
     if (shuttingDown) return
 
     listenerClient = null
+    listenConnected.set(0)
+    listenReconnects.inc()
     console.log('[Priority EVM Decoder] Reconnecting in 5 seconds...')
     reconnectTimeout = setTimeout(() => {
       reconnectTimeout = null
@@ -0,0 +1,65 @@
+#!/usr/bin/env bun
+/**
+ * Download solc release binaries for the contract verifier
+ *
+ * Fetches the linux-amd64 builds listed in SOLC_VERSIONS (space separated,
+ * e.g. "0.8.24 0.8.28", "latest" for the newest release) from
+ * binaries.soliditylang.org into the target directory under their solc-bin
+ * names, checking each file against the published sha256.
+ *
+ * Usage: SOLC_VERSIONS="0.8.24 latest" bun run scripts/install-solc.ts /usr/local/lib/solc
+ */
+
+import { createHash } from 'crypto'
+import { chmodSync, mkdirSync, writeFileSync } from 'fs'
+import { join } from 'path'
+
+const SOLC_BIN_URL = process.env.SOLC_BIN_URL || 'https://binaries.soliditylang.org/linux-amd64'
+const SOLC_VERSIONS = (process.env.SOLC_VERSIONS || 'latest').split(/\s+/).filter(Boolean)
+const targetDir = process.argv[2] || '/usr/local/lib/solc'
+
+interface SolcList {
+	builds: { path: string; version: string; sha256: string }[]
+	releases: Record<string, string>
+	latestRelease: string
+}
+
+async function main() {
+	const response = await fetch(`${SOLC_BIN_URL}/list.json`)
+	if (!response.ok) {
+		throw new Error(`list.json returned HTTP ${response.status}`)
+	}
+	const list = await response.json() as SolcList
+
+	mkdirSync(targetDir, { recursive: true })
+
+	for (const requested of SOLC_VERSIONS) {
+		const version = requested === 'latest' ? list.latestRelease : requested.replace(/^v/, '')
+		const path = list.releases[version]
+		const build = list.builds.find(b => b.path === path)
+		if (!path || !build) {
+			throw new Error(`solc ${version} is not a release in ${SOLC_BIN_URL}/list.json`)
+		}
+
+		const binary = await fetch(`${SOLC_BIN_URL}/${path}`)
+		if (!binary.ok) {
+			throw new Error(`${path} returned HTTP ${binary.status}`)
+		}
+		const bytes = Buffer.from(await binary.arrayBuffer())
+
+		const sha256 = '0x' + createHash('sha256').update(bytes).digest('hex')
+		if (sha256 !== build.sha256) {
+			throw new Error(`${path} sha256 mismatch: expected ${build.sha256}, got ${sha256}`)
+		}
+
+		const file = join(targetDir, path)
+		writeFileSync(file, bytes)
+		chmodSync(file, 0o755)
+		console.log(`Installed ${path}`)
+	}
+}
+
+main().catch(err => {
+	console.error('Fatal error:', err)
+	process.exit(1)
+})
@@ -0,0 +1,271 @@
+/**
+ * Local ABI / signature registry for decoding EVM call data, logs and custom errors
+ *
+ * Seeded from the bundled well-known fragments in data/known-abi.json and
+ * from verified ABIs stored in api.evm_contracts. Contract-specific ABIs take
+ * precedence over the global selector/topic maps. No network access needed.
+ */
+
+import type pg from 'pg'
+import { Fragment, FunctionFragment, EventFragment, ErrorFragment, Interface, Indexed, ParamType } from 'ethers'
+import knownAbi from '../data/known-abi.json' with { type: 'json' }
+import { stripControlCharacters } from './text'
+
+export interface DecodedParam {
+	name: string
+	type: string
+	value: unknown
+}
+
+export interface DecodedCall {
+	name: string
+	signature: string
+	args: DecodedParam[]
+}
+
+export interface DecodedEvent {
+	name: string
+	signature: string
+	args: DecodedParam[]
+}
+
+export interface DecodedError {
+	name: string
+	signature: string
+	args: DecodedParam[]
+}
+
+interface FragmentEntry<F extends Fragment> {
+	fragment: F
+	iface: Interface
+}
+
+export class AbiRegistry {
+	private functions = new Map<string, FragmentEntry<FunctionFragment>[]>()
+	private events = new Map<string, FragmentEntry<EventFragment>[]>()
+	private errors = new Map<string, FragmentEntry<ErrorFragment>[]>()
+	private contracts = new Map<string, Interface>()
+
+	/**
+	 * Registry seeded with the bundled well-known fragments
+	 */
+	static withKnownSignatures(): AbiRegistry {
+		const registry = new AbiRegistry()
+		for (const fragment of knownAbi as string[]) {
+			registry.addFragment(fragment)
+		}
+		return registry
+	}
+
+	/**
+	 * Register a single human-readable or JSON fragment in the global maps
+	 * Returns false if the fragment could not be parsed
+	 */
+	addFragment(input: string | object): boolean {
+		let fragment: Fragment
+		try {
+			fragment = Fragment.from(input)
+		} catch {
+			return false
+		}
+
+		if (FunctionFragment.isFragment(fragment)) {
+			addEntry(this.functions, fragment.selector, fragment)
+		} else if (EventFragment.isFragment(fragment) && !fragment.anonymous) {
+			addEntry(this.events, fragment.topicHash, fragment)
+		} else if (ErrorFragment.isFragment(fragment)) {
+			addEntry(this.errors, fragment.selector, fragment)
+		} else {
+			return false
+		}
+		return true
+	}
+
+	/**
+	 * Register a full contract ABI
+	 * Its fragments are also added to the global maps so other contracts
+	 * emitting the same events can be decoded
+	 */
+	addContractAbi(address: string, abi: unknown): boolean {
+		let iface: Interface
+		try {
+			iface = Interface.from(abi as any)
+		} catch {
+			return false
+		}
+
+		this.contracts.set(address.toLowerCase(), iface)
+		iface.forEachFunction(fn => addEntry(this.functions, fn.selector, fn))
+		iface.forEachEvent(ev => {
+			if (!ev.anonymous) addEntry(this.events, ev.topicHash, ev)
+		})
+		iface.forEachError(err => addEntry(this.errors, err.selector, err))
+		return true
+	}
+
+	/**
+	 * Load all stored contract ABIs from api.evm_contracts
+	 */
+	async loadContractAbis(pool: pg.Pool): Promise<number> {
+		const result = await pool.query(
+			`SELECT address, abi FROM api.evm_contracts WHERE abi IS NOT NULL`
+		)
+
+		let loaded = 0
+		for (const row of result.rows) {
+			if (this.addContractAbi(row.address, row.abi)) loaded++
+		}
+		return loaded
+	}
+
+	hasSelector(selector: string): boolean {
+		return this.functions.has(selector.toLowerCase())
+	}
+
+	/**
+	 * Decode transaction input data
+	 */
+	decodeCall(to: string | null, data: string | null): DecodedCall | null {
+		if (!data || data.length < 10) return null
+		const selector = data.slice(0, 10).toLowerCase()
+
+		const contract = to ? this.contracts.get(to.toLowerCase()) : undefined
+		let own: FunctionFragment | null = null
+		try {
+			own = contract?.getFunction(selector) ?? null
+		} catch {
+			own = null
+		}
+		const candidates: FragmentEntry<FunctionFragment>[] = own
+			? [{ fragment: own, iface: contract! }, ...(this.functions.get(selector) || [])]
+			: this.functions.get(selector) || []
+
+		for (const { fragment, iface } of candidates) {
+			try {
+				const values = iface.decodeFunctionData(fragment, data)
+				return {
+					name: fragment.name,
+					signature: fragment.format('sighash'),
+					args: formatParams(fragment.inputs, values),
+				}
+			} catch {
+				// Selector collision or malformed data, try the next candidate
+			}
+		}
+		return null
+	}
+
+	/**
+	 * Decode an event log
+	 * Candidates are matched on topic0 and the number of indexed params,
+	 * which separates e.g. ERC-20 and ERC-721 Transfer
+	 */
+	decodeLog(address: string, topics: string[], data: string | null): DecodedEvent | null {
+		if (topics.length === 0) return null
+		const topic0 = topics[0].toLowerCase()
+
+		const contract = this.contracts.get(address.toLowerCase())
+		let own: EventFragment | null = null
+		try {
+			own = contract?.getEvent(topic0) ?? null
+		} catch {
+			own = null
+		}
+		const candidates: FragmentEntry<EventFragment>[] = own
+			? [{ fragment: own, iface: contract! }, ...(this.events.get(topic0) || [])]
+			: this.events.get(topic0) || []
+
+		for (const { fragment, iface } of candidates) {
+			const indexedCount = fragment.inputs.filter(p => p.indexed).length
+			if (indexedCount !== topics.length - 1) continue
+
+			try {
+				const values = iface.decodeEventLog(fragment, data || '0x', topics)
+				return {
+					name: fragment.name,
+					signature: fragment.format('sighash'),
+					args: formatParams(fragment.inputs, values),
+				}
+			} catch {
+				// Data does not match this fragment, try the next candidate
+			}
+		}
+		return null
+	}
+
+	/**
+	 * Decode custom error revert data (Solidity `error Name(...)`)
+	 * The reverting contract's own ABI is tried first; Error(string) and
+	 * Panic(uint256) are handled by the caller
+	 */
+	decodeError(address: string | null, data: string | null): DecodedError | null {
+		if (!data || data.length < 10) return null
+		const selector = data.slice(0, 10).toLowerCase()
+
+		const contract = address ? this.contracts.get(address.toLowerCase()) : undefined
+		let own: ErrorFragment | null = null
+		try {
+			own = contract?.getError(selector) ?? null
+		} catch {
+			own = null
+		}
+		const candidates: FragmentEntry<ErrorFragment>[] = own
+			? [{ fragment: own, iface: contract! }, ...(this.errors.get(selector) || [])]
+			: this.errors.get(selector) || []
+
+		for (const { fragment, iface } of candidates) {
+			try {
+				const values = iface.decodeErrorResult(fragment, data)
+				return {
+					name: fragment.name,
+					signature: fragment.format('sighash'),
+					args: formatParams(fragment.inputs, values),
+				}
+			} catch {
+				// Selector collision or malformed data, try the next candidate
+			}
+		}
+		return null
+	}
+}
+
+function addEntry<F extends Fragment>(map: Map<string, FragmentEntry<F>[]>, key: string, fragment: F): void {
+	const entries = map.get(key) || []
+	const format = fragment.format('full')
+	if (entries.some(e => e.fragment.format('full') === format)) return
+	entries.push({ fragment, iface: new Interface([fragment]) })
+	map.set(key, entries)
+}
+
+function formatParams(params: readonly ParamType[], values: ArrayLike<unknown>): DecodedParam[] {
+	return params.map((param, i) => ({
+		name: param.name || `arg${i}`,
+		type: param.format('sighash'),
+		value: toJsonValue(param, values[i]),
+	}))
+}
+
+/**
+ * Convert an ethers Result value to a JSON-safe value
+ * uint/int become decimal strings, tuples become objects keyed by component name,
+ * strings lose control characters (Postgres rejects NUL in JSONB)
+ */
+function toJsonValue(param: ParamType, value: unknown): unknown {
+	if (value instanceof Indexed) return value.hash
+	if (typeof value === 'bigint') return value.toString()
+	if (typeof value === 'string') return stripControlCharacters(value)
+
+	if (param.isArray() && Array.isArray(value)) {
+		return Array.from(value, item => toJsonValue(param.arrayChildren, item))
+	}
+
+	if (param.isTuple() && Array.isArray(value)) {
+		const obj: Record<string, unknown> = {}
+		param.components.forEach((component, i) => {
+			obj[component.name || String(i)] = toJsonValue(component, value[i])
+		})
+		return obj
+	}
+
+	return value
+}
@@ -0,0 +1,81 @@
+/**
+ * Consensus address derivation for validators
+ *
+ * Staking returns the consensus pubkey as a google.protobuf.Any wrapping a
+ * PubKey { bytes key = 1 }. The consensus address is the first 20 bytes of
+ * sha256(key) for ed25519 keys and ripemd160(sha256(key)) for secp256k1,
+ * bech32 encoded with the chain's valcons prefix.
+ */
+
+import { createHash } from 'crypto'
+import { fromBech32, toBech32 } from '@cosmjs/encoding'
+import { ripemd160 } from 'ethers'
+
+export interface ConsensusPubkey {
+	type: string
+	/** Base64 key bytes */
+	key: string
+}
+
+export interface ConsensusAddress {
+	bech32: string
+	/** Uppercase hex, as in block proposer_address */
+	hex: string
+	pubkey: ConsensusPubkey
+}
+
+/**
+ * Derive the consensus address from a decoded Any pubkey
+ * operatorAddress supplies the bech32 prefix (cosmosvaloper -> cosmosvalcons)
+ * Returns null for missing or unsupported key types
+ */
+export function deriveConsensusAddress(
+	pubkeyAny: { type_url?: string; typeUrl?: string; value?: string | Uint8Array } | null | undefined,
+	operatorAddress: string
+): ConsensusAddress | null {
+	const typeUrl = pubkeyAny?.type_url || pubkeyAny?.typeUrl
+	if (!typeUrl || !pubkeyAny?.value) return null
+
+	const value = typeof pubkeyAny.value === 'string'
+		? Buffer.from(pubkeyAny.value, 'base64')
+		: Buffer.from(pubkeyAny.value)
+	const key = readPubKeyBytes(value)
+	if (!key) return null
+
+	const digest = createHash('sha256').update(key).digest()
+	let address: Buffer
+	if (typeUrl.endsWith('ed25519.PubKey')) {
+		address = digest.subarray(0, 20)
+	} else if (typeUrl.endsWith('secp256k1.PubKey')) {
+		address = Buffer.from(ripemd160(digest).slice(2), 'hex')
+	} else {
+		return null
+	}
+
+	const prefix = fromBech32(operatorAddress).prefix.replace(/valoper$/, 'valcons')
+	return {
+		bech32: toBech32(prefix, address),
+		hex: address.toString('hex').toUpperCase(),
+		pubkey: { type: typeUrl.replace(/^\//, ''), key: key.toString('base64') },
+	}
+}
+
+/**
+ * Read field 1 (bytes) of an encoded PubKey message
+ */
+function readPubKeyBytes(bytes: Buffer): Buffer | null {
+	if (bytes[0] !== 0x0a) return null
+
+	let length = 0
+	let shift = 0
+	let offset = 1
+	while (offset < bytes.length) {
+		const byte = bytes[offset++]
+		length |= (byte & 0x7f) << shift
+		if ((byte & 0x80) === 0) break
+		shift += 7
+	}
+
+	if (offset + length > bytes.length) return null
+	return bytes.subarray(offset, offset + length)
+}
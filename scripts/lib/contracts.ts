@@ -0,0 +1,59 @@
+/**
+ * Contract creation tracking
+ *
+ * Deployment transactions (to = null) create a contract at the CREATE address
+ * derived from the sender and nonce. Contracts deployed by other contracts
+ * (factory CREATE/CREATE2) are not visible without call traces.
+ */
+
+import type pg from 'pg'
+import { getCreateAddress, keccak256 } from 'ethers'
+
+export interface ContractCreation {
+	address: string
+	creator: string
+	creation_tx: string
+	creation_height: number | null
+	bytecode_hash: string | null
+}
+
+/**
+ * Address of the contract created by a deployment transaction (lowercase)
+ */
+export function deriveCreateAddress(from: string, nonce: number | bigint): string {
+	return getCreateAddress({ from, nonce }).toLowerCase()
+}
+
+/**
+ * Build the creation record for a deployment, or null if the tx is not one
+ */
+export function contractCreationFor(
+	tx: { tx_id: string; from: string; to: string | null; nonce: number; data: string | null; status: number },
+	height: number | null
+): ContractCreation | null {
+	if (tx.to !== null || !tx.from || tx.status !== 1) return null
+
+	return {
+		address: deriveCreateAddress(tx.from, tx.nonce),
+		creator: tx.from.toLowerCase(),
+		creation_tx: tx.tx_id,
+		creation_height: height,
+		bytecode_hash: tx.data && tx.data !== '0x' ? keccak256(tx.data) : null,
+	}
+}
+
+/**
+ * Upsert creation info, keeping any ABI/verification data already stored
+ */
+export async function recordContractCreation(client: pg.PoolClient | pg.Pool, contract: ContractCreation): Promise<void> {
+	await client.query(
+		`INSERT INTO api.evm_contracts (address, creator, creation_tx, creation_height, bytecode_hash)
+		 VALUES ($1, $2, $3, $4, $5)
+		 ON CONFLICT (address) DO UPDATE SET
+			creator = COALESCE(api.evm_contracts.creator, EXCLUDED.creator),
+			creation_tx = COALESCE(api.evm_contracts.creation_tx, EXCLUDED.creation_tx),
+			creation_height = COALESCE(api.evm_contracts.creation_height, EXCLUDED.creation_height),
+			bytecode_hash = COALESCE(api.evm_contracts.bytecode_hash, EXCLUDED.bytecode_hash)`,
+		[contract.address, contract.creator, contract.creation_tx, contract.creation_height, contract.bytecode_hash]
+	)
+}
@@ -0,0 +1,679 @@
+/**
+ * EVM transaction decoding and persistence
+ *
+ * Shared by the batch daemon (decode-evm-daemon.ts) and the NOTIFY-driven
+ * priority decoder (decode-evm-single.ts) so both write identical rows:
+ * tx decode from RLP, receipt/log decode from TxMsgData, ABI decoding,
+ * token-transfer extraction and contract creation.
+ */
+
+import { join, dirname } from 'path'
+import { fileURLToPath } from 'url'
+import type pg from 'pg'
+import protobuf from 'protobufjs'
+import { Transaction, AbiCoder, keccak256, hexlify, getAddress } from 'ethers'
+import type { AbiRegistry, DecodedParam } from './abi-registry'
+import { contractCreationFor, recordContractCreation } from './contracts'
+import type { MetricsRegistry } from './metrics'
+import { computeTxFees, fetchFeeEvents, type BlockBaseFee } from './evm-fees'
+import { decodeRevertReason, type RevertError } from './revert-reason'
+
+/**
+ * Bump when decoding output changes so stale rows can be identified
+ * 1: ABI-decoded args, token ids, contract creation; 2: revert reasons;
+ * 3: effective gas price, fee paid and block base fee
+ */
+export const DECODER_VERSION = 3
+
+/**
+ * Raw transaction could not be decoded; recorded in api.evm_decode_failures
+ */
+export class EvmDecodeError extends Error {
+	constructor(readonly txId: string, cause: unknown) {
+		super(cause instanceof Error ? cause.message : String(cause))
+		this.name = 'EvmDecodeError'
+	}
+}
+
+export interface DecodedTx {
+	tx_id: string
+	hash: string
+	from: string
+	to: string | null
+	nonce: number
+	gas_limit: bigint
+	gas_price: bigint
+	max_fee_per_gas: bigint | null
+	max_priority_fee_per_gas: bigint | null
+	value: bigint
+	data: string | null
+	type: number
+	chain_id: bigint | null
+	gas_used: number | null
+	status: number
+	function_name: string | null
+	function_signature: string | null
+	decoded_args: DecodedParam[] | null
+	contract_address: string | null
+	vm_error: string | null
+	revert_data: string | null
+	revert_reason: string | null
+	revert_error: RevertError | null
+	effective_gas_price: bigint | null
+	fee_paid: bigint | null
+}
+
+export interface DecodedLog {
+	tx_id: string
+	log_index: number
+	address: string
+	topics: string[]
+	data: string
+	event_name: string | null
+	event_signature: string | null
+	decoded_args: DecodedParam[] | null
+}
+
+const sigCache: Map<string, string | null> = new Map()
+
+async function fetch4ByteSignature(selector: string): Promise<string | null> {
+	if (sigCache.has(selector)) {
+		return sigCache.get(selector)!
+	}
+
+	try {
+		const url = `https://www.4byte.directory/api/v1/signatures/?hex_signature=${selector}`
+		const response = await fetch(url)
+		if (!response.ok) return null
+
+		const data = (await response.json()) as any
+		if (data.results && data.results.length > 0) {
+			const signature = data.results[0].text_signature
+			sigCache.set(selector, signature)
+			return signature
+		}
+		sigCache.set(selector, null)
+	} catch (err) {
+		console.error(`Failed to fetch signature for ${selector}:`, err)
+	}
+	return null
+}
+
+/**
+ * Decode signed RLP transaction bytes
+ * Throws EvmDecodeError for malformed input
+ */
+export function decodeTransaction(rawBase64: string, txId: string, gasUsed: number | null): DecodedTx {
+	try {
+		if (!rawBase64) throw new Error('missing raw transaction bytes')
+		const bytes = Uint8Array.from(atob(rawBase64), c => c.charCodeAt(0))
+		const hexData = hexlify(bytes)
+		const tx = Transaction.from(hexData)
+		const hash = keccak256(hexData)
+
+		return {
+			tx_id: txId,
+			hash,
+			from: tx.from ? getAddress(tx.from) : '',
+			to: tx.to ? getAddress(tx.to) : null,
+			nonce: tx.nonce,
+			gas_limit: tx.gasLimit,
+			gas_price: tx.gasPrice || BigInt(0),
+			max_fee_per_gas: tx.maxFeePerGas,
+			max_priority_fee_per_gas: tx.maxPriorityFeePerGas,
+			value: tx.value,
+			data: tx.data,
+			type: tx.type || 0,
+			chain_id: tx.chainId,
+			gas_used: gasUsed,
+			status: 1,
+			function_name: null,
+			function_signature: null,
+			decoded_args: null,
+			contract_address: null,
+			vm_error: null,
+			revert_data: null,
+			revert_reason: null,
+			revert_error: null,
+			effective_gas_price: null,
+			fee_paid: null,
+		}
+	} catch (err) {
+		throw new EvmDecodeError(txId, err)
+	}
+}
+
+export async function decodeTxResponse(
+	hexData: string,
+	root: protobuf.Root
+): Promise<{ logs: DecodedLog[]; gasUsed: number; vmError: string | null; ret: string | null } | null> {
+	try {
+		const hex = hexData.startsWith('0x') ? hexData.slice(2) : hexData
+		const bytes = Buffer.from(hex, 'hex')
+
+		const TxMsgData = root.lookupType('cosmos.evm.vm.v1.TxMsgData')
+		const txMsgData = TxMsgData.decode(bytes) as any
+
+		const msgResponse = txMsgData.msgResponses[0]
+		const MsgEthereumTxResponse = root.lookupType('cosmos.evm.vm.v1.MsgEthereumTxResponse')
+		const response = MsgEthereumTxResponse.decode(msgResponse.value) as any
+
+		const logs: DecodedLog[] = (response.logs || []).map((log: any, index: number) => ({
+			tx_id: '',
+			log_index: log.index?.toNumber?.() ?? index,
+			address: log.address?.toLowerCase() || '',
+			topics: log.topics || [],
+			data: log.data ? '0x' + Buffer.from(log.data).toString('hex') : '0x',
+			event_name: null,
+			event_signature: null,
+			decoded_args: null,
+		}))
+
+		return {
+			logs,
+			gasUsed: response.gasUsed?.toNumber?.() ?? 0,
+			vmError: response.vmError || null,
+			ret: response.ret?.length ? '0x' + Buffer.from(response.ret).toString('hex') : null,
+		}
+	} catch (err) {
+		console.error('Failed to decode tx response:', err)
+		return null
+	}
+}
+
+// Event signatures for token transfers
+export const TRANSFER_SIG = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef' // ERC-20/721
+export const TRANSFER_SINGLE_SIG = '0xc3d58168c5ae7397731d063d5bbf3d657854427343f4c083240f7aacaa2d0f62' // ERC-1155
+export const TRANSFER_BATCH_SIG = '0x4a39dc06d4c0dbc64b70af90fd698a233a518aa5d07e595d983b8c0526c8f7fb' // ERC-1155
+
+export interface TokenTransfer {
+	token_type: 'ERC20' | 'ERC721' | 'ERC1155'
+	batch_index: number
+	from: string
+	to: string
+	token_id: string | null
+	amount: string
+	// Legacy column: amount for fungible transfers, token id for ERC-721
+	value: string
+}
+
+function topicToAddress(topic: string): string {
+	return '0x' + topic.slice(26).toLowerCase()
+}
+
+/**
+ * Extract token transfers from a log
+ * TransferBatch expands into one transfer per token id (batch_index = array position)
+ */
+export function parseTokenTransfers(log: DecodedLog): TokenTransfer[] {
+	const topic0 = log.topics[0]?.toLowerCase()
+	const abi = AbiCoder.defaultAbiCoder()
+
+	try {
+		// ERC-20 (3 topics, value in data) or ERC-721 (4 topics, tokenId in topics[3])
+		if (topic0 === TRANSFER_SIG && log.topics.length >= 3) {
+			const from = topicToAddress(log.topics[1])
+			const to = topicToAddress(log.topics[2])
+
+			if (log.topics.length === 4) {
+				const tokenId = BigInt(log.topics[3]).toString()
+				return [{ token_type: 'ERC721', batch_index: 0, from, to, token_id: tokenId, amount: '1', value: tokenId }]
+			}
+
+			const amount = BigInt(log.data && log.data !== '0x' ? log.data.slice(0, 66) : '0x0').toString()
+			return [{ token_type: 'ERC20', batch_index: 0, from, to, token_id: null, amount, value: amount }]
+		}
+
+		// ERC-1155 TransferSingle: topics [sig, operator, from, to], data (id, value)
+		if (topic0 === TRANSFER_SINGLE_SIG && log.topics.length === 4) {
+			const [id, value] = abi.decode(['uint256', 'uint256'], log.data)
+			return [{
+				token_type: 'ERC1155',
+				batch_index: 0,
+				from: topicToAddress(log.topics[2]),
+				to: topicToAddress(log.topics[3]),
+				token_id: id.toString(),
+				amount: value.toString(),
+				value: value.toString(),
+			}]
+		}
+
+		// ERC-1155 TransferBatch: topics [sig, operator, from, to], data (ids[], values[])
+		if (topic0 === TRANSFER_BATCH_SIG && log.topics.length === 4) {
+			const [ids, values] = abi.decode(['uint256[]', 'uint256[]'], log.data)
+			if (ids.length !== values.length) {
+				console.error(`TransferBatch ids/values length mismatch in ${log.tx_id}:${log.log_index}`)
+				return []
+			}
+			const from = topicToAddress(log.topics[2])
+			const to = topicToAddress(log.topics[3])
+			return Array.from(ids as bigint[], (id, i) => ({
+				token_type: 'ERC1155' as const,
+				batch_index: i,
+				from,
+				to,
+				token_id: id.toString(),
+				amount: (values[i] as bigint).toString(),
+				value: (values[i] as bigint).toString(),
+			}))
+		}
+	} catch (err) {
+		console.error(`Failed to parse token transfer log ${log.tx_id}:${log.log_index}:`, err)
+	}
+
+	return []
+}
+
+/**
+ * Resolve function name, signature and arguments for call data
+ * Uses the local registry first, then optionally 4byte.directory
+ */
+export async function decodeCallData(
+	decoded: DecodedTx,
+	registry: AbiRegistry,
+	fourbyteLookup: boolean
+): Promise<void> {
+	let call = registry.decodeCall(decoded.to, decoded.data)
+
+	if (!call && fourbyteLookup && decoded.data) {
+		const selector = decoded.data.slice(0, 10)
+		const signature = await fetch4ByteSignature(selector)
+		if (signature) {
+			// Remote signatures have no param names, args are named arg0..argN
+			registry.addFragment(`function ${signature}`)
+			call = registry.decodeCall(decoded.to, decoded.data)
+			if (!call) {
+				decoded.function_signature = signature
+				decoded.function_name = signature.split('(')[0]
+				return
+			}
+		}
+	}
+
+	if (call) {
+		decoded.function_signature = call.signature
+		decoded.function_name = call.name
+		decoded.decoded_args = call.args
+	}
+}
+
+export interface PendingEvmTx {
+	tx_id: string
+	height: number | string | null
+	raw_bytes: string
+	gas_used: number | string | null
+}
+
+export interface DecodeOptions {
+	/** Fall back to 4byte.directory for selectors missing from the registry */
+	fourbyteLookup: boolean
+}
+
+export interface DecodedEvmTx {
+	tx: DecodedTx
+	logs: DecodedLog[]
+	height: number | null
+	/** Base fee of the tx's block, when known */
+	baseFee: BlockBaseFee | null
+}
+
+/**
+ * Load the cosmos.evm protobuf definitions used for receipts
+ */
+export async function loadEvmProto(): Promise<protobuf.Root> {
+	const libDir = dirname(fileURLToPath(import.meta.url))
+	return protobuf.load(join(libDir, '..', '..', 'proto', 'evm.proto'))
+}
+
+/**
+ * Decode a pending tx and its receipt (logs, gas used, status)
+ * Throws EvmDecodeError if the raw transaction cannot be decoded
+ */
+export async function decodePendingTransaction(
+	client: pg.PoolClient,
+	row: PendingEvmTx,
+	root: protobuf.Root,
+	registry: AbiRegistry,
+	options: DecodeOptions
+): Promise<DecodedEvmTx> {
+	const gasUsed = row.gas_used !== null ? Number(row.gas_used) : null
+	const decoded = decodeTransaction(row.raw_bytes, row.tx_id, gasUsed)
+
+	let logs: DecodedLog[] = []
+
+	const responseQuery = await client.query(
+		'SELECT data->\'tx_response\'->\'data\' as response_data FROM api.transactions_raw WHERE id = $1',
+		[row.tx_id]
+	)
+
+	// Enrich with receipt data if available
+	if (responseQuery.rows.length > 0 && responseQuery.rows[0].response_data) {
+		const decodedResponse = await decodeTxResponse(responseQuery.rows[0].response_data, root)
+
+		if (decodedResponse) {
+			decoded.gas_used = decodedResponse.gasUsed
+			decoded.status = decodedResponse.vmError ? 0 : 1
+
+			if (decodedResponse.vmError) {
+				decoded.vm_error = decodedResponse.vmError
+				decoded.revert_data = decodedResponse.ret
+				const reason = decodeRevertReason(decodedResponse.ret, registry, decoded.to)
+				decoded.revert_reason = reason?.message ?? null
+				decoded.revert_error = reason?.error ?? null
+			}
+
+			logs = decodedResponse.logs
+			for (const log of logs) {
+				log.tx_id = row.tx_id
+				const event = registry.decodeLog(log.address, log.topics, log.data)
+				if (event) {
+					log.event_name = event.name
+					log.event_signature = event.signature
+					log.decoded_args = event.args
+				}
+			}
+		}
+	}
+
+	// Decode call data if present (skip for contract deployments)
+	if (decoded.to !== null && decoded.data && decoded.data.length >= 10) {
+		await decodeCallData(decoded, registry, options.fourbyteLookup)
+	}
+
+	// Fees need the final gas used from the receipt
+	const fees = computeTxFees(decoded, await fetchFeeEvents(client, row.tx_id))
+	decoded.effective_gas_price = fees.effectiveGasPrice
+	decoded.fee_paid = fees.feePaid
+
+	return {
+		tx: decoded,
+		logs,
+		height: row.height !== null ? Number(row.height) : null,
+		baseFee: fees.baseFee,
+	}
+}
+
+/**
+ * Write a decoded tx with its logs, token transfers and contract creation
+ * Runs inside the caller's transaction; all inserts are idempotent
+ */
+export async function persistDecodedTransaction(client: pg.PoolClient, decoded: DecodedEvmTx): Promise<void> {
+	const { tx, logs, height, baseFee } = decoded
+
+	// Deployments: record the created contract (status is final at this point)
+	const creation = contractCreationFor(tx, height)
+	tx.contract_address = creation?.address ?? null
+
+	await client.query(
+		`INSERT INTO api.evm_transactions (
+			tx_id, hash, "from", "to", nonce, gas_limit, gas_price,
+			max_fee_per_gas, max_priority_fee_per_gas, value, data, type,
+			chain_id, gas_used, status, function_name, function_signature, decoded_args, contract_address,
+			decoder_version, vm_error, revert_data, revert_reason, revert_error,
+			effective_gas_price, fee_paid
+		) VALUES (
+			$1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20,
+			$21, $22, $23, $24, $25, $26
+		)
+		ON CONFLICT (tx_id) DO NOTHING`,
+		[
+			tx.tx_id,
+			tx.hash,
+			tx.from,
+			tx.to,
+			tx.nonce,
+			tx.gas_limit.toString(),
+			tx.gas_price.toString(),
+			tx.max_fee_per_gas?.toString() || null,
+			tx.max_priority_fee_per_gas?.toString() || null,
+			tx.value.toString(),
+			tx.data,
+			tx.type,
+			tx.chain_id?.toString() || null,
+			tx.gas_used,
+			tx.status,
+			tx.function_name,
+			tx.function_signature,
+			tx.decoded_args ? JSON.stringify(tx.decoded_args) : null,
+			tx.contract_address,
+			DECODER_VERSION,
+			tx.vm_error,
+			tx.revert_data,
+			tx.revert_reason,
+			tx.revert_error ? JSON.stringify(tx.revert_error) : null,
+			tx.effective_gas_price?.toString() || null,
+			tx.fee_paid?.toString() || null,
+		]
+	)
+
+	// Event-sourced base fees win over values derived from a tx's fee
+	if (baseFee && height !== null) {
+		await client.query(
+			`INSERT INTO api.evm_block_fees (height, base_fee, source)
+			 VALUES ($1, $2, $3)
+			 ON CONFLICT (height) DO UPDATE SET
+				base_fee = EXCLUDED.base_fee,
+				source = EXCLUDED.source,
+				updated_at = NOW()
+			 WHERE api.evm_block_fees.source = 'derived'`,
+			[height, baseFee.value.toString(), baseFee.source]
+		)
+	}
+
+	if (creation) {
+		await recordContractCreation(client, creation)
+	}
+
+	// Clear any earlier failure once the tx decodes
+	await client.query('DELETE FROM api.evm_decode_failures WHERE tx_id = $1', [tx.tx_id])
+
+	for (const log of logs) {
+		await client.query(
+			`INSERT INTO api.evm_logs (
+				tx_id, log_index, address, topics, data, event_name, event_signature, decoded_args, decoder_version
+			) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+			 ON CONFLICT (tx_id, log_index) DO NOTHING`,
+			[
+				log.tx_id,
+				log.log_index,
+				log.address,
+				log.topics,
+				log.data,
+				log.event_name,
+				log.event_signature,
+				log.decoded_args ? JSON.stringify(log.decoded_args) : null,
+				DECODER_VERSION,
+			]
+		)
+
+		const transfers = parseTokenTransfers(log)
+		if (transfers.length > 0) {
+			// Keeps the earliest transfer as first seen (reprocessing and parallel
+			// workers do not decode in height order); ERC-20 is upgraded to ERC-721
+			// when a transfer carries a token id
+			await client.query(
+				`INSERT INTO api.evm_tokens (address, type, first_seen_tx, first_seen_height)
+				 VALUES ($1, $2, $3, $4)
+				 ON CONFLICT (address) DO UPDATE SET
+					type = CASE
+						WHEN api.evm_tokens.type = 'ERC20' AND EXCLUDED.type = 'ERC721' THEN EXCLUDED.type
+						ELSE api.evm_tokens.type
+					END,
+					first_seen_tx = CASE
+						WHEN EXCLUDED.first_seen_height IS NOT NULL AND (
+							api.evm_tokens.first_seen_height IS NULL
+							OR EXCLUDED.first_seen_height < api.evm_tokens.first_seen_height
+						) THEN EXCLUDED.first_seen_tx
+						ELSE api.evm_tokens.first_seen_tx
+					END,
+					first_seen_height = LEAST(api.evm_tokens.first_seen_height, EXCLUDED.first_seen_height)
+				 WHERE (api.evm_tokens.type = 'ERC20' AND EXCLUDED.type = 'ERC721')
+					OR (EXCLUDED.first_seen_height IS NOT NULL AND (
+						api.evm_tokens.first_seen_height IS NULL
+						OR EXCLUDED.first_seen_height < api.evm_tokens.first_seen_height
+					))`,
+				[log.address, transfers[0].token_type, tx.tx_id, height]
+			)
+		}
+
+		for (const transfer of transfers) {
+			await client.query(
+				`INSERT INTO api.evm_token_transfers (
+					tx_id, log_index, batch_index, token_address, from_address, to_address, value, token_id, amount,
+					decoder_version, height
+				) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+				 ON CONFLICT (tx_id, log_index, batch_index) DO NOTHING`,
+				[
+					tx.tx_id,
+					log.log_index,
+					transfer.batch_index,
+					log.address,
+					transfer.from,
+					transfer.to,
+					transfer.value,
+					transfer.token_id,
+					transfer.amount,
+					DECODER_VERSION,
+					height,
+				]
+			)
+		}
+	}
+}
+
+/**
+ * Replace previously decoded rows for a tx with a fresh decode
+ * Logs and token transfers are removed via ON DELETE CASCADE (the balance
+ * trigger reverses the old transfers); contract records are kept
+ * Must run inside a transaction so readers never see the tx missing
+ */
+export async function replaceDecodedTransaction(client: pg.PoolClient, decoded: DecodedEvmTx): Promise<void> {
+	await client.query('DELETE FROM api.evm_transactions WHERE tx_id = $1', [decoded.tx.tx_id])
+	await persistDecodedTransaction(client, decoded)
+}
+
+export interface RetryPolicy {
+	maxAttempts: number
+	baseDelayMs: number
+}
+
+/**
+ * Record a failed decode in the failure ledger
+ * The tx leaves api.evm_pending_decode until its backoff expires, and is
+ * dead-lettered after maxAttempts
+ */
+export async function recordDecodeFailure(
+	client: pg.PoolClient,
+	txId: string,
+	error: unknown,
+	policy: RetryPolicy
+): Promise<{ attempts: number; status: string }> {
+	const message = error instanceof Error ? error.message : String(error)
+	const result = await client.query(
+		`SELECT attempts, status FROM api.record_evm_decode_failure($1, $2, $3, $4, $5)`,
+		[txId, message.slice(0, 2000), DECODER_VERSION, policy.maxAttempts, Math.ceil(policy.baseDelayMs / 1000)]
+	)
+	return result.rows[0]
+}
+
+/**
+ * Claim pending transactions for a worker via api.claim_evm_decode_batch()
+ * Call outside a transaction so other workers see the claims immediately;
+ * claims expire after leaseMs if the worker dies before releasing them
+ */
+export async function claimPendingTransactions(
+	client: pg.Pool | pg.PoolClient,
+	workerId: string,
+	limit: number,
+	leaseMs: number,
+	txIds: string[] | null = null
+): Promise<PendingEvmTx[]> {
+	const result = await client.query<PendingEvmTx>(
+		`SELECT tx_id, height, raw_bytes, gas_used FROM api.claim_evm_decode_batch($1, $2, $3, $4)`,
+		[workerId, limit, Math.ceil(leaseMs / 1000), txIds]
+	)
+	return result.rows
+}
+
+/**
+ * Drop a worker's claims once the transactions are decoded or recorded as failed
+ */
+export async function releaseClaims(
+	client: pg.Pool | pg.PoolClient,
+	workerId: string,
+	txIds: string[]
+): Promise<void> {
+	await client.query(
+		'DELETE FROM api.evm_decode_claims WHERE worker_id = $1 AND tx_id = ANY($2)',
+		[workerId, txIds]
+	)
+}
+
+export interface DecodeHeights {
+	/** Latest block in blocks_raw */
+	chainHeight: number | null
+	/** Height of the newest indexed MsgEthereumTx */
+	indexedHeight: number | null
+	/** Height of the newest decoded EVM transaction */
+	decodedHeight: number | null
+}
+
+/**
+ * Heights used to report decode lag (indexed vs decoded EVM transactions)
+ */
+export async function fetchDecodeHeights(client: pg.Pool | pg.PoolClient): Promise<DecodeHeights> {
+	const result = await client.query(
+		`SELECT
+			(SELECT MAX(id) FROM api.blocks_raw) AS chain_height,
+			(SELECT t.height
+			 FROM api.transactions_main t
+			 JOIN api.messages_main mm ON mm.id = t.id
+			 WHERE mm.type LIKE '%MsgEthereumTx%'
+			 ORDER BY t.height DESC
+			 LIMIT 1) AS indexed_height,
+			(SELECT t.height
+			 FROM api.transactions_main t
+			 JOIN api.evm_transactions ev ON ev.tx_id = t.id
+			 ORDER BY t.height DESC
+			 LIMIT 1) AS decoded_height`
+	)
+	const row = result.rows[0]
+	const toNumber = (value: unknown) => (value === null ? null : Number(value))
+	return {
+		chainHeight: toNumber(row.chain_height),
+		indexedHeight: toNumber(row.indexed_height),
+		decodedHeight: toNumber(row.decoded_height),
+	}
+}
+
+/**
+ * Decode lag gauges, refreshed from the database every refreshMs
+ * Scrapes read the cached values, so the height queries run at a fixed rate
+ * however often (or by how many scrapers) /metrics is polled
+ */
+export function registerDecodeLagMetrics(registry: MetricsRegistry, pool: pg.Pool, refreshMs: number): void {
+	const chainHeight = registry.gauge('yaci_chain_height', 'Latest indexed block height')
+	const indexedHeight = registry.gauge('yaci_evm_indexed_height', 'Height of the newest indexed EVM transaction')
+	const decodedHeight = registry.gauge('yaci_evm_decoded_height', 'Height of the newest decoded EVM transaction')
+	const lag = registry.gauge('yaci_evm_decode_lag_blocks', 'Indexed minus decoded EVM height')
+
+	let refreshing = false
+	const refresh = async () => {
+		if (refreshing) return
+		refreshing = true
+		try {
+			const heights = await fetchDecodeHeights(pool)
+			if (heights.chainHeight !== null) chainHeight.set(heights.chainHeight)
+			if (heights.indexedHeight !== null) indexedHeight.set(heights.indexedHeight)
+			if (heights.decodedHeight !== null) decodedHeight.set(heights.decodedHeight)
+			lag.set(Math.max(0, (heights.indexedHeight ?? 0) - (heights.decodedHeight ?? 0)))
+		} catch (err) {
+			console.error('Failed to refresh decode lag:', err instanceof Error ? err.message : err)
+		} finally {
+			refreshing = false
+		}
+	}
+
+	void refresh()
+	setInterval(refresh, refreshMs).unref()
+}
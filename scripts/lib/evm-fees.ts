@@ -0,0 +1,100 @@
+/**
+ * EIP-1559 fee accounting for decoded EVM transactions
+ *
+ * The block base fee is not part of the CometBFT block data, so it comes from
+ * the tx's events: a fee_market base_fee attribute when the chain emits one,
+ * otherwise it is derived from the Cosmos fee charged for a dynamic-fee tx
+ * (fee = gasLimit * effectiveGasPrice, and effectiveGasPrice = baseFee + tip
+ * whenever it is below maxFeePerGas).
+ */
+
+import type pg from 'pg'
+
+export type BaseFeeSource = 'event' | 'derived'
+
+export interface BlockBaseFee {
+	value: bigint
+	source: BaseFeeSource
+}
+
+export interface FeeEvents {
+	/** base_fee attribute of a fee_market event */
+	baseFee: bigint | null
+	/** Amount of the Cosmos tx fee event (first denom) */
+	feeAmount: bigint | null
+}
+
+export interface TxFees {
+	effectiveGasPrice: bigint | null
+	feePaid: bigint | null
+	baseFee: BlockBaseFee | null
+}
+
+interface FeeFields {
+	type: number
+	gas_limit: bigint
+	gas_price: bigint
+	max_fee_per_gas: bigint | null
+	max_priority_fee_per_gas: bigint | null
+	gas_used: number | null
+}
+
+/**
+ * Read the fee related attributes emitted for a tx
+ */
+export async function fetchFeeEvents(client: pg.PoolClient, txId: string): Promise<FeeEvents> {
+	const result = await client.query(
+		`SELECT event_type, attr_key, attr_value
+		 FROM api.events_main
+		 WHERE id = $1
+		   AND ((event_type = 'fee_market' AND attr_key = 'base_fee')
+		     OR (event_type = 'tx' AND attr_key = 'fee'))`,
+		[txId]
+	)
+
+	let baseFee: bigint | null = null
+	let feeAmount: bigint | null = null
+	for (const row of result.rows) {
+		const amount = parseLeadingInteger(row.attr_value)
+		if (amount === null) continue
+		if (row.event_type === 'fee_market') baseFee ??= amount
+		else feeAmount ??= amount
+	}
+	return { baseFee, feeAmount }
+}
+
+/**
+ * Effective gas price, fee paid (gasUsed * effective price) and block base fee
+ * Legacy and access-list txs always pay their gas price; dynamic-fee txs pay
+ * min(maxFeePerGas, baseFee + maxPriorityFeePerGas)
+ */
+export function computeTxFees(tx: FeeFields, events: FeeEvents): TxFees {
+	let baseFee: BlockBaseFee | null = events.baseFee !== null
+		? { value: events.baseFee, source: 'event' }
+		: null
+	let effectiveGasPrice: bigint | null = null
+
+	if (tx.type !== 2 || tx.max_fee_per_gas === null || tx.max_priority_fee_per_gas === null) {
+		effectiveGasPrice = tx.gas_price
+	} else if (baseFee) {
+		const tipped = baseFee.value + tx.max_priority_fee_per_gas
+		effectiveGasPrice = tipped < tx.max_fee_per_gas ? tipped : tx.max_fee_per_gas
+	} else if (events.feeAmount !== null && tx.gas_limit > BigInt(0)) {
+		effectiveGasPrice = events.feeAmount / tx.gas_limit
+		// Capped at maxFeePerGas the base fee is only bounded, not known
+		if (effectiveGasPrice < tx.max_fee_per_gas && effectiveGasPrice >= tx.max_priority_fee_per_gas) {
+			baseFee = { value: effectiveGasPrice - tx.max_priority_fee_per_gas, source: 'derived' }
+		}
+	}
+
+	const feePaid = effectiveGasPrice !== null && tx.gas_used !== null
+		? effectiveGasPrice * BigInt(tx.gas_used)
+		: null
+
+	return { effectiveGasPrice, feePaid, baseFee }
+}
+
+function parseLeadingInteger(value: string | null): bigint | null {
+	const match = value?.match(/^\d+/)
+	return match ? BigInt(match[0]) : null
+}
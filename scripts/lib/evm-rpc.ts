@@ -0,0 +1,87 @@
+/**
+ * Minimal EVM JSON-RPC client
+ *
+ * Only what the workers need (eth_call and friends). Reverts are reported as
+ * null results, transport failures throw so callers can retry the whole cycle.
+ */
+
+export class EvmRpcError extends Error {
+	constructor(message: string, readonly code?: number) {
+		super(message)
+		this.name = 'EvmRpcError'
+	}
+}
+
+// Nodes report reverts as code 3 (geth, with revert data) or as the generic
+// -32000 server error; other codes (-32005 rate limit, -32603 internal error,
+// ...) are node-side failures and must not be mistaken for a missing method
+const EXECUTION_ERROR_PATTERN = /revert|invalid opcode|out of gas|stack underflow|invalid jump/i
+
+/**
+ * Whether an error means the EVM executed the call and it failed
+ */
+export function isExecutionError(err: unknown): boolean {
+	if (!(err instanceof EvmRpcError) || err.code === undefined) return false
+	if (err.code === 3) return true
+	return err.code === -32000 && EXECUTION_ERROR_PATTERN.test(err.message)
+}
+
+interface JsonRpcResponse<T> {
+	result?: T
+	error?: { code: number; message: string; data?: unknown }
+}
+
+export class EvmRpc {
+	private nextId = 1
+
+	constructor(
+		private url: string,
+		private timeoutMs = 10000
+	) {}
+
+	async request<T>(method: string, params: unknown[]): Promise<T> {
+		let response: Response
+		try {
+			response = await fetch(this.url, {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ jsonrpc: '2.0', id: this.nextId++, method, params }),
+				signal: AbortSignal.timeout(this.timeoutMs),
+			})
+		} catch (err) {
+			throw new EvmRpcError(`${method} request failed: ${err instanceof Error ? err.message : String(err)}`)
+		}
+
+		if (!response.ok) {
+			throw new EvmRpcError(`${method} returned HTTP ${response.status}`)
+		}
+
+		const body = await response.json() as JsonRpcResponse<T>
+		if (body.error) {
+			throw new EvmRpcError(`${method} error: ${body.error.message}`, body.error.code)
+		}
+		return body.result as T
+	}
+
+	/**
+	 * eth_call against the latest block
+	 * Returns null when the call reverts or the contract returns no data
+	 */
+	async call(to: string, data: string): Promise<string | null> {
+		let result: string
+		try {
+			result = await this.request<string>('eth_call', [{ to, data }, 'latest'])
+		} catch (err) {
+			// Reverts (including calls to a missing method) yield null; node
+			// and transport errors are rethrown so the caller retries later
+			if (isExecutionError(err)) return null
+			throw err
+		}
+		return result && result !== '0x' ? result : null
+	}
+
+	async getCode(address: string): Promise<string | null> {
+		const code = await this.request<string>('eth_getCode', [address, 'latest'])
+		return code && code !== '0x' ? code : null
+	}
+}
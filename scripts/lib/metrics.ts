@@ -0,0 +1,212 @@
+/**
+ * Prometheus metrics and health endpoint for the daemons
+ *
+ * A small in-process registry (counters, gauges, histograms) rendered in the
+ * Prometheus text format, served with /healthz from a plain node:http server
+ * so the workers need no extra dependencies.
+ */
+
+import { createServer, type Server } from 'http'
+
+type Labels = Record<string, string>
+
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60]
+
+function labelKey(labels: Labels): string {
+	return Object.keys(labels).sort().map(k => `${k}="${escapeLabel(labels[k])}"`).join(',')
+}
+
+function escapeLabel(value: string): string {
+	return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')
+}
+
+function series(name: string, key: string, value: number): string {
+	return `${name}${key ? `{${key}}` : ''} ${Number.isFinite(value) ? value : 'NaN'}`
+}
+
+interface Metric {
+	render(): string[]
+}
+
+export class Counter implements Metric {
+	private values = new Map<string, number>()
+
+	constructor(readonly name: string, readonly help: string) {}
+
+	inc(labels: Labels = {}, value = 1): void {
+		const key = labelKey(labels)
+		this.values.set(key, (this.values.get(key) ?? 0) + value)
+	}
+
+	render(): string[] {
+		const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`]
+		for (const [key, value] of this.values) lines.push(series(this.name, key, value))
+		return lines
+	}
+}
+
+export class Gauge implements Metric {
+	private values = new Map<string, number>()
+
+	constructor(readonly name: string, readonly help: string) {}
+
+	set(value: number, labels: Labels = {}): void {
+		this.values.set(labelKey(labels), value)
+	}
+
+	/**
+	 * Set to the current time in seconds (for "last success" gauges)
+	 */
+	setToCurrentTime(labels: Labels = {}): void {
+		this.set(Date.now() / 1000, labels)
+	}
+
+	get(labels: Labels = {}): number | undefined {
+		return this.values.get(labelKey(labels))
+	}
+
+	render(): string[] {
+		const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} gauge`]
+		for (const [key, value] of this.values) lines.push(series(this.name, key, value))
+		return lines
+	}
+}
+
+interface HistogramSeries {
+	counts: number[]
+	sum: number
+	count: number
+}
+
+export class Histogram implements Metric {
+	private values = new Map<string, HistogramSeries>()
+
+	constructor(
+		readonly name: string,
+		readonly help: string,
+		private buckets: number[] = DEFAULT_BUCKETS
+	) {}
+
+	observe(value: number, labels: Labels = {}): void {
+		const key = labelKey(labels)
+		let entry = this.values.get(key)
+		if (!entry) {
+			entry = { counts: this.buckets.map(() => 0), sum: 0, count: 0 }
+			this.values.set(key, entry)
+		}
+		this.buckets.forEach((bound, i) => {
+			if (value <= bound) entry!.counts[i]++
+		})
+		entry.sum += value
+		entry.count++
+	}
+
+	/**
+	 * Time an async operation in seconds
+	 */
+	async time<T>(fn: () => Promise<T>, labels: Labels = {}): Promise<T> {
+		const started = performance.now()
+		try {
+			return await fn()
+		} finally {
+			this.observe((performance.now() - started) / 1000, labels)
+		}
+	}
+
+	render(): string[] {
+		const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`]
+		for (const [key, entry] of this.values) {
+			const prefix = key ? `${key},` : ''
+			this.buckets.forEach((bound, i) => {
+				lines.push(`${this.name}_bucket{${prefix}le="${bound}"} ${entry.counts[i]}`)
+			})
+			lines.push(`${this.name}_bucket{${prefix}le="+Inf"} ${entry.count}`)
+			lines.push(series(`${this.name}_sum`, key, entry.sum))
+			lines.push(series(`${this.name}_count`, key, entry.count))
+		}
+		return lines
+	}
+}
+
+export class MetricsRegistry {
+	private metrics: Metric[] = []
+
+	counter(name: string, help: string): Counter {
+		return this.register(new Counter(name, help))
+	}
+
+	gauge(name: string, help: string): Gauge {
+		return this.register(new Gauge(name, help))
+	}
+
+	histogram(name: string, help: string, buckets?: number[]): Histogram {
+		return this.register(new Histogram(name, help, buckets))
+	}
+
+	render(): string {
+		return this.metrics.flatMap(m => m.render()).join('\n') + '\n'
+	}
+
+	private register<T extends Metric>(metric: T): T {
+		this.metrics.push(metric)
+		return metric
+	}
+}
+
+export interface HealthStatus {
+	healthy: boolean
+	[detail: string]: unknown
+}
+
+/**
+ * Serve GET /metrics and GET /healthz (200 when healthy, 503 otherwise)
+ * Returns null when port is 0 (endpoint disabled)
+ */
+export function startMetricsServer(
+	port: number,
+	registry: MetricsRegistry,
+	health: () => HealthStatus | Promise<HealthStatus>
+): Server | null {
+	if (port === 0) return null
+
+	const server = createServer(async (req, res) => {
+		try {
+			const path = (req.url ?? '/').split('?')[0]
+			if (req.method === 'GET' && path === '/metrics') {
+				const body = registry.render()
+				res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4' })
+				res.end(body)
+			} else if (req.method === 'GET' && path === '/healthz') {
+				const status = await health()
+				res.writeHead(status.healthy ? 200 : 503, { 'Content-Type': 'application/json' })
+				res.end(JSON.stringify(status))
+			} else {
+				res.writeHead(404)
+				res.end()
+			}
+		} catch (err) {
+			res.writeHead(500, { 'Content-Type': 'text/plain' })
+			res.end(err instanceof Error ? err.message : String(err))
+		}
+	})
+
+	server.listen(port, () => {
+		console.log(`Metrics and health endpoints on :${port} (/metrics, /healthz)`)
+	})
+	return server
+}
+
+/**
+ * Health based on the age of the last successful poll
+ * Unhealthy when no poll has succeeded within maxAgeMs of startup or since the last success
+ */
+export function pollHealth(lastSuccess: Gauge, startedAt: number, maxAgeMs: number): HealthStatus {
+	const last = lastSuccess.get()
+	const reference = last !== undefined ? last * 1000 : startedAt
+	const ageMs = Date.now() - reference
+	return {
+		healthy: ageMs <= maxAgeMs,
+		last_success: last !== undefined ? new Date(last * 1000).toISOString() : null,
+		seconds_since_success: Math.round(ageMs / 1000),
+	}
+}
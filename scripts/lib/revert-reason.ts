@@ -0,0 +1,119 @@
+/**
+ * Revert reason decoding for failed EVM transactions
+ *
+ * Decodes the `ret` bytes of MsgEthereumTxResponse: Error(string),
+ * Panic(uint256) with the Solidity panic code descriptions, and custom
+ * errors resolved through the ABI registry.
+ */
+
+import { AbiCoder } from 'ethers'
+import type { AbiRegistry, DecodedParam } from './abi-registry'
+import { stripControlCharacters } from './text'
+
+const ERROR_SELECTOR = '0x08c379a0' // Error(string)
+const PANIC_SELECTOR = '0x4e487b71' // Panic(uint256)
+
+/**
+ * Solidity panic codes (https://docs.soliditylang.org/en/latest/control-structures.html#panic-via-assert-and-error-via-require)
+ */
+export const PANIC_CODES: Record<number, string> = {
+	0x00: 'generic compiler panic',
+	0x01: 'assertion failed',
+	0x11: 'arithmetic overflow or underflow',
+	0x12: 'division or modulo by zero',
+	0x21: 'invalid enum value',
+	0x22: 'invalid storage byte array encoding',
+	0x31: 'pop on empty array',
+	0x32: 'array index out of bounds',
+	0x41: 'out of memory',
+	0x51: 'call to zero-initialized function',
+}
+
+export interface RevertError {
+	type: 'error' | 'panic' | 'custom'
+	name: string
+	signature: string
+	args: DecodedParam[]
+	/** Hex panic code, only for type 'panic' */
+	panic_code?: string
+}
+
+export interface RevertReason {
+	/** Human-readable reason, e.g. 'Panic: arithmetic overflow or underflow (0x11)' */
+	message: string
+	/** Structured error; null when the selector is unknown */
+	error: RevertError | null
+}
+
+/**
+ * Decode revert data returned by a failed transaction
+ * contract is the address that was called, used to prefer its own ABI for
+ * custom errors. Returns null when there is no revert data.
+ */
+export function decodeRevertReason(
+	ret: string | null,
+	registry: AbiRegistry,
+	contract: string | null
+): RevertReason | null {
+	if (!ret || ret === '0x') return null
+	if (ret.length < 10) {
+		return { message: `reverted with malformed data ${ret}`, error: null }
+	}
+
+	const selector = ret.slice(0, 10).toLowerCase()
+	const payload = '0x' + ret.slice(10)
+	const coder = AbiCoder.defaultAbiCoder()
+
+	if (selector === ERROR_SELECTOR) {
+		try {
+			// Contracts can revert with NUL bytes, which Postgres TEXT/JSONB reject
+			const reason = stripControlCharacters(coder.decode(['string'], payload)[0] as string)
+			return {
+				message: reason,
+				error: {
+					type: 'error',
+					name: 'Error',
+					signature: 'Error(string)',
+					args: [{ name: 'message', type: 'string', value: reason }],
+				},
+			}
+		} catch {
+			return { message: 'reverted with malformed Error(string) data', error: null }
+		}
+	}
+
+	if (selector === PANIC_SELECTOR) {
+		try {
+			const [code] = coder.decode(['uint256'], payload) as unknown as [bigint]
+			const hexCode = '0x' + code.toString(16).padStart(2, '0')
+			const description = code <= BigInt(0xff) ? PANIC_CODES[Number(code)] : undefined
+			return {
+				message: `Panic: ${description ?? 'unknown panic code'} (${hexCode})`,
+				error: {
+					type: 'panic',
+					name: 'Panic',
+					signature: 'Panic(uint256)',
+					args: [{ name: 'code', type: 'uint256', value: code.toString() }],
+					panic_code: hexCode,
+				},
+			}
+		} catch {
+			return { message: 'reverted with malformed Panic(uint256) data', error: null }
+		}
+	}
+
+	const custom = registry.decodeError(contract, ret)
+	if (custom) {
+		const args = custom.args.map(arg => `${arg.name}=${formatArg(arg.value)}`).join(', ')
+		return {
+			message: `${custom.name}(${args})`,
+			error: { type: 'custom', ...custom },
+		}
+	}
+
+	return { message: `reverted with unknown error ${selector}`, error: null }
+}
+
+function formatArg(value: unknown): string {
+	return typeof value === 'string' ? value : JSON.stringify(value)
+}
@@ -0,0 +1,14 @@
+/**
+ * Text cleanup for strings taken from chain data
+ *
+ * Decoded ABI strings (call/event args, revert reasons, token names) are
+ * arbitrary bytes chosen by a contract. Postgres rejects NUL in both TEXT
+ * and JSONB, so one such string would fail the whole insert.
+ */
+
+/**
+ * Remove NUL and other control characters (C0 and DEL)
+ */
+export function stripControlCharacters(value: string): string {
+	return value.replace(/[\u0000-\u001f\u007f]/g, '')
+}
@@ -0,0 +1,164 @@
+/**
+ * ERC-20/721/1155 metadata lookups via eth_call
+ *
+ * Every method is optional on-chain: missing methods and reverts yield null
+ * for that field. Older tokens (e.g. MKR) return symbol/name as bytes32.
+ */
+
+import { AbiCoder, Interface, toUtf8String, Utf8ErrorFuncs } from 'ethers'
+import type pg from 'pg'
+import type { EvmRpc } from './evm-rpc'
+import { stripControlCharacters } from './text'
+
+export interface TokenMetadata {
+	name: string | null
+	symbol: string | null
+	decimals: number | null
+	totalSupply: string | null
+}
+
+const METADATA_ABI = new Interface([
+	'function name() view returns (string)',
+	'function symbol() view returns (string)',
+	'function decimals() view returns (uint8)',
+	'function totalSupply() view returns (uint256)',
+])
+
+const abiCoder = AbiCoder.defaultAbiCoder()
+
+/**
+ * Fetch name/symbol/decimals/totalSupply for a token
+ * decimals is only queried for ERC-20
+ */
+export async function fetchTokenMetadata(rpc: EvmRpc, address: string, type: string): Promise<TokenMetadata> {
+	const [name, symbol, decimals, totalSupply] = await Promise.all([
+		callString(rpc, address, 'name'),
+		callString(rpc, address, 'symbol'),
+		type === 'ERC20' ? callUint(rpc, address, 'decimals') : Promise.resolve(null),
+		type === 'ERC1155' ? Promise.resolve(null) : callUint(rpc, address, 'totalSupply'),
+	])
+
+	return {
+		name,
+		symbol,
+		decimals: decimals !== null && decimals <= 255n ? Number(decimals) : null,
+		totalSupply: totalSupply?.toString() ?? null,
+	}
+}
+
+/**
+ * Fetch totalSupply() only, null if not implemented
+ */
+export async function fetchTotalSupply(rpc: EvmRpc, address: string): Promise<string | null> {
+	const supply = await callUint(rpc, address, 'totalSupply')
+	return supply?.toString() ?? null
+}
+
+interface TokenRow {
+	address: string
+	type: string
+}
+
+/**
+ * Fetch metadata for up to batchSize tokens that have never been enriched
+ * An EvmRpcError aborts the batch and leaves the remaining tokens pending
+ */
+export async function enrichNewTokens(pool: pg.Pool, rpc: EvmRpc, batchSize: number): Promise<number> {
+	const result = await pool.query<TokenRow>(
+		`SELECT address, type
+		 FROM api.evm_tokens
+		 WHERE metadata_updated_at IS NULL
+		 ORDER BY first_seen_height NULLS LAST
+		 LIMIT $1`,
+		[batchSize]
+	)
+
+	for (const token of result.rows) {
+		const metadata = await fetchTokenMetadata(rpc, token.address, token.type)
+
+		await pool.query(
+			`UPDATE api.evm_tokens SET
+				name = COALESCE($2, name),
+				symbol = COALESCE($3, symbol),
+				decimals = COALESCE($4, decimals),
+				total_supply = COALESCE($5, total_supply),
+				metadata_updated_at = NOW(),
+				supply_updated_at = NOW()
+			 WHERE address = $1`,
+			[token.address, metadata.name, metadata.symbol, metadata.decimals, metadata.totalSupply]
+		)
+
+		console.log(
+			`Token ${token.address} (${token.type}): ${metadata.symbol ?? '?'} / ${metadata.name ?? '?'}` +
+			(metadata.decimals !== null ? `, ${metadata.decimals} decimals` : '')
+		)
+	}
+
+	return result.rows.length
+}
+
+/**
+ * Refresh totalSupply for tokens whose last check is older than refreshMs
+ */
+export async function refreshSupplies(pool: pg.Pool, rpc: EvmRpc, batchSize: number, refreshMs: number): Promise<number> {
+	const result = await pool.query<TokenRow>(
+		`SELECT address, type
+		 FROM api.evm_tokens
+		 WHERE metadata_updated_at IS NOT NULL
+		   AND type <> 'ERC1155'
+		   AND (supply_updated_at IS NULL OR supply_updated_at < NOW() - make_interval(secs => $1))
+		 ORDER BY supply_updated_at NULLS FIRST
+		 LIMIT $2`,
+		[refreshMs / 1000, batchSize]
+	)
+
+	for (const token of result.rows) {
+		const supply = await fetchTotalSupply(rpc, token.address)
+		await pool.query(
+			`UPDATE api.evm_tokens SET
+				total_supply = COALESCE($2, total_supply),
+				supply_updated_at = NOW()
+			 WHERE address = $1`,
+			[token.address, supply]
+		)
+	}
+
+	return result.rows.length
+}
+
+async function callString(rpc: EvmRpc, address: string, method: string): Promise<string | null> {
+	const data = await rpc.call(address, METADATA_ABI.encodeFunctionData(method))
+	return data ? decodeStringResult(data) : null
+}
+
+async function callUint(rpc: EvmRpc, address: string, method: string): Promise<bigint | null> {
+	const data = await rpc.call(address, METADATA_ABI.encodeFunctionData(method))
+	if (!data || data.length < 66) return null
+	try {
+		return abiCoder.decode(['uint256'], data.slice(0, 66))[0] as bigint
+	} catch {
+		return null
+	}
+}
+
+/**
+ * Decode a string return value, falling back to bytes32 encoding
+ */
+export function decodeStringResult(data: string): string | null {
+	try {
+		return cleanString(abiCoder.decode(['string'], data)[0] as string)
+	} catch {
+		// Not ABI-encoded string, try bytes32
+	}
+
+	if (data.length < 66) return null
+	const bytes = Buffer.from(data.slice(2, 66), 'hex')
+	const end = bytes.indexOf(0)
+	return cleanString(toUtf8String(end === -1 ? bytes : bytes.subarray(0, end), Utf8ErrorFuncs.ignore))
+}
+
+function cleanString(value: string): string | null {
+	// NUL padding and control characters are rejected by Postgres TEXT
+	const cleaned = stripControlCharacters(value).trim()
+	return cleaned.length > 0 ? cleaned : null
+}
@@ -0,0 +1,231 @@
+/**
+ * Solidity source verification helpers
+ *
+ * Compiles standard-JSON input with a local solc binary and compares the
+ * result to deployed runtime bytecode. Immutable values and linked library
+ * addresses are taken from the deployed code before comparing; the trailing
+ * CBOR metadata is ignored for partial matches.
+ *
+ * Input is untrusted: solc only sees the inline sources, runs in an empty
+ * temporary directory that is also its base path, and failures are reported
+ * as error codes and locations without compiler messages (which quote source).
+ */
+
+import { execFile } from 'child_process'
+import { mkdtempSync, readdirSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+export type MatchType = 'full' | 'partial'
+
+interface CodeRef {
+	start: number
+	length: number
+}
+
+export interface CompiledContract {
+	abi: unknown[]
+	deployedBytecode: string
+	immutableReferences: Record<string, CodeRef[]>
+	linkReferences: Record<string, Record<string, CodeRef[]>>
+	metadata: string | null
+}
+
+export class VerificationError extends Error {
+	constructor(message: string) {
+		super(message)
+		this.name = 'VerificationError'
+	}
+}
+
+/**
+ * Find a solc binary for a version in binDir
+ * Matches solc-bin style names, e.g. solc-linux-amd64-v0.8.24+commit.e11b9ed9,
+ * solc-v0.8.24 or solc-0.8.24. A version with +commit must match exactly.
+ */
+export function resolveSolc(binDir: string, version: string): string {
+	const wanted = version.replace(/^v/, '')
+	const [semver] = wanted.split('+')
+
+	let files: string[]
+	try {
+		files = readdirSync(binDir)
+	} catch {
+		throw new VerificationError(`solc directory ${binDir} is not readable`)
+	}
+
+	const match = files.find(name => {
+		const found = name.match(/v?(\d+\.\d+\.\d+)(\+commit\.[0-9a-f]{8})?$/)
+		if (!found || found[1] !== semver) return false
+		return !wanted.includes('+') || `${found[1]}${found[2] ?? ''}` === wanted
+	})
+
+	if (!match) {
+		throw new VerificationError(`compiler version ${version} is not available`)
+	}
+	return join(binDir, match)
+}
+
+/**
+ * Compile standard-JSON input and return the requested contract's output
+ * contractName is fully qualified: 'path/File.sol:Name'
+ */
+export async function compileContract(
+	solcPath: string,
+	input: any,
+	contractName: string,
+	timeoutMs: number
+): Promise<CompiledContract> {
+	const separator = contractName.lastIndexOf(':')
+	const file = contractName.slice(0, separator)
+	const name = contractName.slice(separator + 1)
+
+	for (const [path, source] of Object.entries<any>(input.sources ?? {})) {
+		if (typeof source?.content !== 'string' || 'urls' in source) {
+			throw new VerificationError(`source ${path} must have inline content`)
+		}
+	}
+
+	const solcInput = {
+		...input,
+		settings: {
+			...input.settings,
+			outputSelection: {
+				[file]: {
+					[name]: [
+						'abi',
+						'metadata',
+						'evm.deployedBytecode.object',
+						'evm.deployedBytecode.immutableReferences',
+						'evm.deployedBytecode.linkReferences',
+					],
+				},
+			},
+		},
+	}
+
+	// Imports can only resolve to the submitted sources: nothing else exists
+	// under the base path and no --allow-paths are given
+	const workDir = mkdtempSync(join(tmpdir(), 'solc-'))
+	let stdout: string
+	try {
+		stdout = await new Promise<string>((resolve, reject) => {
+			const child = execFile(
+				solcPath,
+				['--standard-json', '--base-path', workDir],
+				{ cwd: workDir, maxBuffer: 256 * 1024 * 1024, timeout: timeoutMs },
+				(err, out) => {
+					if (!err) {
+						resolve(out)
+					} else if (err.killed) {
+						reject(new VerificationError(`solc timed out after ${timeoutMs}ms`))
+					} else {
+						reject(new VerificationError(`solc failed with exit code ${err.code ?? 'unknown'}`))
+					}
+				}
+			)
+			child.stdin?.end(JSON.stringify(solcInput))
+		})
+	} finally {
+		rmSync(workDir, { recursive: true, force: true })
+	}
+
+	let output: any
+	try {
+		output = JSON.parse(stdout)
+	} catch {
+		throw new VerificationError('solc returned invalid JSON')
+	}
+
+	const errors = (output.errors || []).filter((e: any) => e.severity === 'error')
+	if (errors.length > 0) {
+		throw new VerificationError(
+			`compilation failed: ${errors.map((e: any) => describeCompilerError(e, input.sources)).join('\n')}`
+		)
+	}
+
+	const contract = output.contracts?.[file]?.[name]
+	if (!contract?.evm?.deployedBytecode?.object) {
+		throw new VerificationError(`contract ${contractName} not found in compiler output`)
+	}
+
+	return {
+		abi: contract.abi || [],
+		deployedBytecode: contract.evm.deployedBytecode.object,
+		immutableReferences: contract.evm.deployedBytecode.immutableReferences || {},
+		linkReferences: contract.evm.deployedBytecode.linkReferences || {},
+		metadata: contract.metadata || null,
+	}
+}
+
+/**
+ * Error type, code and line:column, e.g. 'DeclarationError 7576 at Token.sol:12:5'
+ * The message itself is left out since it can quote source lines
+ */
+function describeCompilerError(error: any, sources: Record<string, { content: string }>): string {
+	let text = error.type || 'Error'
+	if (error.errorCode) text += ` ${error.errorCode}`
+
+	const location = error.sourceLocation
+	if (location?.file) {
+		text += ` at ${location.file}`
+		const content = sources[location.file]?.content
+		if (content !== undefined && location.start >= 0) {
+			const before = content.slice(0, location.start).split('\n')
+			text += `:${before.length}:${before[before.length - 1].length + 1}`
+		}
+	}
+	return text
+}
+
+/**
+ * Compare compiled runtime code to deployed code
+ * Returns 'full' on an exact match (including metadata hash), 'partial' when
+ * only the code before the CBOR metadata matches, null otherwise
+ */
+export function compareRuntimeBytecode(deployed: string, compiled: CompiledContract): MatchType | null {
+	const onchain = stripHexPrefix(deployed).toLowerCase()
+	let local = stripHexPrefix(compiled.deployedBytecode).toLowerCase()
+
+	if (onchain.length !== local.length) {
+		// Metadata length can differ (e.g. different solc commit), code cannot
+		const a = stripMetadata(onchain)
+		const b = stripMetadata(local)
+		if (a.length !== b.length) return null
+	}
+
+	// Immutables are zero-filled and libraries are placeholders in compiler output
+	const refs: CodeRef[] = [
+		...Object.values(compiled.immutableReferences).flat(),
+		...Object.values(compiled.linkReferences).flatMap(lib => Object.values(lib).flat()),
+	]
+	for (const { start, length } of refs) {
+		const from = start * 2
+		const to = from + length * 2
+		if (to > onchain.length) return null
+		local = local.slice(0, from) + onchain.slice(from, to) + local.slice(to)
+	}
+
+	if (local === onchain) return 'full'
+	return stripMetadata(local) === stripMetadata(onchain) ? 'partial' : null
+}
+
+/**
+ * Remove the trailing CBOR metadata section
+ * The last two bytes hold the section length; the section is a CBOR map
+ */
+export function stripMetadata(code: string): string {
+	if (code.length < 4) return code
+	const length = parseInt(code.slice(-4), 16)
+	const start = code.length - 4 - length * 2
+	if (length === 0 || start < 0) return code
+
+	// CBOR map header (0xa1-0xa5 covers solc/vyper metadata maps)
+	const header = parseInt(code.slice(start, start + 2), 16)
+	if (header < 0xa1 || header > 0xa5) return code
+	return code.slice(0, start)
+}
+
+function stripHexPrefix(hex: string): string {
+	return hex.startsWith('0x') ? hex.slice(2) : hex
+}
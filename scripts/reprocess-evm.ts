@@ -0,0 +1,276 @@
+#!/usr/bin/env bun
+/**
+ * EVM Re-decode Command
+ *
+ * Re-decodes already indexed EVM transactions with the current decoder and
+ * replaces their derived rows (evm_transactions, evm_logs,
+ * evm_token_transfers) one batch per database transaction. Safe to run
+ * alongside the live daemon, which only handles undecoded transactions.
+ * A tx that fails to decode or persist is logged and skipped with its
+ * previous rows intact; if a whole batch fails, the last committed
+ * (height, tx_id) is printed so the run can be resumed.
+ *
+ * Usage:
+ *   bun run scripts/reprocess-evm.ts --below-version 1
+ *   bun run scripts/reprocess-evm.ts --from-height 1000 --to-height 2000
+ *   bun run scripts/reprocess-evm.ts --contract 0xabc... --delay-ms 500
+ *
+ * Options:
+ *   --from-height N / --to-height N   Height range (inclusive)
+ *   --contract ADDRESS                Txs sent to, deploying, or emitting logs from ADDRESS
+ *   --below-version N                 Rows stamped with decoder_version < N (unversioned rows count as 0)
+ *   --batch-size N                    Transactions per database transaction (default 100)
+ *   --delay-ms N                      Pause between batches (default 250)
+ *   --dry-run                         Count matching transactions and exit
+ */
+
+import pg from 'pg'
+import { AbiRegistry } from './lib/abi-registry'
+import {
+	DECODER_VERSION,
+	EvmDecodeError,
+	decodePendingTransaction,
+	loadEvmProto,
+	replaceDecodedTransaction,
+	type PendingEvmTx,
+} from './lib/evm-decode'
+
+const { Pool } = pg
+
+const DATABASE_URL = process.env.DATABASE_URL
+
+if (!DATABASE_URL) {
+	console.error('DATABASE_URL environment variable is required')
+	process.exit(1)
+}
+
+const FOURBYTE_LOOKUP = process.env.FOURBYTE_LOOKUP === 'true'
+
+interface ReprocessOptions {
+	fromHeight: number | null
+	toHeight: number | null
+	contract: string | null
+	belowVersion: number | null
+	batchSize: number
+	delayMs: number
+	dryRun: boolean
+}
+
+function parseArgs(argv: string[]): ReprocessOptions {
+	const options: ReprocessOptions = {
+		fromHeight: null,
+		toHeight: null,
+		contract: null,
+		belowVersion: null,
+		batchSize: 100,
+		delayMs: 250,
+		dryRun: false,
+	}
+
+	const intArg = (name: string, value: string | undefined): number => {
+		const parsed = Number(value)
+		if (value === undefined || !Number.isInteger(parsed) || parsed < 0) {
+			console.error(`${name} requires a non-negative integer`)
+			process.exit(1)
+		}
+		return parsed
+	}
+
+	for (let i = 0; i < argv.length; i++) {
+		const arg = argv[i]
+		switch (arg) {
+			case '--from-height': options.fromHeight = intArg(arg, argv[++i]); break
+			case '--to-height': options.toHeight = intArg(arg, argv[++i]); break
+			case '--below-version': options.belowVersion = intArg(arg, argv[++i]); break
+			case '--batch-size': options.batchSize = Math.max(1, intArg(arg, argv[++i])); break
+			case '--delay-ms': options.delayMs = intArg(arg, argv[++i]); break
+			case '--dry-run': options.dryRun = true; break
+			case '--contract': {
+				const address = argv[++i]?.toLowerCase()
+				if (!address || !/^0x[0-9a-f]{40}$/.test(address)) {
+					console.error('--contract requires a 0x-prefixed address')
+					process.exit(1)
+				}
+				options.contract = address
+				break
+			}
+			default:
+				console.error(`Unknown option: ${arg}`)
+				process.exit(1)
+		}
+	}
+
+	if (options.fromHeight === null && options.toHeight === null && options.contract === null && options.belowVersion === null) {
+		console.error('Specify at least one of --from-height/--to-height, --contract or --below-version')
+		process.exit(1)
+	}
+
+	return options
+}
+
+/**
+ * WHERE clause over evm_transactions ev / transactions_main t for the selected filters
+ * Parameters $1-$4 are fromHeight, toHeight, contract, belowVersion
+ */
+const SELECTION = `
+	($1::bigint IS NULL OR t.height >= $1)
+	AND ($2::bigint IS NULL OR t.height <= $2)
+	AND ($3::text IS NULL
+		OR lower(ev."to") = $3
+		OR ev.contract_address = $3
+		OR EXISTS (SELECT 1 FROM api.evm_logs l WHERE l.tx_id = ev.tx_id AND l.address = $3))
+	AND ($4::int IS NULL OR COALESCE(ev.decoder_version, 0) < $4)
+`
+
+function selectionParams(options: ReprocessOptions): unknown[] {
+	return [options.fromHeight, options.toHeight, options.contract, options.belowVersion]
+}
+
+async function countMatching(pool: pg.Pool, options: ReprocessOptions): Promise<number> {
+	const result = await pool.query(
+		`SELECT COUNT(*) AS count
+		 FROM api.evm_transactions ev
+		 JOIN api.transactions_main t ON t.id = ev.tx_id
+		 WHERE ${SELECTION}`,
+		selectionParams(options)
+	)
+	return parseInt(result.rows[0].count, 10)
+}
+
+/**
+ * Re-decode the next batch after the (height, tx_id) keyset position
+ */
+async function reprocessBatch(
+	pool: pg.Pool,
+	root: Awaited<ReturnType<typeof loadEvmProto>>,
+	registry: AbiRegistry,
+	options: ReprocessOptions,
+	after: { height: number; txId: string }
+): Promise<{ processed: number; failed: number; last: { height: number; txId: string } | null }> {
+	const client = await pool.connect()
+
+	try {
+		const batch = await client.query<PendingEvmTx>(
+			`SELECT s.tx_id, s.height, s.raw_bytes, s.gas_used
+			 FROM (
+				SELECT ev.tx_id, t.height
+				FROM api.evm_transactions ev
+				JOIN api.transactions_main t ON t.id = ev.tx_id
+				WHERE ${SELECTION}
+				  AND (t.height, ev.tx_id) > ($5::bigint, $6::text)
+				ORDER BY t.height, ev.tx_id
+				LIMIT $7
+			 ) sel
+			 JOIN api.evm_decode_source s ON s.tx_id = sel.tx_id
+			 ORDER BY sel.height, sel.tx_id`,
+			[...selectionParams(options), after.height, after.txId, options.batchSize]
+		)
+
+		if (batch.rows.length === 0) {
+			return { processed: 0, failed: 0, last: null }
+		}
+
+		let failed = 0
+		await client.query('BEGIN')
+
+		for (const row of batch.rows) {
+			// A bad tx only rolls back its own rows, keeping the existing decode
+			// rather than dropping a tx the new decoder rejects
+			await client.query('SAVEPOINT reprocess_tx')
+			try {
+				const decoded = await decodePendingTransaction(client, row, root, registry, { fourbyteLookup: FOURBYTE_LOOKUP })
+				await replaceDecodedTransaction(client, decoded)
+				await client.query('RELEASE SAVEPOINT reprocess_tx')
+			} catch (err) {
+				await client.query('ROLLBACK TO SAVEPOINT reprocess_tx')
+				if (!(err instanceof EvmDecodeError)) {
+					console.error(`  Unexpected error reprocessing ${row.tx_id}:`, err)
+				}
+				failed++
+				console.error(`  Skipped ${row.tx_id} (height ${row.height}): ${err instanceof Error ? err.message : err}`)
+			}
+		}
+
+		await client.query('COMMIT')
+
+		const lastRow = batch.rows[batch.rows.length - 1]
+		return {
+			processed: batch.rows.length,
+			failed,
+			last: { height: Number(lastRow.height), txId: lastRow.tx_id },
+		}
+	} catch (err) {
+		await client.query('ROLLBACK').catch(() => {})
+		throw err
+	} finally {
+		client.release()
+	}
+}
+
+function formatDuration(ms: number): string {
+	const seconds = Math.round(ms / 1000)
+	if (seconds < 60) return `${seconds}s`
+	if (seconds < 3600) return `${Math.floor(seconds / 60)}m${seconds % 60}s`
+	return `${Math.floor(seconds / 3600)}h${Math.floor((seconds % 3600) / 60)}m`
+}
+
+async function main() {
+	const options = parseArgs(process.argv.slice(2))
+	const pool = new Pool({ connectionString: DATABASE_URL })
+
+	try {
+		const total = await countMatching(pool, options)
+		console.log(`Decoder version: ${DECODER_VERSION}`)
+		console.log(`Matching transactions: ${total}`)
+		if (options.dryRun || total === 0) return
+
+		const root = await loadEvmProto()
+		const registry = AbiRegistry.withKnownSignatures()
+		console.log(`Loaded ${await registry.loadContractAbis(pool)} contract ABIs`)
+
+		const started = Date.now()
+		let position = { height: -1, txId: '' }
+		let processed = 0
+		let failed = 0
+
+		while (true) {
+			let result: Awaited<ReturnType<typeof reprocessBatch>>
+			try {
+				result = await reprocessBatch(pool, root, registry, options, position)
+			} catch (err) {
+				// The failed batch was rolled back; everything up to position is committed
+				if (position.height >= 0) {
+					console.error(`Last committed: height ${position.height}, tx ${position.txId}`)
+					console.error(`Resume with --from-height ${position.height} (re-decoding that height is harmless)`)
+				}
+				throw err
+			}
+			if (!result.last) break
+
+			position = result.last
+			processed += result.processed
+			failed += result.failed
+
+			const elapsed = Date.now() - started
+			const rate = processed / (elapsed / 1000)
+			const remaining = Math.max(0, total - processed)
+			console.log(
+				`  ${processed}/${total} (${((processed / total) * 100).toFixed(1)}%) ` +
+				`height ${position.height}, ${rate.toFixed(1)} tx/s, ETA ${formatDuration((remaining / Math.max(rate, 0.001)) * 1000)}`
+			)
+
+			if (options.delayMs > 0) {
+				await new Promise(resolve => setTimeout(resolve, options.delayMs))
+			}
+		}
+
+		console.log(`Reprocessed ${processed} transactions (${failed} skipped) in ${formatDuration(Date.now() - started)}`)
+	} finally {
+		await pool.end()
+	}
+}
+
+main().catch(err => {
+	console.error('Reprocess failed:', err)
+	process.exit(1)
+})
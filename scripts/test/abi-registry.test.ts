@@ -0,0 +1,38 @@
+import { describe, expect, test } from 'bun:test'
+import { Interface } from 'ethers'
+import { AbiRegistry } from '../lib/abi-registry'
+
+const CONTRACT = '0x5fbdb2315678afecb367f032d93f642f64180aa3'
+
+const iface = new Interface([
+	'function setName(string name, (string label, uint256 id)[] tags)',
+	'event NameChanged(address indexed owner, string name)',
+])
+
+function registry(): AbiRegistry {
+	const registry = new AbiRegistry()
+	for (const fragment of iface.fragments) registry.addFragment(fragment.format('full'))
+	return registry
+}
+
+describe('AbiRegistry', () => {
+	test('strips NUL and control characters from decoded call strings', () => {
+		const data = iface.encodeFunctionData('setName', ['ab\u0000c\u0007', [['x\u0000', 7n]]])
+		const call = registry().decodeCall(CONTRACT, data)
+
+		expect(call?.name).toBe('setName')
+		expect(call?.args).toEqual([
+			{ name: 'name', type: 'string', value: 'abc' },
+			{ name: 'tags', type: '(string,uint256)[]', value: [{ label: 'x', id: '7' }] },
+		])
+		expect(() => JSON.stringify(call?.args)).not.toThrow()
+		expect(JSON.stringify(call?.args)).not.toContain('\\u0000')
+	})
+
+	test('strips NUL from decoded event strings', () => {
+		const log = iface.encodeEventLog('NameChanged', [CONTRACT, 'null\u0000byte'])
+		const event = registry().decodeLog(CONTRACT, log.topics, log.data)
+
+		expect(event?.args[1]).toEqual({ name: 'name', type: 'string', value: 'nullbyte' })
+	})
+})
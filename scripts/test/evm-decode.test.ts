@@ -0,0 +1,245 @@
+import { beforeAll, describe, expect, test } from 'bun:test'
+import type pg from 'pg'
+import type protobuf from 'protobufjs'
+import { AbiRegistry } from '../lib/abi-registry'
+import {
+	EvmDecodeError,
+	decodePendingTransaction,
+	decodeTransaction,
+	decodeTxResponse,
+	loadEvmProto,
+	parseTokenTransfers,
+	persistDecodedTransaction,
+	type DecodedEvmTx,
+} from '../lib/evm-decode'
+import fixtures from './fixtures/evm-txs.json'
+
+// Each fixture holds what the indexer stores for a MsgEthereumTx: the signed
+// tx bytes (messages_main data->>'raw', base64) and the TxMsgData of its
+// result (transactions_raw data->'tx_response'->'data', hex)
+type Fixture = (typeof fixtures)[keyof typeof fixtures]
+
+const SENDER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266'
+const RECIPIENT = '0x70997970c51812dc3a010c7d01b50e0d17dc79c8'
+const TOKEN = '0x5fbdb2315678afecb367f032d93f642f64180aa3'
+
+let root: protobuf.Root
+
+beforeAll(async () => {
+	root = await loadEvmProto()
+})
+
+/**
+ * Just enough of pg.PoolClient for decoding and persistence: serves the
+ * receipt and fee events of one fixture and records every other statement
+ */
+function fakeClient(fixture: Fixture, baseFee = '1000000000') {
+	const statements: { sql: string; params: unknown[] }[] = []
+	const client = {
+		async query(sql: string, params: unknown[] = []) {
+			if (sql.includes('FROM api.transactions_raw')) {
+				return { rows: [{ response_data: fixture.tx_response_data }] }
+			}
+			if (sql.includes('FROM api.events_main')) {
+				return { rows: [{ event_type: 'fee_market', attr_key: 'base_fee', attr_value: baseFee }] }
+			}
+			statements.push({ sql, params })
+			return { rows: [] }
+		},
+	}
+	return { client: client as unknown as pg.PoolClient, statements }
+}
+
+function inserts(statements: { sql: string; params: unknown[] }[], table: string): unknown[][] {
+	return statements
+		.filter(s => s.sql.includes(`INSERT INTO api.${table} `) || s.sql.includes(`INSERT INTO api.${table}(`))
+		.map(s => s.params)
+}
+
+async function decodeFixture(fixture: Fixture): Promise<{ decoded: DecodedEvmTx; client: pg.PoolClient; statements: { sql: string; params: unknown[] }[] }> {
+	const { client, statements } = fakeClient(fixture)
+	const decoded = await decodePendingTransaction(
+		client,
+		{ tx_id: fixture.tx_id, height: fixture.height, raw_bytes: fixture.raw, gas_used: null },
+		root,
+		AbiRegistry.withKnownSignatures(),
+		{ fourbyteLookup: false }
+	)
+	return { decoded, client, statements }
+}
+
+describe('decodeTransaction', () => {
+	test('decodes a dynamic-fee transaction', () => {
+		const tx = decodeTransaction(fixtures.erc20_transfer.raw, fixtures.erc20_transfer.tx_id, null)
+
+		expect(tx.hash).toBe(fixtures.erc20_transfer.hash)
+		expect(tx.from).toBe(SENDER)
+		expect(tx.to?.toLowerCase()).toBe(TOKEN)
+		expect(tx.nonce).toBe(7)
+		expect(tx.type).toBe(2)
+		expect(tx.chain_id).toBe(9001n)
+		expect(tx.gas_limit).toBe(65000n)
+		expect(tx.max_fee_per_gas).toBe(20000000000n)
+		expect(tx.max_priority_fee_per_gas).toBe(1000000000n)
+		expect(tx.data?.slice(0, 10)).toBe('0xa9059cbb')
+	})
+
+	test('decodes a legacy transaction', () => {
+		const tx = decodeTransaction(fixtures.reverted_transfer.raw, fixtures.reverted_transfer.tx_id, 30211)
+
+		expect(tx.hash).toBe(fixtures.reverted_transfer.hash)
+		expect(tx.type).toBe(0)
+		expect(tx.gas_price).toBe(10000000000n)
+		expect(tx.max_fee_per_gas).toBeNull()
+		expect(tx.gas_used).toBe(30211)
+	})
+
+	test('decodes a contract deployment', () => {
+		const tx = decodeTransaction(fixtures.contract_deployment.raw, fixtures.contract_deployment.tx_id, null)
+
+		expect(tx.to).toBeNull()
+		expect(tx.nonce).toBe(0)
+	})
+
+	test('throws EvmDecodeError for malformed bytes', () => {
+		expect(() => decodeTransaction('AQID', 'BAD', null)).toThrow(EvmDecodeError)
+		expect(() => decodeTransaction('', 'EMPTY', null)).toThrow(EvmDecodeError)
+	})
+})
+
+describe('decodeTxResponse', () => {
+	test('decodes logs and gas used', async () => {
+		const response = await decodeTxResponse(fixtures.erc20_transfer.tx_response_data, root)
+
+		expect(response?.gasUsed).toBe(51234)
+		expect(response?.vmError).toBeNull()
+		expect(response?.ret).toBeNull()
+		expect(response?.logs).toHaveLength(1)
+		expect(response?.logs[0].address).toBe(TOKEN)
+		expect(response?.logs[0].topics[0]).toBe('0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef')
+	})
+
+	test('reports the VM error and return data of a revert', async () => {
+		const response = await decodeTxResponse(fixtures.reverted_transfer.tx_response_data, root)
+
+		expect(response?.vmError).toBe('execution reverted')
+		expect(response?.ret?.slice(0, 10)).toBe('0x08c379a0')
+		expect(response?.logs).toEqual([])
+	})
+
+	test('returns null for data that is not TxMsgData', async () => {
+		expect(await decodeTxResponse('0xdeadbeef', root)).toBeNull()
+	})
+})
+
+describe('parseTokenTransfers', () => {
+	test('extracts an ERC-20 transfer', async () => {
+		const response = await decodeTxResponse(fixtures.erc20_transfer.tx_response_data, root)
+
+		expect(parseTokenTransfers(response!.logs[0])).toEqual([{
+			token_type: 'ERC20',
+			batch_index: 0,
+			from: SENDER.toLowerCase(),
+			to: RECIPIENT,
+			token_id: null,
+			amount: '2500000000000000000',
+			value: '2500000000000000000',
+		}])
+	})
+
+	test('extracts ERC-721 and ERC-1155 batch transfers', async () => {
+		const response = await decodeTxResponse(fixtures.nft_transfers.tx_response_data, root)
+		const [erc721, batch] = response!.logs.map(parseTokenTransfers)
+
+		expect(erc721).toEqual([{
+			token_type: 'ERC721',
+			batch_index: 0,
+			from: SENDER.toLowerCase(),
+			to: RECIPIENT,
+			token_id: '42',
+			amount: '1',
+			value: '42',
+		}])
+		expect(batch.map(t => [t.token_type, t.batch_index, t.token_id, t.amount])).toEqual([
+			['ERC1155', 0, '1', '10'],
+			['ERC1155', 1, '2', '20'],
+		])
+	})
+})
+
+describe('decodePendingTransaction', () => {
+	test('combines the tx, its receipt and the block base fee', async () => {
+		const { decoded } = await decodeFixture(fixtures.erc20_transfer)
+
+		expect(decoded.height).toBe(1200345)
+		expect(decoded.tx.status).toBe(1)
+		expect(decoded.tx.gas_used).toBe(51234)
+		expect(decoded.tx.function_name).toBe('transfer')
+		// min(maxFeePerGas, baseFee + maxPriorityFeePerGas)
+		expect(decoded.tx.effective_gas_price).toBe(2000000000n)
+		expect(decoded.tx.fee_paid).toBe(51234n * 2000000000n)
+		expect(decoded.logs[0].tx_id).toBe(fixtures.erc20_transfer.tx_id)
+	})
+
+	test('marks reverted transactions as failed with their reason', async () => {
+		const { decoded } = await decodeFixture(fixtures.reverted_transfer)
+
+		expect(decoded.tx.status).toBe(0)
+		expect(decoded.tx.vm_error).toBe('execution reverted')
+		expect(decoded.tx.revert_reason).toBe('ERC20: transfer amount exceeds balance')
+	})
+})
+
+describe('persistDecodedTransaction', () => {
+	test('writes the tx, logs, token and token transfer with its height', async () => {
+		const { decoded, client, statements } = await decodeFixture(fixtures.erc20_transfer)
+		await persistDecodedTransaction(client, decoded)
+
+		const [tx] = inserts(statements, 'evm_transactions')
+		expect(tx.slice(0, 4)).toEqual([fixtures.erc20_transfer.tx_id, fixtures.erc20_transfer.hash, SENDER, decoded.tx.to])
+
+		expect(inserts(statements, 'evm_logs')).toHaveLength(1)
+		expect(inserts(statements, 'evm_tokens')).toEqual([[TOKEN, 'ERC20', fixtures.erc20_transfer.tx_id, 1200345]])
+		expect(inserts(statements, 'evm_token_transfers')).toEqual([[
+			fixtures.erc20_transfer.tx_id,
+			0,
+			0,
+			TOKEN,
+			SENDER.toLowerCase(),
+			RECIPIENT,
+			'2500000000000000000',
+			null,
+			'2500000000000000000',
+			expect.any(Number),
+			1200345,
+		]])
+		expect(inserts(statements, 'evm_block_fees')).toEqual([[1200345, '1000000000', 'event']])
+	})
+
+	test('writes one transfer row per ERC-1155 batch entry', async () => {
+		const { decoded, client, statements } = await decodeFixture(fixtures.nft_transfers)
+		await persistDecodedTransaction(client, decoded)
+
+		const transfers = inserts(statements, 'evm_token_transfers')
+		expect(transfers.map(t => [t[1], t[2], t[7]])).toEqual([
+			[0, 0, '42'],
+			[1, 0, '1'],
+			[1, 1, '2'],
+		])
+	})
+
+	test('records the contract created by a deployment', async () => {
+		const { decoded, client, statements } = await decodeFixture(fixtures.contract_deployment)
+		await persistDecodedTransaction(client, decoded)
+
+		const [contract] = inserts(statements, 'evm_contracts')
+		// CREATE address of the sender's first transaction
+		expect(contract.slice(0, 4)).toEqual([
+			'0x5fbdb2315678afecb367f032d93f642f64180aa3',
+			SENDER.toLowerCase(),
+			fixtures.contract_deployment.tx_id,
+			1200001,
+		])
+		expect(decoded.tx.contract_address).toBe(TOKEN)
+	})
+})
@@ -0,0 +1,35 @@
+import { describe, expect, test } from 'bun:test'
+import { AbiCoder, Interface } from 'ethers'
+import { AbiRegistry } from '../lib/abi-registry'
+import { decodeRevertReason } from '../lib/revert-reason'
+
+const CONTRACT = '0x5fbdb2315678afecb367f032d93f642f64180aa3'
+const coder = AbiCoder.defaultAbiCoder()
+
+describe('decodeRevertReason', () => {
+	test('strips NUL and control characters from Error(string)', () => {
+		const ret = '0x08c379a0' + coder.encode(['string'], ['bad\u0000 input\u001b']).slice(2)
+		const reason = decodeRevertReason(ret, AbiRegistry.withKnownSignatures(), CONTRACT)
+
+		expect(reason?.message).toBe('bad input')
+		expect(reason?.error?.args).toEqual([{ name: 'message', type: 'string', value: 'bad input' }])
+		expect(JSON.stringify(reason)).not.toContain('\\u0000')
+	})
+
+	test('strips NUL from custom error string args', () => {
+		const iface = new Interface(['error Rejected(string why, uint256 code)'])
+		const registry = new AbiRegistry()
+		registry.addFragment('error Rejected(string why, uint256 code)')
+		const ret = iface.encodeErrorResult('Rejected', ['no\u0000pe', 3n])
+
+		const reason = decodeRevertReason(ret, registry, CONTRACT)
+		expect(reason?.message).toBe('Rejected(why=nope, code=3)')
+		expect(reason?.error?.args[0]).toEqual({ name: 'why', type: 'string', value: 'nope' })
+	})
+
+	test('decodes Panic(uint256)', () => {
+		const ret = '0x4e487b71' + coder.encode(['uint256'], [0x11]).slice(2)
+		expect(decodeRevertReason(ret, AbiRegistry.withKnownSignatures(), CONTRACT)?.message)
+			.toBe('Panic: arithmetic overflow or underflow (0x11)')
+	})
+})
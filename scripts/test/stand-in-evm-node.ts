@@ -0,0 +1,86 @@
+/**
+ * Local stand-in for an EVM JSON-RPC node
+ *
+ * Answers eth_call from a table of canned results keyed by contract address
+ * and 4-byte selector, so the token metadata worker can run without a chain.
+ * An entry can instead reply with a JSON-RPC error, e.g. a revert (code 3) or
+ * a rate limit (-32005). Calls with no entry revert like a missing method.
+ *
+ * Run directly to serve a sample ERC-20 for manual testing:
+ *   bun run scripts/test/stand-in-evm-node.ts
+ *   EVM_RPC_URL=http://localhost:8545 bun run token-metadata
+ */
+
+export interface RpcErrorReply {
+	code: number
+	message: string
+}
+
+// address (lowercase) -> selector (0x + 8 hex) -> hex result or error
+export type CallTable = Record<string, Record<string, string | RpcErrorReply>>
+
+export interface StandInNode {
+	url: string
+	// Every method received, in order
+	requests: string[]
+	stop(): void
+}
+
+const REVERT: RpcErrorReply = { code: 3, message: 'execution reverted' }
+
+export function startStandInNode(calls: CallTable, port = 0): StandInNode {
+	const requests: string[] = []
+
+	const server = Bun.serve({
+		port,
+		async fetch(req) {
+			const { id, method, params } = await req.json() as { id: number; method: string; params: unknown[] }
+			requests.push(method)
+
+			let reply: string | RpcErrorReply
+			if (method === 'eth_call') {
+				const { to, data } = params[0] as { to: string; data: string }
+				reply = calls[to.toLowerCase()]?.[data.slice(0, 10)] ?? REVERT
+			} else if (method === 'eth_chainId') {
+				reply = '0x1'
+			} else {
+				reply = { code: -32601, message: `the method ${method} does not exist/is not available` }
+			}
+
+			return Response.json(
+				typeof reply === 'string'
+					? { jsonrpc: '2.0', id, result: reply }
+					: { jsonrpc: '2.0', id, error: reply }
+			)
+		},
+	})
+
+	return {
+		url: `http://localhost:${server.port}`,
+		requests,
+		stop: () => server.stop(true),
+	}
+}
+
+if (import.meta.main) {
+	const { AbiCoder, Interface } = await import('ethers')
+	const abi = new Interface([
+		'function name() view returns (string)',
+		'function symbol() view returns (string)',
+		'function decimals() view returns (uint8)',
+		'function totalSupply() view returns (uint256)',
+	])
+	const coder = AbiCoder.defaultAbiCoder()
+	const address = (process.env.STAND_IN_TOKEN || '0x5fbdb2315678afecb367f032d93f642f64180aa3').toLowerCase()
+
+	const node = startStandInNode({
+		[address]: {
+			[abi.getFunction('name')!.selector]: coder.encode(['string'], ['Stand-in Token']),
+			[abi.getFunction('symbol')!.selector]: coder.encode(['string'], ['STAND']),
+			[abi.getFunction('decimals')!.selector]: coder.encode(['uint8'], [18]),
+			[abi.getFunction('totalSupply')!.selector]: coder.encode(['uint256'], [10n ** 24n]),
+		},
+	}, parseInt(process.env.PORT || '8545', 10))
+
+	console.log(`Stand-in EVM node listening on ${node.url} (ERC-20 at ${address})`)
+}
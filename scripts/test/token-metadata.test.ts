@@ -0,0 +1,136 @@
+import { afterEach, describe, expect, test } from 'bun:test'
+import { AbiCoder, Interface } from 'ethers'
+import type pg from 'pg'
+import { EvmRpc, EvmRpcError } from '../lib/evm-rpc'
+import { enrichNewTokens, fetchTokenMetadata } from '../lib/token-metadata'
+import { startStandInNode, type CallTable, type StandInNode } from './stand-in-evm-node'
+
+const abi = new Interface([
+	'function name() view returns (string)',
+	'function symbol() view returns (string)',
+	'function decimals() view returns (uint8)',
+	'function totalSupply() view returns (uint256)',
+])
+const coder = AbiCoder.defaultAbiCoder()
+const selector = (method: string) => abi.getFunction(method)!.selector
+
+const TOKEN = '0x5fbdb2315678afecb367f032d93f642f64180aa3'
+const MKR = '0x9f8f72aa9304c8b593d555f12ef6589cc3a579a2'
+
+const erc20: CallTable[string] = {
+	[selector('name')]: coder.encode(['string'], ['Wrapped Ether']),
+	[selector('symbol')]: coder.encode(['string'], ['WETH']),
+	[selector('decimals')]: coder.encode(['uint8'], [18]),
+	[selector('totalSupply')]: coder.encode(['uint256'], [1000n]),
+}
+
+let node: StandInNode | undefined
+
+afterEach(() => {
+	node?.stop()
+	node = undefined
+})
+
+function rpcFor(calls: CallTable): EvmRpc {
+	node = startStandInNode(calls)
+	return new EvmRpc(node.url, 2000)
+}
+
+/**
+ * Just enough of pg.Pool for enrichNewTokens: returns rows for the SELECT
+ * and records the parameters of every UPDATE
+ */
+function fakePool(rows: { address: string; type: string }[]) {
+	const updates: unknown[][] = []
+	const pool = {
+		async query(sql: string, params: unknown[]) {
+			if (sql.trimStart().startsWith('SELECT')) return { rows }
+			updates.push(params)
+			return { rows: [] }
+		},
+	}
+	return { pool: pool as unknown as pg.Pool, updates }
+}
+
+describe('EvmRpc.call', () => {
+	test('returns the result of a successful call', async () => {
+		const rpc = rpcFor({ [TOKEN]: erc20 })
+		expect(await rpc.call(TOKEN, selector('symbol'))).toBe(erc20[selector('symbol')] as string)
+	})
+
+	test('returns null when the call reverts', async () => {
+		const rpc = rpcFor({
+			[TOKEN]: { [selector('name')]: { code: -32000, message: 'execution reverted' } },
+		})
+		expect(await rpc.call(TOKEN, selector('name'))).toBeNull()
+		// No entry: the stand-in reverts with code 3 like a missing method
+		expect(await rpc.call(TOKEN, selector('symbol'))).toBeNull()
+	})
+
+	test('rethrows rate limits and internal errors', async () => {
+		const rpc = rpcFor({
+			[TOKEN]: {
+				[selector('name')]: { code: -32005, message: 'request rate exceeded' },
+				[selector('symbol')]: { code: -32603, message: 'internal error' },
+				[selector('decimals')]: { code: -32000, message: 'header not found' },
+			},
+		})
+		for (const method of ['name', 'symbol', 'decimals']) {
+			await expect(rpc.call(TOKEN, selector(method))).rejects.toBeInstanceOf(EvmRpcError)
+		}
+	})
+
+	test('rethrows when the node is unreachable', async () => {
+		node = startStandInNode({})
+		const rpc = new EvmRpc(node.url, 2000)
+		node.stop()
+		node = undefined
+		await expect(rpc.call(TOKEN, selector('name'))).rejects.toBeInstanceOf(EvmRpcError)
+	})
+})
+
+describe('fetchTokenMetadata', () => {
+	test('reads ERC-20 metadata', async () => {
+		const rpc = rpcFor({ [TOKEN]: erc20 })
+		expect(await fetchTokenMetadata(rpc, TOKEN, 'ERC20')).toEqual({
+			name: 'Wrapped Ether',
+			symbol: 'WETH',
+			decimals: 18,
+			totalSupply: '1000',
+		})
+	})
+
+	test('decodes bytes32 names and leaves missing methods null', async () => {
+		const rpc = rpcFor({
+			[MKR]: {
+				[selector('symbol')]: '0x' + Buffer.from('MKR').toString('hex').padEnd(64, '0'),
+			},
+		})
+		expect(await fetchTokenMetadata(rpc, MKR, 'ERC20')).toEqual({
+			name: null,
+			symbol: 'MKR',
+			decimals: null,
+			totalSupply: null,
+		})
+	})
+})
+
+describe('enrichNewTokens', () => {
+	test('stores the metadata of each pending token', async () => {
+		const rpc = rpcFor({ [TOKEN]: erc20 })
+		const { pool, updates } = fakePool([{ address: TOKEN, type: 'ERC20' }])
+
+		expect(await enrichNewTokens(pool, rpc, 50)).toBe(1)
+		expect(updates).toEqual([[TOKEN, 'Wrapped Ether', 'WETH', 18, '1000']])
+	})
+
+	test('leaves the token pending when the node fails', async () => {
+		const rpc = rpcFor({
+			[TOKEN]: { ...erc20, [selector('symbol')]: { code: -32005, message: 'request rate exceeded' } },
+		})
+		const { pool, updates } = fakePool([{ address: TOKEN, type: 'ERC20' }])
+
+		await expect(enrichNewTokens(pool, rpc, 50)).rejects.toBeInstanceOf(EvmRpcError)
+		expect(updates).toEqual([])
+	})
+})
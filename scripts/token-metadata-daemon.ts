@@ -0,0 +1,83 @@
+#!/usr/bin/env bun
+/**
+ * Token Metadata Daemon
+ *
+ * Fills name, symbol, decimals and total_supply for rows the decode daemon
+ * inserts into api.evm_tokens, using eth_call against an EVM JSON-RPC node.
+ * Periodically refreshes totalSupply for ERC-20/721 tokens.
+ */
+
+import pg from 'pg'
+import { EvmRpc, EvmRpcError } from './lib/evm-rpc'
+import { MetricsRegistry, pollHealth, startMetricsServer } from './lib/metrics'
+import { enrichNewTokens, refreshSupplies } from './lib/token-metadata'
+
+const { Pool } = pg
+
+const DATABASE_URL = process.env.DATABASE_URL
+const EVM_RPC_URL = process.env.EVM_RPC_URL
+
+if (!DATABASE_URL) {
+	console.error('DATABASE_URL environment variable is required')
+	process.exit(1)
+}
+
+if (!EVM_RPC_URL) {
+	console.error('EVM_RPC_URL environment variable is required')
+	process.exit(1)
+}
+
+const POLL_INTERVAL_MS = parseInt(process.env.TOKEN_METADATA_POLL_INTERVAL_MS || '30000', 10)
+const BATCH_SIZE = parseInt(process.env.TOKEN_METADATA_BATCH_SIZE || '50', 10)
+const SUPPLY_REFRESH_MS = parseInt(process.env.TOKEN_SUPPLY_REFRESH_MS || '3600000', 10) // Default 1 hour
+const RPC_TIMEOUT_MS = parseInt(process.env.EVM_RPC_TIMEOUT_MS || '10000', 10)
+const METRICS_PORT = parseInt(process.env.METRICS_PORT || '9091', 10)
+const HEALTH_MAX_POLL_AGE_MS = parseInt(process.env.HEALTH_MAX_POLL_AGE_MS || String(Math.max(POLL_INTERVAL_MS * 6, 120000)), 10)
+
+const metrics = new MetricsRegistry()
+const tokensTotal = metrics.counter('yaci_token_metadata_tokens_total', 'Tokens processed, by operation (enriched / supply_refreshed)')
+const rpcErrors = metrics.counter('yaci_evm_rpc_errors_total', 'Poll cycles aborted by an EVM RPC transport error')
+const lastSuccessfulPoll = metrics.gauge('yaci_last_successful_poll_timestamp_seconds', 'Unix time of the last successful poll')
+
+async function main() {
+	console.log('Starting token metadata daemon...')
+	console.log(`Database: ${DATABASE_URL!.replace(/:[^:@]+@/, ':***@')}`)
+	console.log(`EVM RPC: ${EVM_RPC_URL}`)
+	console.log(`Poll interval: ${POLL_INTERVAL_MS}ms`)
+	console.log(`Supply refresh: ${SUPPLY_REFRESH_MS}ms`)
+
+	const pool = new Pool({ connectionString: DATABASE_URL })
+	const rpc = new EvmRpc(EVM_RPC_URL!, RPC_TIMEOUT_MS)
+
+	const startedAt = Date.now()
+	startMetricsServer(METRICS_PORT, metrics, () => pollHealth(lastSuccessfulPoll, startedAt, HEALTH_MAX_POLL_AGE_MS))
+
+	while (true) {
+		try {
+			const enriched = await enrichNewTokens(pool, rpc, BATCH_SIZE)
+			const refreshed = await refreshSupplies(pool, rpc, BATCH_SIZE, SUPPLY_REFRESH_MS)
+			tokensTotal.inc({ operation: 'enriched' }, enriched)
+			tokensTotal.inc({ operation: 'supply_refreshed' }, refreshed)
+			lastSuccessfulPoll.setToCurrentTime()
+			if (enriched > 0 || refreshed > 0) {
+				console.log(`Enriched ${enriched} tokens, refreshed supply for ${refreshed}`)
+			}
+
+			await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS))
+		} catch (err) {
+			// RPC transport errors leave the token pending for the next cycle
+			if (err instanceof EvmRpcError) {
+				rpcErrors.inc()
+				console.error(`RPC unavailable: ${err.message}`)
+			} else {
+				console.error('Error in main loop:', err)
+			}
+			await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS * 2))
+		}
+	}
+}
+
+main().catch(err => {
+	console.error('Fatal error:', err)
+	process.exit(1)
+})
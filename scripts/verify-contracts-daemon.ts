@@ -0,0 +1,252 @@
+#!/usr/bin/env bun
+/**
+ * Contract Verification Daemon
+ *
+ * Processes requests queued by api.submit_contract_verification():
+ * compiles the submitted standard-JSON with a local solc build, compares it
+ * to the deployed runtime bytecode and stores ABI/source on success.
+ * Woken via NOTIFY contract_verification, with a polling fallback.
+ */
+
+import pg from 'pg'
+import { EvmRpc } from './lib/evm-rpc'
+import { MetricsRegistry, pollHealth, startMetricsServer } from './lib/metrics'
+import {
+	VerificationError,
+	compareRuntimeBytecode,
+	compileContract,
+	resolveSolc,
+} from './lib/verification'
+
+const { Pool } = pg
+
+const DATABASE_URL = process.env.DATABASE_URL
+const EVM_RPC_URL = process.env.EVM_RPC_URL
+
+if (!DATABASE_URL) {
+	console.error('DATABASE_URL environment variable is required')
+	process.exit(1)
+}
+
+if (!EVM_RPC_URL) {
+	console.error('EVM_RPC_URL environment variable is required')
+	process.exit(1)
+}
+
+const SOLC_BIN_DIR = process.env.SOLC_BIN_DIR || '/usr/local/lib/solc'
+const POLL_INTERVAL_MS = parseInt(process.env.VERIFY_POLL_INTERVAL_MS || '10000', 10)
+const COMPILE_TIMEOUT_MS = parseInt(process.env.VERIFY_COMPILE_TIMEOUT_MS || '120000', 10)
+// A 'compiling' request older than this was abandoned (replica crashed) and is claimed again
+const LEASE_MS = parseInt(process.env.VERIFY_LEASE_MS || String(COMPILE_TIMEOUT_MS * 2 + 60000), 10)
+const METRICS_PORT = parseInt(process.env.METRICS_PORT || '9091', 10)
+// A single compile can take up to COMPILE_TIMEOUT_MS, during which no poll completes
+const HEALTH_MAX_POLL_AGE_MS = parseInt(process.env.HEALTH_MAX_POLL_AGE_MS || String(POLL_INTERVAL_MS * 3 + COMPILE_TIMEOUT_MS), 10)
+
+const metrics = new MetricsRegistry()
+const verificationsTotal = metrics.counter('yaci_contract_verifications_total', 'Processed verification requests, by result (verified / failed)')
+const verifyDuration = metrics.histogram('yaci_contract_verification_duration_seconds', 'Time to compile and compare a request', [1, 5, 10, 30, 60, 120, 300])
+const listenConnected = metrics.gauge('yaci_listen_connected', 'Whether the LISTEN connection is up (1) or down (0)')
+const lastSuccessfulPoll = metrics.gauge('yaci_last_successful_poll_timestamp_seconds', 'Unix time of the last successful queue poll')
+listenConnected.set(0)
+
+interface VerificationRequest {
+	id: string
+	address: string
+	compiler_version: string
+	contract_name: string
+	input: any
+}
+
+/**
+ * Claim the oldest pending request, or one whose compiling lease expired
+ * Other replicas keep the requests they are still compiling
+ */
+async function claimNext(pool: pg.Pool): Promise<VerificationRequest | null> {
+	const result = await pool.query<VerificationRequest>(
+		`UPDATE api.contract_verifications
+		 SET status = 'compiling', started_at = NOW()
+		 WHERE id = (
+			SELECT id FROM api.contract_verifications
+			WHERE status = 'pending'
+			   OR (status = 'compiling' AND started_at < NOW() - make_interval(secs => $1))
+			ORDER BY submitted_at
+			FOR UPDATE SKIP LOCKED
+			LIMIT 1
+		 )
+		 RETURNING id, address, compiler_version, contract_name, input`,
+		[LEASE_MS / 1000]
+	)
+	return result.rows[0] ?? null
+}
+
+/**
+ * Deployed runtime bytecode, fetched once and cached in evm_contracts
+ */
+async function getDeployedBytecode(pool: pg.Pool, rpc: EvmRpc, address: string): Promise<string> {
+	const cached = await pool.query(
+		'SELECT deployed_bytecode FROM api.evm_contracts WHERE address = $1',
+		[address]
+	)
+	if (cached.rows[0]?.deployed_bytecode) {
+		return cached.rows[0].deployed_bytecode
+	}
+
+	const code = await rpc.getCode(address)
+	if (!code) {
+		throw new VerificationError(`no contract code at ${address}`)
+	}
+
+	await pool.query(
+		`INSERT INTO api.evm_contracts (address, deployed_bytecode)
+		 VALUES ($1, $2)
+		 ON CONFLICT (address) DO UPDATE SET deployed_bytecode = EXCLUDED.deployed_bytecode`,
+		[address, code]
+	)
+	return code
+}
+
+async function verify(pool: pg.Pool, rpc: EvmRpc, request: VerificationRequest): Promise<void> {
+	const deployed = await getDeployedBytecode(pool, rpc, request.address)
+	const solcPath = resolveSolc(SOLC_BIN_DIR, request.compiler_version)
+	const compiled = await compileContract(solcPath, request.input, request.contract_name, COMPILE_TIMEOUT_MS)
+
+	const match = compareRuntimeBytecode(deployed, compiled)
+	if (!match) {
+		throw new VerificationError('compiled bytecode does not match deployed bytecode')
+	}
+
+	const sources: Record<string, string> = {}
+	for (const [path, source] of Object.entries<any>(request.input.sources)) {
+		if (typeof source?.content === 'string') sources[path] = source.content
+	}
+
+	const client = await pool.connect()
+	try {
+		await client.query('BEGIN')
+
+		await client.query(
+			`UPDATE api.evm_contracts SET
+				is_verified = true,
+				verified_at = NOW(),
+				name = $2,
+				abi = $3,
+				source_code = $4,
+				compiler_version = $5,
+				metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object('verification', $6::jsonb)
+			 WHERE address = $1`,
+			[
+				request.address,
+				request.contract_name.slice(request.contract_name.lastIndexOf(':') + 1),
+				JSON.stringify(compiled.abi),
+				JSON.stringify(sources),
+				request.compiler_version,
+				JSON.stringify({
+					request_id: Number(request.id),
+					contract_name: request.contract_name,
+					match_type: match,
+					settings: request.input.settings ?? {},
+				}),
+			]
+		)
+
+		await client.query(
+			`UPDATE api.contract_verifications
+			 SET status = 'verified', match_type = $2, completed_at = NOW()
+			 WHERE id = $1`,
+			[request.id, match]
+		)
+
+		await client.query('COMMIT')
+	} catch (err) {
+		await client.query('ROLLBACK')
+		throw err
+	} finally {
+		client.release()
+	}
+
+	console.log(`✓ Verified ${request.address} as ${request.contract_name} (${match} match)`)
+}
+
+async function markFailed(pool: pg.Pool, request: VerificationRequest, err: unknown): Promise<void> {
+	const message = err instanceof Error ? err.message : String(err)
+	await pool.query(
+		`UPDATE api.contract_verifications
+		 SET status = 'failed', error = $2, completed_at = NOW()
+		 WHERE id = $1`,
+		[request.id, message.slice(0, 4000)]
+	)
+	console.log(`✗ Verification ${request.id} for ${request.address} failed: ${message.split('\n')[0]}`)
+}
+
+/**
+ * Process pending requests until the queue is empty
+ */
+async function drainQueue(pool: pg.Pool, rpc: EvmRpc): Promise<void> {
+	while (true) {
+		const request = await claimNext(pool)
+		lastSuccessfulPoll.setToCurrentTime()
+		if (!request) return
+
+		try {
+			await verifyDuration.time(() => verify(pool, rpc, request))
+			verificationsTotal.inc({ result: 'verified' })
+		} catch (err) {
+			if (!(err instanceof VerificationError)) {
+				console.error(`Unexpected error verifying ${request.address}:`, err)
+			}
+			verificationsTotal.inc({ result: 'failed' })
+			await markFailed(pool, request, err)
+		}
+	}
+}
+
+async function main() {
+	console.log('Starting contract verification daemon...')
+	console.log(`Database: ${DATABASE_URL!.replace(/:[^:@]+@/, ':***@')}`)
+	console.log(`EVM RPC: ${EVM_RPC_URL}`)
+	console.log(`solc directory: ${SOLC_BIN_DIR}`)
+
+	const pool = new Pool({ connectionString: DATABASE_URL })
+	const rpc = new EvmRpc(EVM_RPC_URL!)
+
+	const startedAt = Date.now()
+	startMetricsServer(METRICS_PORT, metrics, () => ({
+		...pollHealth(lastSuccessfulPoll, startedAt, HEALTH_MAX_POLL_AGE_MS),
+		listen_connected: listenConnected.get() === 1,
+	}))
+
+	let draining = false
+	const wake = async () => {
+		if (draining) return
+		draining = true
+		try {
+			await drainQueue(pool, rpc)
+		} catch (err) {
+			console.error('Error processing verification queue:', err)
+		} finally {
+			draining = false
+		}
+	}
+
+	const listenClient = await pool.connect()
+	await listenClient.query('LISTEN contract_verification')
+	listenConnected.set(1)
+	listenClient.on('error', (err) => {
+		listenConnected.set(0)
+		console.error('LISTEN connection error:', err.message)
+	})
+	listenClient.on('end', () => listenConnected.set(0))
+	listenClient.on('notification', () => {
+		// Small delay to allow the submitting transaction to commit
+		setTimeout(wake, 100)
+	})
+	console.log('Listening for contract_verification notifications...')
+
+	await wake()
+	setInterval(wake, POLL_INTERVAL_MS)
+}
+
+main().catch(err => {
+	console.error('Fatal error:', err)
+	process.exit(1)
+})